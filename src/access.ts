@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { GameAccess, GameAccessLinks, GameSession } from './types.js';
+
+// owner = 조작 가능, spectator = 보기만 (공유 링크)
+export type AccessLevel = 'owner' | 'spectator';
+
+// 게임 생성 시 발급하는 토큰
+export function createAccessTokens(): GameAccess {
+  return {
+    ownerToken: crypto.randomBytes(18).toString('base64url'),
+    spectatorToken: crypto.randomBytes(18).toString('base64url')
+  };
+}
+
+/**
+ * 토큰이 주는 권한. 토큰이 없던 이전 버전 세션은 누구나 소유자로 본다.
+ * 토큰이 없거나 틀리면 null.
+ */
+export function accessLevel(session: GameSession, token: string | undefined): AccessLevel | null {
+  if (!session.access) {
+    return 'owner';
+  }
+  if (!token) {
+    return null;
+  }
+  if (sameToken(token, session.access.ownerToken)) {
+    return 'owner';
+  }
+  return sameToken(token, session.access.spectatorToken) ? 'spectator' : null;
+}
+
+export function canAccess(session: GameSession, token: string | undefined, required: AccessLevel): boolean {
+  const level = accessLevel(session, token);
+  return level === 'owner' || (level === 'spectator' && required === 'spectator');
+}
+
+// 게임 페이지 링크 (owner = 플레이 링크, spectator = 보기 전용 공유 링크)
+export function gamePageUrl(baseUrl: string, session: GameSession, level: AccessLevel): string {
+  const url = `${baseUrl}/game/${encodeURIComponent(session.id)}`;
+  const token = level === 'owner' ? session.access?.ownerToken : session.access?.spectatorToken;
+  return token ? `${url}?token=${encodeURIComponent(token)}` : url;
+}
+
+// 게임을 만든 쪽에 돌려줄 토큰과 링크 (토큰이 없는 이전 세션이면 undefined)
+export function accessLinks(baseUrl: string, session: GameSession): GameAccessLinks | undefined {
+  return session.access && {
+    ...session.access,
+    playUrl: gamePageUrl(baseUrl, session, 'owner'),
+    shareUrl: gamePageUrl(baseUrl, session, 'spectator')
+  };
+}
+
+// 게임 페이지가 토큰을 기억하는 쿠키 (같은 서버의 REST/WebSocket 요청에 자동으로 붙음)
+export function tokenCookieName(gameId: string): string {
+  return `cube_token_${gameId.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+}
+
+/**
+ * 요청에서 게임 토큰 찾기: Authorization: Bearer 헤더 > ?token= > 게임 페이지 쿠키
+ */
+export function tokenFromRequest(
+  gameId: string,
+  headers: Record<string, string | string[] | undefined>,
+  query: Record<string, unknown> = {}
+): string | undefined {
+  const authorization = headers.authorization;
+  if (typeof authorization === 'string' && /^Bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^Bearer\s+/i, '').trim();
+  }
+  if (typeof query.token === 'string' && query.token !== '') {
+    return query.token;
+  }
+  return readCookie(headers.cookie, tokenCookieName(gameId));
+}
+
+function readCookie(header: string | string[] | undefined, name: string): string | undefined {
+  if (typeof header !== 'string') {
+    return undefined;
+  }
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+// 길이가 달라도 비교 시간이 토큰 내용에 따라 달라지지 않도록
+function sameToken(a: string, b: string): boolean {
+  const left = crypto.createHash('sha256').update(a).digest();
+  const right = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(left, right);
+}
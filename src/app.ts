@@ -1,78 +1,164 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { RubiksCube } from './cubeLogic.js';
+import { isValidMove } from './cubeLogic.js';
 import { VisualizationServer } from './visualizationServer.js';
-import { GameSession, CubeMove, CubeResponse } from './types.js';
+import { MAX_SOLUTION_LENGTH, MAX_SOLVER_TIMEOUT_MS } from './solver/TwoPhaseSolver.js';
+import { solveCubeInWorker, startSolver } from './solver/SolverWorker.js';
+import { MAX_HINT_MOVES } from './hints.js';
+import { MAX_SEED } from './scramble.js';
+import { parseAlgorithm } from './notation.js';
+import { describeHistory } from './history.js';
+import { describeTimer, INSPECTION_MS } from './timer.js';
+import { analyzeCube } from './cfop.js';
+import { accessLinks, canAccess } from './access.js';
+import { GAMES_RESOURCE_URI, GAME_RESOURCE_TEMPLATE, describeGameResource, describeGameSummary, gameIdFromUri, gameResourceUri } from './resources.js';
+import { PROMPTS, PromptName, promptText } from './prompts.js';
+import { createSessionStore } from './storage/SessionStore.js';
+import { loadConfig } from './config.js';
+import { GameManager } from './game/GameManager.js';
+import { BenchmarkManager } from './benchmark/BenchmarkManager.js';
+import { MatchManager, MIN_MATCH_PLAYERS, MAX_MATCH_PLAYERS } from './match/MatchManager.js';
+import { CubeRenderer, CUBE_VIEWS, CubeView } from './rendering/CubeRenderer.js';
+import { createGameUIResource, GAME_UI_MODES, GameUIMode } from './rendering/GameUIResource.js';
+import { GameSession, CubeResponse, CubeState, ScrambleMode, MIN_CUBE_SIZE, MAX_CUBE_SIZE } from './types.js';
 
-class RubiksCubeMCPServer {
-  private mcpServer: McpServer;
+// joinGame/manipulateCube 공통 이미지 옵션
+const IMAGE_OPTIONS = {
+  image: z.enum(CUBE_VIEWS as [CubeView, ...CubeView[]]).optional().describe("Also return a picture of the cube: 'net' (unfolded, all six faces) or 'isometric' (U, F and R faces in 3D)"),
+  imageFormat: z.enum(["png", "svg"]).optional().describe("Image format (default: png)"),
+  imageMove: z.string().optional().describe("Draw arrows on the image showing how this move would turn the cube, e.g. \"R'\"")
+};
+
+// 게임을 바꾸는 도구의 소유자 토큰 (HTTP MCP 연결에서만 필요)
+const TOKEN_OPTION = {
+  token: z.string().optional().describe("Owner token of the game (access.ownerToken from startCube or joinMatch). Required over HTTP MCP connections")
+};
+
+// 읽기 도구의 토큰 - 없어도 되지만 HTTP에서는 있어야 게임의 도구 호출로 집계됨
+const READ_TOKEN_OPTION = {
+  token: z.string().optional().describe("Owner token of the game. Optional; over HTTP MCP connections only calls made with it count as the game's tool calls")
+};
+
+const UI_MODE = z.enum(GAME_UI_MODES as [GameUIMode, ...GameUIMode[]]);
+const UI_MODE_DESCRIPTION = "MCP UI resource: 'interactive' (cube picture with move buttons that call manipulateCube), 'iframe' (embedded 3D game page) or 'link'";
+
+export interface McpServerOptions {
+  // 게임을 바꾸는 도구에 소유자 토큰을 요구 (HTTP 연결 - stdio는 연결 자체를 신뢰)
+  requireTokens?: boolean;
+}
+
+interface ImageOptions {
+  image?: CubeView;
+  imageFormat?: 'png' | 'svg';
+  imageMove?: string;
+}
+
+export class RubiksCubeMCPServer {
   private visualizationServer: VisualizationServer;
-  private games: Map<string, { cube: RubiksCube; session: GameSession }>;
+  private gameManager: GameManager;
+  private matchManager: MatchManager;
+  // 연결별 리소스 구독 (MCP 연결이 끊기면 제거)
+  private resourceSubscriptions = new Map<McpServer, Set<string>>();
 
-  constructor() {
-    this.mcpServer = new McpServer({
+  constructor(gameManager: GameManager = new GameManager(createSessionStore())) {
+    this.gameManager = gameManager;
+    this.matchManager = new MatchManager(this.gameManager);
+    this.visualizationServer = new VisualizationServer(this.gameManager, new BenchmarkManager(this.gameManager), this.matchManager);
+
+    // 구독한 MCP 클라이언트에 게임 리소스 변경 알림 (게임이 생기거나 없어지면 목록 변경도)
+    this.gameManager.on('sessionUpdated', (session: GameSession) => this.notifyResources(session, false));
+    this.gameManager.on('sessionCreated', (session: GameSession) => this.notifyResources(session, true));
+    this.gameManager.on('sessionDeleted', (session: GameSession) => this.notifyResources(session, true));
+  }
+
+  // 모든 도구, 리소스, 프롬프트가 등록된 새 McpServer (연결 하나당 하나)
+  createMcpServer({ requireTokens = false }: McpServerOptions = {}): McpServer {
+    const server = new McpServer({
       name: "rubiks-cube-mcp-server",
       version: "1.0.0"
+    }, {
+      capabilities: { resources: { subscribe: true, listChanged: true } }
     });
-    this.visualizationServer = new VisualizationServer();
-    this.games = new Map();
-    this.setupTools();
+    this.registerTools(server, requireTokens);
+    this.registerResources(server);
+    this.registerPrompts(server);
+    return server;
   }
 
-  private setupTools(): void {
+  // 도구 등록 - MCP 연결마다 새 McpServer에 등록하고 게임 상태는 GameManager로 공유
+  private registerTools(server: McpServer, requireTokens: boolean): void {
+    // 게임을 바꾸는 도구의 권한 확인 - 도구 호출 기록도 바꾸므로 가장 먼저
+    const authorize = (gameId: string, token: string | undefined) => {
+      if (requireTokens && !canAccess(this.gameManager.requireGame(gameId), token, 'owner')) {
+        throw new Error(`Game ${gameId} can only be changed with its owner token: pass access.ownerToken as the token argument`);
+      }
+    };
+
+    // 읽기 도구는 누구나 부를 수 있지만 호출 기록은 소유자 호출만 남김
+    // (다른 게임의 벤치마크 집계를 부풀리거나 만료를 미루지 못하도록)
+    const recordReadCall = (gameId: string, token: string | undefined, tool: string) => {
+      const session = this.gameManager.getGame(gameId);
+      if (session && (!requireTokens || canAccess(session, token, 'owner'))) {
+        this.gameManager.recordToolCall(gameId, tool);
+      }
+    };
+
     // 큐브 게임 시작
-    this.mcpServer.tool(
+    server.tool(
       "startCube",
       "Initialize a new Rubik's Cube game session",
       {
         scramble: z.boolean().optional().describe("Whether to scramble the cube initially"),
-        difficulty: z.number().min(1).max(100).optional().describe("Number of scramble moves (1-100)")
+        difficulty: z.number().min(1).max(100).optional().describe("Number of scramble moves (1-100)"),
+        size: z.number().int().min(MIN_CUBE_SIZE).max(MAX_CUBE_SIZE).optional().describe(`Cube size N for an NxNxN cube (${MIN_CUBE_SIZE}-${MAX_CUBE_SIZE}, default: 3)`),
+        seed: z.number().int().min(0).max(MAX_SEED).optional().describe("Seed for a reproducible scramble (a random seed is generated and returned when omitted)"),
+        scrambleMode: z.enum(['moves', 'random-state']).optional().describe("'moves' (default): difficulty random moves without cancelling pairs; 'random-state': uniformly random state like WCA scrambles (2x2 and 3x3 only)"),
+        initialState: z.union([
+          z.string(),
+          z.object({
+            size: z.number().int().optional(),
+            faces: z.object({
+              front: z.array(z.array(z.string())),
+              back: z.array(z.array(z.string())),
+              left: z.array(z.array(z.string())),
+              right: z.array(z.array(z.string())),
+              top: z.array(z.array(z.string())),
+              bottom: z.array(z.array(z.string()))
+            }),
+            moveHistory: z.array(z.string()).optional()
+          })
+        ]).optional().describe("Start from this position instead of scrambling: a URFDLB facelet string (54 characters for a 3x3), a CubeState object or its JSON, or a scramble such as \"R U R' U'\" applied to a solved cube of the given size. Unreachable states are rejected"),
+        timed: z.boolean().optional().describe(`Timer mode: ${INSPECTION_MS / 1000} s inspection, the timer starts on the first turn (or when inspection ends) and stops when the cube is solved; 3x3 solves also record cross/F2L/OLL/PLL splits`),
+        player: z.string().min(1).optional().describe("Player name the timed solve is recorded under for getStats (default: anonymous)"),
+        ui: UI_MODE.optional().describe(`${UI_MODE_DESCRIPTION} (default: interactive)`)
       },
-      async ({ scramble = true, difficulty = 20 }: { scramble?: boolean; difficulty?: number }) => {
-        const gameId = `cube_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        const cube = new RubiksCube();
+      async ({ scramble = true, difficulty = 20, size = 3, seed, scrambleMode, initialState, timed = false, player, ui = 'interactive' }: {
+        scramble?: boolean; difficulty?: number; size?: number; seed?: number; scrambleMode?: ScrambleMode; initialState?: string | Partial<CubeState>;
+        timed?: boolean; player?: string; ui?: GameUIMode
+      }) => {
+        const session = this.gameManager.createGame({ scramble, difficulty, size, seed, scrambleMode, initialState, timed, player });
+        const gameId = session.id;
 
-        if (scramble) {
-          cube.scramble(difficulty);
-        }
-
-        const session: GameSession = {
-          id: gameId,
-          cubeState: cube.getState(),
-          createdAt: Date.now(),
-          lastActivity: Date.now(),
-          status: 'active',
-          scrambleMoves: difficulty
-        };
-
-        this.games.set(gameId, { cube, session });
-        this.visualizationServer.registerSession(session);
-
-        const currentState = cube.getState();
+        const currentState = session.cubeState;
         const response: CubeResponse = {
           gameId,
           cube: currentState,
-          scrambleMoves: difficulty,
+          scrambleMoves: session.scrambleMoves,
+          scramble: session.scramble,
+          timer: describeTimer(session),
+          analysis: analyzeCube(currentState),
+          access: accessLinks(this.visualizationServer.getBaseUrl(), session),
           nextAction: currentState.solved ? "finish" : "manipulateCube"
         };
 
-        // MCP UI 리소스 생성 (예: 게임 링크)
-        const gameUrl = `http://localhost:3000/game/${gameId}`;
-        const uiResponse = {
-          type: "resource",
-          resource: {
-            uri: `ui://game-link/${gameId}`,
-            mimeType: "text/html",
-            text: `<a href="${gameUrl}" target="_blank">Click to Play!</a>`
-          }
-        } as const;
-
         return {
           content: [
-            uiResponse,
+            createGameUIResource(session, this.visualizationServer.getBaseUrl(), ui),
             { type: "text", text: JSON.stringify(response, null, 2) }
           ]
         };
@@ -80,25 +166,28 @@ class RubiksCubeMCPServer {
     );
 
     // 게임 참여
-    this.mcpServer.tool(
+    server.tool(
       "joinGame",
       "Join an existing Rubik's Cube game session",
       {
         gameId: z.string().describe("The game session ID to join"),
+        ui: UI_MODE.optional().describe(`Also return a ${UI_MODE_DESCRIPTION}`),
+        ...READ_TOKEN_OPTION,
+        ...IMAGE_OPTIONS
       },
-      async ({ gameId }: { gameId: string }) => {
-        const game = this.games.get(gameId);
-        if (!game) {
-          throw new Error(`Game session ${gameId} not found`);
-        }
-
-        const { cube, session } = game;
-        const currentState = cube.getState();
+      async ({ gameId, ui, token, ...imageOptions }: { gameId: string; ui?: GameUIMode; token?: string } & ImageOptions) => {
+        recordReadCall(gameId, token, "joinGame");
+        const session = this.gameManager.requireGame(gameId);
+        const currentState = session.cubeState;
 
         const response: CubeResponse = {
           gameId,
           cube: currentState,
           scrambleMoves: session.scrambleMoves,
+          scramble: session.scramble,
+          hintsUsed: session.hints?.length ?? 0,
+          timer: describeTimer(session),
+          analysis: analyzeCube(currentState),
           nextAction: currentState.solved ? "finish" : "manipulateCube",
         };
 
@@ -106,32 +195,40 @@ class RubiksCubeMCPServer {
           content: [
             { type: "text", text: "Joined game successfully." },
             { type: "text", text: JSON.stringify(response, null, 2) },
+            ...this.imageContent(currentState, imageOptions),
+            ...(ui ? [createGameUIResource(session, this.visualizationServer.getBaseUrl(), ui, 'spectator')] : [])
           ],
         };
       }
     );
 
     // 큐브 조작
-    this.mcpServer.tool(
+    server.tool(
       "manipulateCube",
       "Execute a move on the Rubik's Cube",
       {
         gameId: z.string().describe("The game session ID"),
-        move: z.enum(['U', 'D', 'L', 'R', 'F', 'B', 'U\'', 'D\'', 'L\'', 'R\'', 'F\'', 'B\'', 'U2', 'D2', 'L2', 'R2', 'F2', 'B2']).describe("The cube move to execute")
+        move: z.string().describe("The cube move to execute: U D L R F B, slices M E S, wide turns Rw (or r), rotations x y z, each optionally followed by ' or 2. On 4x4 and larger, inner layers like 2R and wide turns like 3Rw"),
+        ...TOKEN_OPTION,
+        ...IMAGE_OPTIONS
       },
-      async ({ gameId, move }: { gameId: string; move: string }) => {
-        const game = this.games.get(gameId);
-        if (!game) {
-          throw new Error(`Game session ${gameId} not found`);
+      async ({ gameId, move, token, ...imageOptions }: { gameId: string; move: string; token?: string } & ImageOptions) => {
+        authorize(gameId, token);
+        this.gameManager.recordToolCall(gameId, "manipulateCube");
+        const session = this.gameManager.requireGame(gameId);
+        const size = session.cubeState.size;
+        if (!isValidMove(move, size)) {
+          throw new Error(`Invalid move ${move} for a ${size}x${size} cube`);
+        }
+        if (imageOptions.imageMove && !isValidMove(imageOptions.imageMove, size)) {
+          throw new Error(`Invalid imageMove ${imageOptions.imageMove} for a ${size}x${size} cube`);
         }
-
-        const { cube, session } = game;
         
         // 이미 해결된 큐브인지 확인
         if (session.status === 'completed') {
           const response: CubeResponse = {
             gameId,
-            cube: cube.getState(),
+            cube: session.cubeState,
             nextAction: "finish"
           };
           
@@ -145,23 +242,15 @@ class RubiksCubeMCPServer {
           };
         }
 
-        // 움직임 실행
-        cube.executeMove(move as CubeMove);
-        const newState = cube.getState();
-        
-        // 세션 업데이트
-        session.cubeState = newState;
-        session.lastActivity = Date.now();
-        if (newState.solved) {
-          session.status = 'completed';
-        }
-        
-        // 시각화 서버 업데이트
-        this.visualizationServer.updateSession(gameId, newState);
+        // 움직임 실행 - 세션 저장과 시각화 브로드캐스트는 GameManager가 처리
+        this.gameManager.applyMoves(gameId, [move]);
+        const newState = session.cubeState;
         
         const response: CubeResponse = {
           gameId,
           cube: newState,
+          timer: describeTimer(session),
+          analysis: analyzeCube(newState),
           nextAction: newState.solved ? "finish" : "manipulateCube"
         };
         
@@ -170,34 +259,180 @@ class RubiksCubeMCPServer {
             {
               type: "text",
               text: JSON.stringify(response, null, 2)
-            }
+            },
+            ...this.imageContent(newState, imageOptions)
           ]
         };
       }
     );
 
-    // 게임 완료
-    this.mcpServer.tool(
-      "finish",
-      "Complete the Rubik's Cube game session",
+    // 알고리즘(회전 시퀀스) 일괄 실행
+    server.tool(
+      "applyAlgorithm",
+      "Execute a whole move sequence in standard notation, e.g. \"R U R' U' (R U2)2 [F: R]\". All moves are validated before the cube is changed",
       {
-        gameId: z.string().describe("The game session ID")
+        gameId: z.string().describe("The game session ID"),
+        algorithm: z.string().min(1).describe("Move sequence; supports groups with repeats (R U)2, inverses (R U)', commutators [A, B], conjugates [A: B] and // or /* */ comments"),
+        includeSteps: z.boolean().optional().describe("Include the cube faces after every move (default: false)"),
+        ...TOKEN_OPTION
       },
-      async ({ gameId }: { gameId: string }) => {
-        const game = this.games.get(gameId);
-        if (!game) {
-          throw new Error(`Game session ${gameId} not found`);
+      async ({ gameId, algorithm, includeSteps = false, token }: { gameId: string; algorithm: string; includeSteps?: boolean; token?: string }) => {
+        authorize(gameId, token);
+        this.gameManager.recordToolCall(gameId, "applyAlgorithm");
+        const session = this.gameManager.requireGame(gameId);
+        const moves = parseAlgorithm(algorithm, session.cubeState.size);
+
+        if (session.status === 'completed') {
+          const response: CubeResponse = {
+            gameId,
+            cube: session.cubeState,
+            nextAction: "finish"
+          };
+
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(response, null, 2) }
+            ]
+          };
         }
 
-        const { cube, session } = game;
-        const finalState = cube.getState();
+        const { steps } = this.gameManager.applyMoves(gameId, moves, includeSteps);
+        const newState = session.cubeState;
+
+        const response: CubeResponse = {
+          gameId,
+          cube: newState,
+          timer: describeTimer(session),
+          analysis: analyzeCube(newState),
+          nextAction: newState.solved ? "finish" : "manipulateCube"
+        };
+
+        return {
+          content: [
+            { type: "text", text: `Applied ${moves.length} moves: ${moves.join(' ')}` },
+            { type: "text", text: JSON.stringify(includeSteps ? { ...response, steps } : response, null, 2) }
+          ]
+        };
+      }
+    );
+
+    // 되돌리기
+    server.tool(
+      "undoMove",
+      "Undo the last move of the game session",
+      {
+        gameId: z.string().describe("The game session ID"),
+        ...TOKEN_OPTION
+      },
+      async ({ gameId, token }: { gameId: string; token?: string }) => {
+        authorize(gameId, token);
+        this.gameManager.recordToolCall(gameId, "undoMove");
+        return this.travelHistory(gameId, () => this.gameManager.undo(gameId));
+      }
+    );
+
+    // 다시하기
+    server.tool(
+      "redoMove",
+      "Redo the most recently undone move of the game session",
+      {
+        gameId: z.string().describe("The game session ID"),
+        ...TOKEN_OPTION
+      },
+      async ({ gameId, token }: { gameId: string; token?: string }) => {
+        authorize(gameId, token);
+        this.gameManager.recordToolCall(gameId, "redoMove");
+        return this.travelHistory(gameId, () => this.gameManager.redo(gameId));
+      }
+    );
 
-        session.status = 'completed';
-        session.lastActivity = Date.now();
+    // 히스토리의 특정 시점으로 이동
+    server.tool(
+      "jumpToMove",
+      "Move the game to any point of its move history (0 = the starting position). New moves made after jumping back start a new branch",
+      {
+        gameId: z.string().describe("The game session ID"),
+        index: z.number().int().min(0).describe("Number of moves from the starting position to keep applied"),
+        ...TOKEN_OPTION
+      },
+      async ({ gameId, index, token }: { gameId: string; index: number; token?: string }) => {
+        authorize(gameId, token);
+        this.gameManager.recordToolCall(gameId, "jumpToMove");
+        return this.travelHistory(gameId, () => this.gameManager.jumpTo(gameId, index));
+      }
+    );
+
+    // 큐브 해법 계산
+    server.tool(
+      "solveCube",
+      "Compute a near-optimal solution for the current cube state (two-phase solver)",
+      {
+        gameId: z.string().describe("The game session ID"),
+        maxLength: z.number().int().min(1).max(MAX_SOLUTION_LENGTH).optional().describe(`Maximum solution length in moves (default: ${MAX_SOLUTION_LENGTH})`),
+        timeoutMs: z.number().int().min(0).max(MAX_SOLVER_TIMEOUT_MS).optional().describe("Time budget in ms for the whole search, spent on finding shorter solutions; fails when no solution is found in time. 0 stops at the first solution (default: 2000)"),
+        ...READ_TOKEN_OPTION
+      },
+      async ({ gameId, maxLength, timeoutMs, token }: { gameId: string; maxLength?: number; timeoutMs?: number; token?: string }) => {
+        recordReadCall(gameId, token, "solveCube");
+        const currentState = this.gameManager.requireGame(gameId).cubeState;
+        const result = await solveCubeInWorker(currentState, { maxLength, timeoutMs });
+
+        const response = {
+          gameId,
+          ...result,
+          movesSoFar: currentState.moveHistory.length
+        };
+
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(response, null, 2) }
+          ]
+        };
+      }
+    );
+
+    // 다음 수 힌트
+    server.tool(
+      "getHint",
+      "Suggest the next move(s) without revealing the full solution. Hint usage is recorded on the game session and rate-limited",
+      {
+        gameId: z.string().describe("The game session ID"),
+        count: z.number().int().min(1).max(MAX_HINT_MOVES).optional().describe(`Number of moves to suggest (1-${MAX_HINT_MOVES}, default: 1)`),
+        ...TOKEN_OPTION
+      },
+      async ({ gameId, count = 1, token }: { gameId: string; count?: number; token?: string }) => {
+        authorize(gameId, token);
+        this.gameManager.recordToolCall(gameId, "getHint");
+        const hint = this.gameManager.requestHint(gameId, count);
+
+        return {
+          content: [
+            { type: "text", text: JSON.stringify({ gameId, ...hint }, null, 2) }
+          ]
+        };
+      }
+    );
+
+    // 게임 완료
+    server.tool(
+      "finish",
+      "Complete the Rubik's Cube game session",
+      {
+        gameId: z.string().describe("The game session ID"),
+        ...TOKEN_OPTION
+      },
+      async ({ gameId, token }: { gameId: string; token?: string }) => {
+        authorize(gameId, token);
+        this.gameManager.recordToolCall(gameId, "finish");
+        const session = this.gameManager.finish(gameId);
+        const finalState = session.cubeState;
 
         const response: CubeResponse = {
           gameId,
           cube: finalState,
+          hintsUsed: session.hints?.length ?? 0,
+          timer: describeTimer(session),
+          analysis: analyzeCube(finalState),
           nextAction: null,
         };
 
@@ -213,15 +448,366 @@ class RubiksCubeMCPServer {
         };
       }
     );
+
+    // 진행도 분석
+    server.tool(
+      "analyzeCube",
+      "Analyze how far the cube is solved: CFOP stages, cross edges, solved F2L pairs, OLL/PLL case names, solved cubies and misoriented edges",
+      {
+        gameId: z.string().describe("The game session ID"),
+        ...READ_TOKEN_OPTION
+      },
+      async ({ gameId, token }: { gameId: string; token?: string }) => {
+        recordReadCall(gameId, token, "analyzeCube");
+        const state = this.gameManager.requireGame(gameId).cubeState;
+
+        return {
+          content: [
+            { type: "text", text: JSON.stringify({ gameId, ...analyzeCube(state) }, null, 2) }
+          ]
+        };
+      }
+    );
+
+    // 타이머 모드 통계
+    server.tool(
+      "getStats",
+      "Get timed-solve statistics per player: best, mean, ao5 and ao12 (WCA averages, times in ms)",
+      {
+        player: z.string().min(1).optional().describe("Only this player's statistics (default: all players)")
+      },
+      async ({ player }: { player?: string }) => {
+        const stats = this.gameManager.getStats(player);
+
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(stats, null, 2) }
+          ]
+        };
+      }
+    );
+
+    // 게임 목록
+    server.tool(
+      "listGames",
+      "List the game sessions kept on the server with their status and expiry time",
+      {
+        status: z.enum(['active', 'completed']).optional().describe("Only games with this status (default: all)")
+      },
+      async ({ status }: { status?: GameSession['status'] }) => {
+        const games = this.gameManager.listGames()
+          .filter(session => !status || session.status === status)
+          .map(session => describeGameSummary(session, this.gameManager.getExpiry(session)));
+
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(games, null, 2) }
+          ]
+        };
+      }
+    );
+
+    // 게임 삭제
+    server.tool(
+      "deleteGame",
+      "Delete a game session. Viewers of the game are notified that it is gone",
+      {
+        gameId: z.string().describe("The game session ID"),
+        ...TOKEN_OPTION
+      },
+      async ({ gameId, token }: { gameId: string; token?: string }) => {
+        authorize(gameId, token);
+        this.gameManager.deleteGame(gameId);
+
+        return {
+          content: [
+            { type: "text", text: `Game ${gameId} deleted.` }
+          ]
+        };
+      }
+    );
+
+    // 게임 처음부터 다시
+    server.tool(
+      "resetGame",
+      "Reset a game to its scrambled starting position and clear its move history (timed games restart inspection)",
+      {
+        gameId: z.string().describe("The game session ID"),
+        ...TOKEN_OPTION
+      },
+      async ({ gameId, token }: { gameId: string; token?: string }) => {
+        authorize(gameId, token);
+        this.gameManager.recordToolCall(gameId, "resetGame");
+        const session = this.gameManager.resetGame(gameId);
+        const state = session.cubeState;
+
+        const response: CubeResponse = {
+          gameId,
+          cube: state,
+          timer: describeTimer(session),
+          analysis: analyzeCube(state),
+          nextAction: state.solved ? "finish" : "manipulateCube"
+        };
+
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(response, null, 2) }
+          ]
+        };
+      }
+    );
+
+    // 대결 생성
+    server.tool(
+      "createMatch",
+      "Create a head-to-head race: one game per player, all with the same seeded scramble. Players claim a game with joinMatch and the fastest solve wins",
+      {
+        players: z.number().int().min(MIN_MATCH_PLAYERS).max(MAX_MATCH_PLAYERS).optional().describe(`Number of players (${MIN_MATCH_PLAYERS}-${MAX_MATCH_PLAYERS}, default: ${MIN_MATCH_PLAYERS})`),
+        name: z.string().optional().describe("Match name shown on the scoreboard"),
+        size: z.number().int().min(MIN_CUBE_SIZE).max(MAX_CUBE_SIZE).optional().describe(`Cube size N (${MIN_CUBE_SIZE}-${MAX_CUBE_SIZE}, default: 3)`),
+        seed: z.number().int().min(0).max(MAX_SEED).optional().describe("Seed for the shared scramble (a random seed is generated when omitted)"),
+        scrambleMode: z.enum(['moves', 'random-state']).optional().describe("'moves' (default) or 'random-state' (2x2 and 3x3 only)"),
+        difficulty: z.number().min(1).max(100).optional().describe("Number of scramble moves for 'moves' mode (1-100)"),
+        player: z.string().min(1).optional().describe("Also join the match as this player, taking the first slot")
+      },
+      async ({ player, ...options }: {
+        players?: number; name?: string; size?: number; seed?: number; scrambleMode?: ScrambleMode; difficulty?: number; player?: string
+      }) => {
+        const match = this.matchManager.createMatch(options);
+        const response = {
+          matchId: match.id,
+          name: match.name,
+          players: match.slots.length,
+          size: match.size,
+          scramble: { seed: match.seed, mode: match.scrambleMode, moves: match.scramble },
+          viewUrl: `${this.visualizationServer.getBaseUrl()}/match/${match.id}`
+        };
+        if (player) {
+          return this.matchJoinContent(match.id, player, 'interactive', response);
+        }
+
+        return {
+          content: [
+            { type: "text", text: JSON.stringify({ ...response, nextAction: "joinMatch" }, null, 2) }
+          ]
+        };
+      }
+    );
+
+    // 대결 참가
+    server.tool(
+      "joinMatch",
+      "Join a head-to-head race under a player name and get that player's game. Joining again with the same name needs the owner token returned by the first join",
+      {
+        matchId: z.string().describe("The match ID"),
+        player: z.string().min(1).describe("Player name shown on the scoreboard"),
+        token: z.string().optional().describe("Owner token of the player's game, required to join again with a name that already has a slot"),
+        ui: UI_MODE.optional().describe(`${UI_MODE_DESCRIPTION} (default: interactive)`)
+      },
+      async ({ matchId, player, token, ui = 'interactive' }: { matchId: string; player: string; token?: string; ui?: GameUIMode }) => {
+        return this.matchJoinContent(matchId, player, ui, {
+          matchId,
+          viewUrl: `${this.visualizationServer.getBaseUrl()}/match/${matchId}`
+        }, token);
+      }
+    );
+  }
+
+  // 대결 참가 공통 처리 - 자리의 게임과 점수판 (재참가면 access 링크는 다시 주지 않음)
+  // 재참가는 소유자 토큰을 보여 줘야 되므로 UI는 항상 소유자용 (조작 버튼이 HTTP에서도 동작하도록)
+  private matchJoinContent(matchId: string, player: string, ui: GameUIMode, extra: Record<string, unknown>, token?: string) {
+    const { slot, session, rejoined } = this.matchManager.joinMatch(matchId, player, token);
+    this.gameManager.recordToolCall(session.id, "joinMatch");
+    const state = session.cubeState;
+
+    const response: CubeResponse = {
+      gameId: session.id,
+      cube: state,
+      scrambleMoves: session.scrambleMoves,
+      scramble: session.scramble,
+      analysis: analyzeCube(state),
+      access: rejoined ? undefined : accessLinks(this.visualizationServer.getBaseUrl(), session),
+      nextAction: state.solved ? "finish" : "manipulateCube"
+    };
+
+    return {
+      content: [
+        createGameUIResource(session, this.visualizationServer.getBaseUrl(), ui),
+        {
+          type: "text" as const,
+          text: JSON.stringify({ ...extra, slot, rejoined, ...response, scoreboard: this.matchManager.getScoreboard(matchId) }, null, 2)
+        }
+      ]
+    };
+  }
+
+  // 게임을 MCP 리소스로 노출 - 목록(cube://games)과 게임 하나(cube://games/{gameId}), 변경은 구독으로 알림
+  private registerResources(server: McpServer): void {
+    server.resource(
+      "games",
+      GAMES_RESOURCE_URI,
+      { description: "Game sessions kept on the server with their status and expiry time", mimeType: "application/json" },
+      async uri => ({
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(this.gameManager.listGames().map(session => describeGameSummary(session, this.gameManager.getExpiry(session))), null, 2)
+        }]
+      })
+    );
+
+    server.resource(
+      "game",
+      new ResourceTemplate(GAME_RESOURCE_TEMPLATE, {
+        list: async () => ({
+          resources: this.gameManager.listGames().map(session => ({
+            uri: gameResourceUri(session.id),
+            name: `Game ${session.id}`,
+            mimeType: "application/json"
+          }))
+        }),
+        complete: {
+          gameId: value => this.gameManager.listGames().map(session => session.id).filter(id => id.startsWith(value))
+        }
+      }),
+      { description: "A game session: cube state, facelets, timestamped move history, CFOP analysis and timer", mimeType: "application/json" },
+      async (uri, { gameId }) => {
+        const session = this.gameManager.requireGame(String(gameId));
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(describeGameResource(session, this.gameManager.getExpiry(session)), null, 2)
+          }]
+        };
+      }
+    );
+
+    const subscriptions = new Set<string>();
+    this.resourceSubscriptions.set(server, subscriptions);
+    server.server.onclose = () => {
+      this.resourceSubscriptions.delete(server);
+    };
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async ({ params: { uri } }) => {
+      const gameId = gameIdFromUri(uri);
+      if (uri !== GAMES_RESOURCE_URI && (gameId === null || !this.gameManager.getGame(gameId))) {
+        throw new Error(`Unknown resource ${uri}`);
+      }
+      subscriptions.add(uri);
+      return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params: { uri } }) => {
+      subscriptions.delete(uri);
+      return {};
+    });
+  }
+
+  // 풀이 프롬프트 - 게임 상태를 리소스로 넣고 풀이 방법을 안내
+  private registerPrompts(server: McpServer): void {
+    for (const [name, description] of Object.entries(PROMPTS) as [PromptName, string][]) {
+      server.prompt(
+        name,
+        description,
+        { gameId: z.string().describe("The game session ID") },
+        async ({ gameId }) => {
+          const session = this.gameManager.requireGame(gameId);
+          return {
+            description,
+            messages: [
+              {
+                role: "user",
+                content: {
+                  type: "resource",
+                  resource: {
+                    uri: gameResourceUri(gameId),
+                    mimeType: "application/json",
+                    text: JSON.stringify(describeGameResource(session, this.gameManager.getExpiry(session)), null, 2)
+                  }
+                }
+              },
+              { role: "user", content: { type: "text", text: promptText(name, session) } }
+            ]
+          };
+        }
+      );
+    }
+  }
+
+  // 게임과 게임 목록을 구독한 연결에 resources/updated 알림, listChanged면 모든 연결에 목록 변경 알림
+  private notifyResources(session: GameSession, listChanged: boolean): void {
+    const uris = [gameResourceUri(session.id), GAMES_RESOURCE_URI];
+    for (const [server, subscriptions] of this.resourceSubscriptions) {
+      if (!server.isConnected()) {
+        continue;
+      }
+      for (const uri of uris.filter(uri => subscriptions.has(uri))) {
+        server.server.sendResourceUpdated({ uri }).catch(error => console.error(`❌ Failed to notify ${uri}:`, error));
+      }
+      if (listChanged) {
+        server.sendResourceListChanged();
+      }
+      if (!this.gameManager.getGame(session.id)) {
+        subscriptions.delete(uris[0]);
+      }
+    }
+  }
+
+  // 히스토리 이동 공통 처리
+  private travelHistory(gameId: string, travel: () => GameSession) {
+    const session = travel();
+    const newState = session.cubeState;
+
+    const response: CubeResponse = {
+      gameId,
+      cube: newState,
+      timer: describeTimer(session),
+      analysis: analyzeCube(newState),
+      nextAction: newState.solved ? "finish" : "manipulateCube"
+    };
+
+    return {
+      content: [
+        { type: "text" as const, text: JSON.stringify({ ...response, history: describeHistory(session) }, null, 2) }
+      ]
+    };
+  }
+
+  // image 옵션이 있으면 큐브 그림을 MCP image 콘텐츠로 반환
+  private imageContent(state: CubeState, { image, imageFormat = 'png', imageMove }: ImageOptions) {
+    if (!image) {
+      return [];
+    }
+
+    const renderer = new CubeRenderer(state, { view: image, move: imageMove });
+    const data = imageFormat === 'svg'
+      ? Buffer.from(renderer.toSvg()).toString('base64')
+      : renderer.toPng().toString('base64');
+    return [
+      { type: "image" as const, data, mimeType: imageFormat === 'svg' ? "image/svg+xml" : "image/png" }
+    ];
+  }
+
+  // MCP 클라이언트 연결 (stdio, 테스트에서는 in-memory 트랜스포트) - 연결마다 독립된 McpServer
+  async connect(transport: Transport): Promise<void> {
+    await this.createMcpServer().connect(transport);
   }
 
   async start(): Promise<void> {
-    // 시각화 서버 시작 - 환경변수 PORT 또는 기본값 3000 사용
-    const port = parseInt(process.env.PORT || '3000');
-    this.visualizationServer.start(port);
-    
-    // MCP 서버 시작
-    const transport = new StdioServerTransport();
+    // CLI 옵션, 환경변수, 설정 파일 (config.ts 참고)
+    const config = loadConfig();
+    const transportMode = config.transport;
+
+    // 솔버 테이블을 요청 전에 만들고 솔버 워커를 띄움
+    startSolver();
+
+    // 시각화 서버 시작 - HTTP MCP도 같은 서버에서 제공
+    if (transportMode !== 'stdio') {
+      this.visualizationServer.enableMcp(() => this.createMcpServer({ requireTokens: true }));
+    }
+    await this.visualizationServer.start(config.port, config);
+    this.gameManager.setLimits({ idleTtlMs: config.sessionTtlMinutes * 60_000, maxSessions: config.maxSessions });
     
     // Process exit handlers - parent process가 죽으면 함께 종료
     process.on('SIGINT', () => {
@@ -234,21 +820,27 @@ class RubiksCubeMCPServer {
       this.shutdown();
     });
     
-    // Stdio disconnect handler - MCP client 연결이 끊어지면 종료
-    process.stdin.on('end', () => {
-      console.error("🛑 Stdin disconnected, shutting down...");
-      this.shutdown();
-    });
-    
-    process.stdin.on('close', () => {
-      console.error("🛑 Stdin closed, shutting down...");
-      this.shutdown();
-    });
-    
-    await this.mcpServer.connect(transport);
+    if (transportMode !== 'http') {
+      // Stdio disconnect handler - MCP client 연결이 끊어지면 종료 (HTTP 전용 모드는 계속 실행)
+      process.stdin.on('end', () => {
+        console.error("🛑 Stdin disconnected, shutting down...");
+        this.shutdown();
+      });
+      
+      process.stdin.on('close', () => {
+        console.error("🛑 Stdin closed, shutting down...");
+        this.shutdown();
+      });
+      
+      await this.connect(new StdioServerTransport());
+    }
     
-    console.error("🎲 Rubik's Cube MCP Server started!");
-    console.error("🌐 Visualization available at: http://localhost:3000");
+    console.error(`🎲 Rubik's Cube MCP Server started! (transport: ${transportMode})`);
+    const baseUrl = this.visualizationServer.getBaseUrl();
+    console.error(`🌐 Visualization available at: ${baseUrl}`);
+    if (transportMode !== 'stdio') {
+      console.error(`🔌 MCP over HTTP: ${baseUrl}/mcp (SSE: ${baseUrl}/sse)`);
+    }
   }
   
   private shutdown(): void {
@@ -261,15 +853,23 @@ class RubiksCubeMCPServer {
     } catch (error) {
       console.error("❌ Error stopping visualization server:", error);
     }
+
+    try {
+      this.gameManager.close();
+    } catch (error) {
+      console.error("❌ Error closing session store:", error);
+    }
     
     // Process 종료
     process.exit(0);
   }
 }
 
-// 서버 시작
-const server = new RubiksCubeMCPServer();
-server.start().catch((error) => {
-  console.error("Failed to start server:", error);
-  process.exit(1);
-});
+// 직접 실행했을 때만 서버 시작 (테스트 등에서 import할 때는 시작하지 않음)
+if (require.main === module) {
+  const server = new RubiksCubeMCPServer();
+  server.start().catch((error) => {
+    console.error("Failed to start server:", error);
+    process.exit(1);
+  });
+}
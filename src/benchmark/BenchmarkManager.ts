@@ -0,0 +1,280 @@
+import {
+  BenchmarkAttempt, BenchmarkResults, BenchmarkRun, BenchmarkRunSummary, BenchmarkScramble, BenchmarkSuite,
+  GameSession, ScrambleMode, MIN_CUBE_SIZE, MAX_CUBE_SIZE
+} from '../types.js';
+import { RubiksCube } from '../cubeLogic.js';
+import { createRandom, randomSeed, scrambleCube, MAX_SEED } from '../scramble.js';
+import { solveCubeInWorker } from '../solver/SolverWorker.js';
+import { isRotation } from '../timer.js';
+import { GameManager } from '../game/GameManager.js';
+
+export const MAX_SUITE_SCRAMBLES = 100;
+
+// 기준 해법을 다듬는 탐색 노드 예산 - 3x3 스크램블당 약 0.4초, 대부분 20수 안팎
+export const REFERENCE_SOLVER_NODES = 1_000_000;
+
+export interface CreateSuiteOptions {
+  name: string;
+  count?: number;             // seeds가 없을 때 seed에서 만들 스크램블 수
+  seed?: number;
+  seeds?: number[];           // 스크램블 seed를 직접 지정
+  size?: number;
+  scrambleMode?: ScrambleMode;
+  difficulty?: number;        // 'moves' 방식의 회전 수
+}
+
+export interface RegisterRunOptions {
+  agent: string;
+  model?: string;
+  config?: Record<string, unknown>;
+}
+
+// 존재하지 않는 스위트/실행 ID
+export class BenchmarkNotFoundError extends Error {
+  constructor(kind: 'suite' | 'run', readonly id: string) {
+    super(`Benchmark ${kind} ${id} not found`);
+    this.name = 'BenchmarkNotFoundError';
+  }
+}
+
+/**
+ * 에이전트 벤치마크. 스위트는 seed로 재현되는 스크램블 목록이고, 실행(run)은 에이전트 하나가
+ * 그 스크램블들을 푸는 기록이다. 스크램블마다 GameManager 게임을 만들고, 회전 수/시간/도구 호출/
+ * 힌트 사용은 게임 세션에서 읽어 솔버 해법 길이와 비교한다.
+ * 스위트와 실행은 메모리에만 있고, 게임은 GameManager의 세션 저장소에 저장된다.
+ */
+export class BenchmarkManager {
+  private suites = new Map<string, BenchmarkSuite>();
+  private runs = new Map<string, BenchmarkRun>();
+
+  constructor(private readonly gameManager: GameManager) {}
+
+  // 스위트 생성 - 잘못된 옵션이면 예외 (기준 해법을 솔버 워커에서 구하므로 비동기)
+  async createSuite({
+    name, count = 5, seed = randomSeed(), seeds, size = 3, scrambleMode = size <= 3 ? 'random-state' : 'moves',
+    difficulty = 20
+  }: CreateSuiteOptions): Promise<BenchmarkSuite> {
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error('name must be a non-empty string');
+    }
+    if (!Number.isInteger(size) || size < MIN_CUBE_SIZE || size > MAX_CUBE_SIZE) {
+      throw new Error(`size must be an integer between ${MIN_CUBE_SIZE} and ${MAX_CUBE_SIZE}`);
+    }
+    if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+      throw new Error(`seed must be an integer between 0 and ${MAX_SEED}`);
+    }
+    if (!Number.isInteger(difficulty) || difficulty < 1 || difficulty > 100) {
+      throw new Error('difficulty must be an integer between 1 and 100');
+    }
+    if (seeds === undefined && (!Number.isInteger(count) || count < 1 || count > MAX_SUITE_SCRAMBLES)) {
+      throw new Error(`count must be an integer between 1 and ${MAX_SUITE_SCRAMBLES}`);
+    }
+    if (seeds !== undefined && (!Array.isArray(seeds) || seeds.length < 1 || seeds.length > MAX_SUITE_SCRAMBLES)) {
+      throw new Error(`seeds must be an array of 1 to ${MAX_SUITE_SCRAMBLES} seeds`);
+    }
+
+    // seed 하나에서 스크램블 seed 목록을 만들어 스위트 전체를 재현 가능하게 함
+    const random = createRandom(seed);
+    const scrambleSeeds = seeds ?? Array.from({ length: count }, () => Math.floor(random() * (MAX_SEED + 1)));
+
+    // 기준 해법은 시간이 아닌 노드 예산으로 다듬음 - 기계 속도나 부하와 무관하게 같은 길이
+    const cubes = scrambleSeeds.map(scrambleSeed => {
+      const cube = new RubiksCube(size);
+      const { moves } = scrambleCube(cube, { length: difficulty, seed: scrambleSeed, mode: scrambleMode });
+      return { cube, moves };
+    });
+    const solverNodes = size === 3 ? REFERENCE_SOLVER_NODES : null;
+    const scrambles = await Promise.all(cubes.map(async ({ cube, moves }, index): Promise<BenchmarkScramble> => {
+      const solverLength = solverNodes === null ? null
+        : cube.isSolved() ? 0
+        : (await solveCubeInWorker(cube.getState(), { maxNodes: solverNodes })).length;
+      return { index, seed: scrambleSeeds[index], scramble: moves, solverLength };
+    }));
+
+    const suite: BenchmarkSuite = {
+      id: `suite_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim(),
+      size,
+      scrambleMode,
+      difficulty,
+      seed,
+      solverNodes,
+      scrambles,
+      createdAt: Date.now()
+    };
+    this.suites.set(suite.id, suite);
+    return suite;
+  }
+
+  getSuite(suiteId: string): BenchmarkSuite | undefined {
+    return this.suites.get(suiteId);
+  }
+
+  requireSuite(suiteId: string): BenchmarkSuite {
+    const suite = this.suites.get(suiteId);
+    if (!suite) {
+      throw new BenchmarkNotFoundError('suite', suiteId);
+    }
+    return suite;
+  }
+
+  listSuites(): BenchmarkSuite[] {
+    return Array.from(this.suites.values());
+  }
+
+  // 에이전트 실행 등록
+  registerRun(suiteId: string, { agent, model, config }: RegisterRunOptions): BenchmarkRun {
+    this.requireSuite(suiteId);
+    if (typeof agent !== 'string' || agent.trim() === '') {
+      throw new Error('agent must be a non-empty string');
+    }
+    if (model !== undefined && typeof model !== 'string') {
+      throw new Error('model must be a string');
+    }
+    if (config !== undefined && (typeof config !== 'object' || config === null || Array.isArray(config))) {
+      throw new Error('config must be an object');
+    }
+
+    const run: BenchmarkRun = {
+      id: `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      suiteId,
+      agent: agent.trim(),
+      model,
+      config,
+      createdAt: Date.now(),
+      games: {}
+    };
+    this.runs.set(run.id, run);
+    return run;
+  }
+
+  requireRun(suiteId: string, runId: string): BenchmarkRun {
+    const run = this.runs.get(runId);
+    if (!run || run.suiteId !== suiteId) {
+      throw new BenchmarkNotFoundError('run', runId);
+    }
+    return run;
+  }
+
+  listRuns(suiteId: string): BenchmarkRun[] {
+    return Array.from(this.runs.values()).filter(run => run.suiteId === suiteId);
+  }
+
+  /**
+   * 실행의 index번째 스크램블 게임을 만든다. 이미 시작했으면 같은 게임을 반환하고, 그 게임이
+   * 삭제됐으면 다시 만들지 않으므로 에이전트가 게임을 지워 기록을 새로 시작할 수 없다.
+   */
+  startScramble(suiteId: string, runId: string, index: number): GameSession {
+    const suite = this.requireSuite(suiteId);
+    const run = this.requireRun(suiteId, runId);
+    const scramble = suite.scrambles[index];
+    if (!Number.isInteger(index) || !scramble) {
+      throw new Error(`Scramble index must be an integer between 0 and ${suite.scrambles.length - 1}`);
+    }
+
+    if (run.games[index] !== undefined) {
+      const existing = this.gameManager.getGame(run.games[index]);
+      if (!existing) {
+        throw new Error(`Scramble ${index} of run ${runId} was already played and its game has been deleted`);
+      }
+      return existing;
+    }
+
+    const session = this.gameManager.createGame({
+      size: suite.size,
+      seed: scramble.seed,
+      scrambleMode: suite.scrambleMode,
+      difficulty: suite.difficulty,
+      benchmark: { suiteId, runId, scrambleIndex: index },
+      idPrefix: 'bench'
+    });
+    run.games[index] = session.id;
+    return session;
+  }
+
+  // 실행별 스크램블 기록과 리더보드
+  getResults(suiteId: string): BenchmarkResults {
+    const { scrambles, ...suite } = this.requireSuite(suiteId);
+    const runs = this.listRuns(suiteId);
+
+    const attempts = runs.flatMap(run => scrambles.map(scramble => this.attempt(run, scramble)));
+    const summaries = runs.map(run => summarize(run, attempts.filter(attempt => attempt.runId === run.id), scrambles.length));
+
+    // 푼 개수 > 평균 효율 > 평균 시간 순
+    summaries.sort((a, b) =>
+      b.solved - a.solved ||
+      (b.meanEfficiency ?? -1) - (a.meanEfficiency ?? -1) ||
+      (a.meanTimeMs ?? Number.MAX_SAFE_INTEGER) - (b.meanTimeMs ?? Number.MAX_SAFE_INTEGER)
+    );
+    summaries.forEach((summary, i) => { summary.rank = i + 1; });
+
+    return { suite: { ...suite, scrambleCount: scrambles.length }, leaderboard: summaries, attempts };
+  }
+
+  private attempt(run: BenchmarkRun, scramble: BenchmarkScramble): BenchmarkAttempt {
+    const gameId = run.games[scramble.index];
+    const session = gameId !== undefined ? this.gameManager.getGame(gameId) : undefined;
+    const appliedMoves = session?.history ? session.history.moves.slice(0, session.history.cursor) : session?.cubeState.moveHistory ?? [];
+    const moves = appliedMoves.filter(move => !isRotation(move)).length;
+    const solved = session?.status === 'completed' && session.gaveUpAt === undefined && session.cubeState.solved;
+    const endedAt = session?.completedAt ?? session?.gaveUpAt;
+
+    return {
+      runId: run.id,
+      agent: run.agent,
+      model: run.model ?? null,
+      scrambleIndex: scramble.index,
+      seed: scramble.seed,
+      gameId: gameId ?? null,
+      status: !session ? (gameId !== undefined ? 'deleted' : 'pending') : session.status === 'active' ? 'active' : solved ? 'solved' : 'unsolved',
+      moves,
+      timeMs: session && endedAt !== undefined ? endedAt - session.createdAt : null,
+      toolCalls: Object.values(session?.toolCalls ?? {}).reduce((a, b) => a + b, 0),
+      solverCalls: session?.toolCalls?.solveCube ?? 0,
+      hintsUsed: session?.hints?.length ?? 0,
+      solverLength: scramble.solverLength,
+      efficiency: solved && scramble.solverLength !== null && moves > 0 ? round(scramble.solverLength / moves, 3) : null
+    };
+  }
+}
+
+function summarize(run: BenchmarkRun, attempts: BenchmarkAttempt[], scrambleCount: number): BenchmarkRunSummary {
+  const solved = attempts.filter(attempt => attempt.status === 'solved');
+  const mean = (values: number[], digits: number) =>
+    values.length > 0 ? round(values.reduce((a, b) => a + b, 0) / values.length, digits) : null;
+
+  return {
+    rank: 0,
+    runId: run.id,
+    agent: run.agent,
+    model: run.model ?? null,
+    attempted: attempts.filter(attempt => attempt.status !== 'pending').length,
+    solved: solved.length,
+    solveRate: round(solved.length / scrambleCount, 3),
+    meanMoves: mean(solved.map(attempt => attempt.moves), 1),
+    meanTimeMs: mean(solved.map(attempt => attempt.timeMs!), 0),
+    meanEfficiency: mean(solved.flatMap(attempt => attempt.efficiency ?? []), 3),
+    toolCalls: attempts.reduce((sum, attempt) => sum + attempt.toolCalls, 0),
+    hintsUsed: attempts.reduce((sum, attempt) => sum + attempt.hintsUsed, 0)
+  };
+}
+
+const CSV_COLUMNS: (keyof BenchmarkAttempt)[] = [
+  'runId', 'agent', 'model', 'scrambleIndex', 'seed', 'gameId', 'status',
+  'moves', 'solverLength', 'efficiency', 'timeMs', 'toolCalls', 'solverCalls', 'hintsUsed'
+];
+
+// 스크램블별 기록 CSV (한 줄 = 실행 하나의 스크램블 하나)
+export function resultsToCsv(results: BenchmarkResults): string {
+  const cell = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = results.attempts.map(attempt => CSV_COLUMNS.map(column => cell(attempt[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,360 @@
+import { CubeAnalysis, CubeMove, CubeState, SolveStage } from './types.js';
+import { RubiksCube } from './cubeLogic.js';
+import { invertMoves, parseAlgorithm } from './notation.js';
+import { stickerGeometry, Vec3 } from './model/StickerModel.js';
+import { CubieCube, MOVE_CUBES } from './solver/CubieCube.js';
+import { FACE_COLORS } from './facelets.js';
+
+type FaceKey = keyof CubeState['faces'];
+
+// 완료 순서대로의 CFOP 단계 (pll = 완성)
+export const SOLVE_STAGES: readonly SolveStage[] = ['cross', 'f2l', 'oll', 'pll'];
+
+export interface StageProgress {
+  stages: SolveStage[];          // 완료된 단계 (앞에서부터 연속)
+  crossFace: FaceKey | null;     // 가장 많이 진행된 크로스 면 (색 중립, 동률이면 bottom 우선)
+  crossColor: string | null;
+}
+
+interface Sticker {
+  pos: Vec3;
+  normal: Vec3;
+  color: string;
+}
+
+// 크로스 면 하나 기준의 진행도
+interface FaceProgress {
+  face: FaceKey;
+  stages: SolveStage[];
+  crossEdges: number;
+  f2lPairs: number;
+}
+
+// 크로스 후보 순서 - 진행도가 같으면 흔히 쓰는 D면 크로스를 먼저 택함
+const CROSS_FACES: FaceKey[] = ['bottom', 'top', 'front', 'back', 'left', 'right'];
+
+// 크로스 면을 아래로 가져오는 큐브 회전
+const TO_BOTTOM: Record<FaceKey, CubeMove[]> = {
+  bottom: [],
+  top: ['x2'],
+  front: ['x\''],
+  back: ['x'],
+  left: ['z\''],
+  right: ['z']
+};
+
+// 반대 면 색 (짝수 크기는 센터가 없어 한 코너와 이 표로 면 색을 정함)
+const OPPOSITE_COLORS = new Map<string, string>([
+  [FACE_COLORS.U, FACE_COLORS.D], [FACE_COLORS.D, FACE_COLORS.U],
+  [FACE_COLORS.R, FACE_COLORS.L], [FACE_COLORS.L, FACE_COLORS.R],
+  [FACE_COLORS.F, FACE_COLORS.B], [FACE_COLORS.B, FACE_COLORS.F]
+]);
+
+/**
+ * 3x3 상태에서 어느 CFOP 단계까지 끝났는지 판별한다. 여섯 면을 모두 크로스 후보로 보고
+ * 가장 많이 진행된 면을 택하며, 각 조각은 붙은 면의 센터 색과 일치할 때 맞은 것으로 본다
+ * (센터 기준이므로 큐브 회전이나 슬라이스 뒤에도 동작). 3x3이 아니면 완성 여부만 본다.
+ */
+export function detectStages(state: CubeState): StageProgress {
+  if (state.size !== 3) {
+    return { stages: state.solved ? [...SOLVE_STAGES] : [], crossFace: null, crossColor: null };
+  }
+
+  const cube = new StickerView(state);
+  const best = cube.bestFace();
+  return best.stages.length === 0
+    ? { stages: [], crossFace: null, crossColor: null }
+    : { stages: best.stages, crossFace: best.face, crossColor: cube.faceColor(best.face) };
+}
+
+/**
+ * 큐브가 "얼마나 풀렸는지" 분석한다. 모든 크기에서 맞은 조각 수를, 3x3에서는 CFOP 기준으로
+ * 크로스 엣지 수, 맞춘 F2L 페어 수, 방향이 틀린 엣지 수와 F2L이 끝났을 때의 OLL/PLL 케이스를 보고한다.
+ */
+export function analyzeCube(state: CubeState): CubeAnalysis {
+  const cube = new StickerView(state);
+  const cubies = cube.cubieStatus();
+  const solvedCubies = cubies.filter(cubie => cubie.solved).length;
+
+  if (state.size !== 3) {
+    return {
+      stages: state.solved ? [...SOLVE_STAGES] : [],
+      crossFace: null,
+      crossColor: null,
+      crossEdges: null,
+      f2lPairs: null,
+      ollCase: null,
+      pllCase: null,
+      solvedCubies,
+      totalCubies: cubies.length,
+      misorientedEdges: null
+    };
+  }
+
+  const best = cube.bestFace();
+  let ollCase: string | null = null;
+  let pllCase: string | null = null;
+  if (best.stages.includes('f2l') && !state.solved) {
+    const lastLayer = lastLayerCube(state, best.face);
+    if (best.stages.includes('oll')) {
+      pllCase = identifyPll(lastLayer);
+    } else {
+      ollCase = identifyOll(lastLayer);
+    }
+  }
+
+  return {
+    stages: best.stages,
+    crossFace: best.face,
+    crossColor: cube.faceColor(best.face),
+    crossEdges: best.crossEdges,
+    f2lPairs: best.f2lPairs,
+    ollCase,
+    pllCase,
+    solvedCubies,
+    totalCubies: cubies.length,
+    misorientedEdges: CubieCube.fromState(state).eo.reduce((a, b) => a + b, 0)
+  };
+}
+
+// 스티커를 3D 위치로 모아 조각 단위로 보는 도우미
+class StickerView {
+  private stickers: Sticker[] = [];
+  private reference = new Map<string, string>();   // 법선 -> 그 면의 기준 색
+
+  constructor(private readonly state: CubeState) {
+    for (const face of Object.keys(state.faces) as FaceKey[]) {
+      state.faces[face].forEach((row, r) => row.forEach((color, c) => {
+        this.stickers.push({ ...stickerGeometry(face, r, c, state.size), color });
+      }));
+    }
+
+    const m = state.size - 1;
+    if (state.size % 2 === 1) {
+      for (const { pos, normal, color } of this.stickers) {
+        if (pos.filter(v => v !== 0).length === 1) this.reference.set(String(normal), color);
+      }
+    } else {
+      // DBL 코너의 세 색과 그 반대 색
+      for (const { pos, normal, color } of this.stickers) {
+        if (pos.every(v => v === -m)) {
+          this.reference.set(String(normal), color);
+          this.reference.set(String(normal.map(v => -v)), OPPOSITE_COLORS.get(color) ?? color);
+        }
+      }
+    }
+  }
+
+  faceColor(face: FaceKey): string | null {
+    return this.reference.get(String(stickerGeometry(face, 0, 0, this.state.size).normal)) ?? null;
+  }
+
+  // 바깥에 보이는 조각마다 모든 스티커가 기준 색과 맞는지 (홀수 크기의 고정 센터 제외)
+  cubieStatus(): { pos: Vec3; solved: boolean }[] {
+    const cubies = new Map<string, { pos: Vec3; solved: boolean }>();
+    for (const sticker of this.stickers) {
+      if (sticker.pos.filter(v => v !== 0).length === 1) continue;
+      const key = String(sticker.pos);
+      const cubie = cubies.get(key) ?? { pos: sticker.pos, solved: true };
+      cubie.solved &&= this.inPlace(sticker);
+      cubies.set(key, cubie);
+    }
+    return [...cubies.values()];
+  }
+
+  bestFace(): FaceProgress {
+    const solved = new Map(this.cubieStatus().map(cubie => [String(cubie.pos), cubie.solved]));
+    let best: FaceProgress | undefined;
+    for (const face of CROSS_FACES) {
+      const progress = this.faceProgress(face, solved);
+      if (!best || compareProgress(progress, best) > 0) {
+        best = progress;
+      }
+    }
+    return best!;
+  }
+
+  // 3x3 전용: face를 크로스 면으로 봤을 때의 진행도
+  private faceProgress(face: FaceKey, solved: Map<string, boolean>): FaceProgress {
+    const { normal } = stickerGeometry(face, 1, 1, 3);
+    const side = (pos: Vec3) => pos[0] * normal[0] + pos[1] * normal[1] + pos[2] * normal[2];
+    const isEdge = (pos: Vec3) => pos.filter(v => v !== 0).length === 2;
+    const positions = [...solved.keys()].map(key => key.split(',').map(Number) as Vec3);
+
+    const crossEdges = positions.filter(pos => side(pos) > 0 && isEdge(pos) && solved.get(String(pos))).length;
+    // 슬롯 = 가운데 층 엣지 + 크로스 면 쪽 코너
+    const f2lPairs = positions.filter(pos => side(pos) === 0 && isEdge(pos)).filter(pos => {
+      const corner = pos.map((v, i) => v + 2 * normal[i]);
+      return solved.get(String(pos)) && solved.get(String(corner));
+    }).length;
+
+    const opposite = String(normal.map(v => -v));
+    const checks = [
+      () => crossEdges === 4,
+      () => f2lPairs === 4,
+      () => this.stickers.every(sticker => String(sticker.normal) !== opposite || this.inPlace(sticker)),
+      () => this.state.solved
+    ];
+    const count = checks.findIndex(check => !check());
+    return { face, stages: SOLVE_STAGES.slice(0, count === -1 ? checks.length : count), crossEdges, f2lPairs };
+  }
+
+  private inPlace({ normal, color }: Sticker): boolean {
+    return this.reference.get(String(normal)) === color;
+  }
+}
+
+// 단계 수 > 크로스 엣지 수 > F2L 페어 수 순으로 비교
+function compareProgress(a: FaceProgress, b: FaceProgress): number {
+  return (a.stages.length - b.stages.length) || (a.crossEdges - b.crossEdges) || (a.f2lPairs - b.f2lPairs);
+}
+
+// 크로스 면이 D가 되도록 돌린 뒤의 큐비 상태 (마지막 층 = U층)
+function lastLayerCube(state: CubeState, crossFace: FaceKey): CubieCube {
+  const cube = new RubiksCube(3);
+  cube.setState(state);
+  cube.executeMoves(TO_BOTTOM[crossFace]);
+  return CubieCube.fromState(cube.getState());
+}
+
+// ---- OLL / PLL 케이스 인식 ----
+
+// 표준 알고리즘 - 케이스 상태는 풀린 큐브에 역순으로 적용해 만든다
+const OLL_ALGORITHMS: [number, string, string?][] = [
+  [1, "R U2 R2 F R F' U2 R' F R F'"],
+  [2, "F R U R' U' F' f R U R' U' f'"],
+  [3, "f R U R' U' f' U' F R U R' U' F'"],
+  [4, "f R U R' U' f' U F R U R' U' F'"],
+  [5, "r' U2 R U R' U r"],
+  [6, "r U2 R' U' R U' r'"],
+  [7, "r U R' U R U2 r'"],
+  [8, "l' U' L U' L' U2 l"],
+  [9, "R U R' U' R' F R2 U R' U' F'"],
+  [10, "R U R' U R' F R F' R U2 R'"],
+  [11, "r U R' U R' F R F' R U2 r'"],
+  [12, "M' R' U' R U' R' U2 R U' R r'"],
+  [13, "F U R U' R2 F' R U R U' R'"],
+  [14, "R' F R U R' F' R F U' F'"],
+  [15, "r' U' r R' U' R U r' U r"],
+  [16, "r U r' R U R' U' r U' r'"],
+  [17, "R U R' U R' F R F' U2 R' F R F'"],
+  [18, "r U R' U R U2 r2 U' R U' R' U2 r"],
+  [19, "r' R U R U R' U' M' R' F R F'"],
+  [20, "r U R' U' M2 U R U' R' U' M'"],
+  [21, "R U2 R' U' R U R' U' R U' R'", 'H'],
+  [22, "R U2 R2 U' R2 U' R2 U2 R", 'Pi'],
+  [23, "R2 D' R U2 R' D R U2 R", 'Headlights'],
+  [24, "r U R' U' r' F R F'", 'Chameleon'],
+  [25, "F' r U R' U' r' F R", 'Bowtie'],
+  [26, "R U2 R' U' R U' R'", 'Antisune'],
+  [27, "R U R' U R U2 R'", 'Sune'],
+  [28, "r U R' U' M U R U' R'"],
+  [29, "R U R' U' R U' R' F' U' F R U R'"],
+  [30, "F R' F R2 U' R' U' R U R' F2"],
+  [31, "R' U' F U R U' R' F' R"],
+  [32, "L U F' U' L' U L F L'"],
+  [33, "R U R' U' R' F R F'"],
+  [34, "R U R2 U' R' F R U R U' F'"],
+  [35, "R U2 R2 F R F' R U2 R'"],
+  [36, "L' U' L U' L' U L U L F' L' F"],
+  [37, "F R' F' R U R U' R'"],
+  [38, "R U R' U R U' R' U' R' F R F'"],
+  [39, "L F' L' U' L U F U' L'"],
+  [40, "R' F R U R' U' F' U R"],
+  [41, "R U R' U R U2 R' F R U R' U' F'"],
+  [42, "R' U' R U' R' U2 R F R U R' U' F'"],
+  [43, "f' L' U' L U f"],
+  [44, "f R U R' U' f'"],
+  [45, "F R U R' U' F'"],
+  [46, "R' U' R' F R F' U R"],
+  [47, "R' U' R' F R F' R' F R F' U R"],
+  [48, "F R U R' U' R U R' U' F'"],
+  [49, "r U' r2 U r2 U r2 U' r"],
+  [50, "r' U r2 U' r2 U' r2 U r'"],
+  [51, "f R U R' U' R U R' U' f'"],
+  [52, "R U R' U R U' B U' B' R'"],
+  [53, "l' U2 L U L' U' L U L' U l"],
+  [54, "r U2 R' U' R U R' U' R U' r'"],
+  [55, "R' F R U R U' R2 F' R2 U' R' U R U R'"],
+  [56, "r' U' r U' R' U R U' R' U R r' U r"],
+  [57, "R U R' U' M' U R U' r'"]
+];
+
+const PLL_ALGORITHMS: [string, string][] = [
+  ['Aa', "x R' U R' D2 R U' R' D2 R2 x'"],
+  ['Ab', "x R2 D2 R U R' D2 R U' R x'"],
+  ['E', "x' R U' R' D R U R' D' R U R' D R U' R' D' x"],
+  ['F', "R' U' F' R U R' U' R' F R2 U' R' U' R U R' U R"],
+  ['Ga', "R2 U R' U R' U' R U' R2 U' D R' U R D'"],
+  ['Gb', "R' U' R U D' R2 U R' U R U' R U' R2 D"],
+  ['Gc', "R2 U' R U' R U R' U R2 U D' R U' R' D"],
+  ['Gd', "R U R' U' D R2 U' R U' R' U R' U R2 D'"],
+  ['H', "M2 U M2 U2 M2 U M2"],
+  ['Ja', "L' U' L F L' U' L U L F' L2 U L"],
+  ['Jb', "R U R' F' R U R' U' R' F R2 U' R'"],
+  ['Na', "R U R' U R U R' F' R U R' U' R' F R2 U' R' U2 R U' R'"],
+  ['Nb', "R' U R U' R' F' U' F R U R' F R' F' R U' R"],
+  ['Ra', "R U' R' U' R U R D R' U' R D' R' U2 R'"],
+  ['Rb', "R2 F R U R U' R' F' R U2 R' U2 R"],
+  ['T', "R U R' U' R' F R2 U' R' U' R U R' F'"],
+  ['Ua', "R U' R U R U R U' R' U' R2"],
+  ['Ub', "R2 U R U R' U' R' U' R' U R'"],
+  ['V', "R' U R' U' y R' F' R2 U' R' U R' F R F"],
+  ['Y', "F R U' R' U' R U R' F' R U R' U' R' F R F'"],
+  ['Z', "M' U M2 U M2 U M' U2 M2"]
+];
+
+const U_TURNS = [new CubieCube(), MOVE_CUBES[0], MOVE_CUBES[1], MOVE_CUBES[2]];
+
+// 윗면 조각의 방향 패턴 - 앞뒤 AUF에 무관하도록 U 회전 4가지 중 가장 작은 값
+function ollKey(cube: CubieCube): string {
+  return U_TURNS.map(turn => {
+    const turned = cube.clone();
+    turned.multiply(turn);
+    return `${turned.co.slice(0, 4).join('')}${turned.eo.slice(0, 4).join('')}`;
+  }).sort()[0];
+}
+
+// 윗면 조각의 순열 패턴 - 앞뒤 AUF 16가지 중 가장 작은 값
+function pllKey(cube: CubieCube): string {
+  const keys: string[] = [];
+  for (const before of U_TURNS) {
+    for (const after of U_TURNS) {
+      const turned = before.clone();
+      turned.multiply(cube);
+      turned.multiply(after);
+      keys.push(`${turned.cp.slice(0, 4).join('')}${turned.ep.slice(0, 4).join('')}`);
+    }
+  }
+  return keys.sort()[0];
+}
+
+let caseTables: { oll: Map<string, string>; pll: Map<string, string> } | undefined;
+
+// 케이스 표는 처음 쓸 때 한 번 만든다
+function getCaseTables(): { oll: Map<string, string>; pll: Map<string, string> } {
+  if (!caseTables) {
+    const caseCube = (algorithm: string) => {
+      const cube = new RubiksCube(3);
+      cube.executeMoves(invertMoves(parseAlgorithm(algorithm)));
+      const state = cube.getState();
+      return lastLayerCube(state, new StickerView(state).bestFace().face);
+    };
+    caseTables = {
+      oll: new Map(OLL_ALGORITHMS.map(([number, algorithm, name]) =>
+        [ollKey(caseCube(algorithm)), name ? `OLL ${number} (${name})` : `OLL ${number}`])),
+      pll: new Map(PLL_ALGORITHMS.map(([name, algorithm]) => [pllKey(caseCube(algorithm)), `${name}-perm`]))
+    };
+  }
+  return caseTables;
+}
+
+function identifyOll(cube: CubieCube): string | null {
+  return getCaseTables().oll.get(ollKey(cube)) ?? null;
+}
+
+// 윗면만 돌리면 끝나는 상태는 'AUF'
+function identifyPll(cube: CubieCube): string | null {
+  const key = pllKey(cube);
+  return key === pllKey(new CubieCube()) ? 'AUF' : getCaseTables().pll.get(key) ?? null;
+}
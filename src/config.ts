@@ -0,0 +1,199 @@
+import fs from 'fs';
+import path from 'path';
+
+export const MCP_TRANSPORTS = ['stdio', 'http', 'both'] as const;
+export type McpTransportMode = typeof MCP_TRANSPORTS[number];
+
+export interface ServerConfig {
+  host?: string;              // 바인드 주소 (기본값: 모든 인터페이스)
+  port: number;               // 시각화/HTTP MCP 포트
+  autoPort: boolean;          // 포트가 사용 중이면 다음 포트로 재시도
+  publicUrl?: string;         // 게임 링크에 쓸 외부 주소 (리버스 프록시, 컨테이너 등)
+  transport: McpTransportMode;
+  sessionTtlMinutes: number;  // 이 시간 동안 활동이 없는 게임 삭제 (0 = 만료 없음)
+  maxSessions: number;        // 동시에 보관하는 게임 수 상한 (0 = 제한 없음)
+  corsOrigins: string[];      // REST/WebSocket을 브라우저에서 호출할 수 있는 출처 ('*' = 모두, 'null' = 샌드박스 iframe)
+}
+
+const DEFAULT_CONFIG: ServerConfig = {
+  port: 3000,
+  autoPort: true,
+  transport: 'stdio',
+  sessionTtlMinutes: 0,
+  maxSessions: 0,
+  corsOrigins: ['*']
+};
+
+const CONFIG_KEYS = ['host', 'port', 'autoPort', 'publicUrl', 'transport', 'sessionTtlMinutes', 'maxSessions', 'corsOrigins'];
+const DEFAULT_CONFIG_FILE = 'rubiks-cube.config.json';
+
+// CLI 옵션 -> 설정 키 (--auto-port, --no-auto-port 는 값 없이도 사용 가능)
+const CLI_OPTIONS: Record<string, keyof ServerConfig | 'config'> = {
+  '--host': 'host',
+  '--port': 'port',
+  '--auto-port': 'autoPort',
+  '--public-url': 'publicUrl',
+  '--transport': 'transport',
+  '--session-ttl-minutes': 'sessionTtlMinutes',
+  '--max-sessions': 'maxSessions',
+  '--cors-origins': 'corsOrigins',
+  '--config': 'config'
+};
+
+const ENV_VARS: Record<string, keyof ServerConfig> = {
+  BIND_HOST: 'host',
+  PORT: 'port',
+  AUTO_PORT: 'autoPort',
+  PUBLIC_URL: 'publicUrl',
+  MCP_TRANSPORT: 'transport',
+  SESSION_TTL_MINUTES: 'sessionTtlMinutes',
+  MAX_SESSIONS: 'maxSessions',
+  CORS_ORIGINS: 'corsOrigins'
+};
+
+type RawConfig = Partial<Record<keyof ServerConfig, unknown>>;
+
+/**
+ * 서버 설정 읽기. 우선순위: CLI 옵션 > 환경변수 > 설정 파일 > 기본값.
+ * 설정 파일은 --config 또는 RUBIKS_CUBE_CONFIG로 지정하며, 없으면 현재 디렉토리의
+ * rubiks-cube.config.json을 (있을 때만) 읽는다. 잘못된 값이면 예외.
+ */
+export function loadConfig(args: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const { options: cli, configPath } = parseArgs(args);
+
+  const fromEnv: RawConfig = {};
+  for (const [name, key] of Object.entries(ENV_VARS)) {
+    if (env[name] !== undefined && env[name] !== '') {
+      fromEnv[key] = env[name];
+    }
+  }
+
+  const fromFile = readConfigFile(configPath ?? env.RUBIKS_CUBE_CONFIG);
+  return normalize({ ...DEFAULT_CONFIG, ...fromFile, ...fromEnv, ...cli });
+}
+
+// 브라우저 요청의 Origin 허용 여부 (Origin이 없으면 브라우저 밖의 요청이라 허용)
+export function isAllowedOrigin(origins: string[], origin: string | undefined): boolean {
+  return !origin || origins.includes('*') || origins.includes(origin);
+}
+
+// 게임 링크 등에 쓰는 기본 주소 - publicUrl이 없으면 실제로 열린 포트 기준
+export function resolveBaseUrl(config: Pick<ServerConfig, 'host' | 'publicUrl'>, port: number): string {
+  if (config.publicUrl) {
+    return config.publicUrl;
+  }
+  const host = !config.host || config.host === '0.0.0.0' || config.host === '::' ? 'localhost' : config.host;
+  return `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+}
+
+function parseArgs(args: string[]): { options: RawConfig; configPath?: string } {
+  const options: RawConfig = {};
+  let configPath: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--auto-port' || arg === '--no-auto-port') {
+      options.autoPort = arg === '--auto-port';
+      continue;
+    }
+
+    const [flag, inlineValue] = arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    const key = CLI_OPTIONS[flag];
+    if (!key) {
+      throw new Error(`Unknown option ${flag} (expected one of ${[...Object.keys(CLI_OPTIONS), '--no-auto-port'].join(', ')})`);
+    }
+
+    const value = inlineValue ?? args[++i];
+    if (value === undefined) {
+      throw new Error(`Option ${flag} requires a value`);
+    }
+
+    if (key === 'config') {
+      configPath = value;
+    } else {
+      options[key] = value;
+    }
+  }
+
+  return { options, configPath };
+}
+
+function readConfigFile(location: string | undefined): RawConfig {
+  const file = path.resolve(location ?? DEFAULT_CONFIG_FILE);
+  if (!location && !fs.existsSync(file)) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read config file ${file}: ${(error as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${file} must contain a JSON object`);
+  }
+
+  const unknown = Object.keys(parsed).filter(key => !CONFIG_KEYS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown setting ${unknown.join(', ')} in ${file} (expected ${CONFIG_KEYS.join(', ')})`);
+  }
+  return parsed as RawConfig;
+}
+
+// 문자열/JSON 값을 검사해 ServerConfig로 변환
+function normalize(raw: RawConfig): ServerConfig {
+  const port = Number(raw.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${raw.port}" (expected an integer between 0 and 65535)`);
+  }
+
+  let autoPort = raw.autoPort;
+  if (typeof autoPort === 'string') {
+    autoPort = ['true', '1', 'yes'].includes(autoPort.toLowerCase()) ? true
+      : ['false', '0', 'no'].includes(autoPort.toLowerCase()) ? false : autoPort;
+  }
+  if (typeof autoPort !== 'boolean') {
+    throw new Error(`Invalid autoPort "${raw.autoPort}" (expected true or false)`);
+  }
+
+  const transport = raw.transport as McpTransportMode;
+  if (!MCP_TRANSPORTS.includes(transport)) {
+    throw new Error(`Unknown MCP transport "${raw.transport}" (expected ${MCP_TRANSPORTS.join(', ')})`);
+  }
+
+  let publicUrl: string | undefined;
+  if (raw.publicUrl !== undefined) {
+    try {
+      publicUrl = new URL(String(raw.publicUrl)).toString().replace(/\/+$/, '');
+    } catch {
+      throw new Error(`Invalid public URL "${raw.publicUrl}"`);
+    }
+  }
+
+  const sessionTtlMinutes = Number(raw.sessionTtlMinutes);
+  if (!Number.isFinite(sessionTtlMinutes) || sessionTtlMinutes < 0) {
+    throw new Error(`Invalid sessionTtlMinutes "${raw.sessionTtlMinutes}" (expected a number of minutes, 0 to keep games forever)`);
+  }
+
+  const maxSessions = Number(raw.maxSessions);
+  if (!Number.isInteger(maxSessions) || maxSessions < 0) {
+    throw new Error(`Invalid maxSessions "${raw.maxSessions}" (expected a non-negative integer, 0 for no limit)`);
+  }
+
+  // 설정 파일은 배열, CLI/환경변수는 쉼표로 구분한 목록
+  const origins = Array.isArray(raw.corsOrigins) ? raw.corsOrigins.map(String) : String(raw.corsOrigins).split(',');
+  const corsOrigins = origins.map(origin => origin.trim()).filter(origin => origin !== '').map(origin => {
+    if (origin === '*' || origin === 'null') {   // null = 샌드박스 iframe (MCP UI 등), file://
+      return origin;
+    }
+    try {
+      return new URL(origin).origin;
+    } catch {
+      throw new Error(`Invalid CORS origin "${origin}" (expected * or an origin such as https://app.example.com)`);
+    }
+  });
+
+  const host = raw.host === undefined ? undefined : String(raw.host);
+  return { host, port, autoPort, publicUrl, transport, sessionTtlMinutes, maxSessions, corsOrigins };
+}
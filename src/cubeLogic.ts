@@ -1,273 +1,268 @@
-import { CubeState, CubeMove, COLORS } from './types.js';
+import { CubeState, CubeMove, AlgorithmStep, MIN_CUBE_SIZE, MAX_CUBE_SIZE } from './types.js';
+import { faceletsToState } from './facelets.js';
+import { StickerModel, getMoveTable } from './model/StickerModel.js';
+import { CubieModel } from './model/CubieModel.js';
 
-export class RubiksCube {
-  private state: CubeState;
+// 한 번의 시계방향 90도 회전이 움직이는 층 (시각화 애니메이션에도 사용)
+export interface LayerTurn {
+  axis: 'x' | 'y' | 'z';
+  layers: number[];     // 0 = L/D/B 쪽 바깥 층, size - 1 = R/U/F 쪽 바깥 층
+  direction: 1 | -1;    // 축 기준 회전 방향(오른손 법칙)
+}
 
-  constructor() {
-    this.state = this.createSolvedCube();
-  }
+// RubiksCube의 내부 표현 - 3x3은 CubieModel, 나머지 크기는 StickerModel
+export interface CubeModel {
+  readonly size: number;
+  clone(): CubeModel;
+  apply(table: Uint16Array): void;   // getMoveTable의 스티커 순열 표
+  isSolved(): boolean;
+  toFaces(): CubeState['faces'];
+  toFacelets(): string;
+}
 
-  // 해결된 큐브 상태 생성
-  private createSolvedCube(): CubeState {
-    const { WHITE, YELLOW, RED, ORANGE, BLUE, GREEN } = COLORS;
-    
-    return {
-      faces: {
-        front: [
-          [GREEN, GREEN, GREEN],
-          [GREEN, GREEN, GREEN],
-          [GREEN, GREEN, GREEN]
-        ],
-        back: [
-          [BLUE, BLUE, BLUE],
-          [BLUE, BLUE, BLUE],
-          [BLUE, BLUE, BLUE]
-        ],
-        left: [
-          [ORANGE, ORANGE, ORANGE],
-          [ORANGE, ORANGE, ORANGE],
-          [ORANGE, ORANGE, ORANGE]
-        ],
-        right: [
-          [RED, RED, RED],
-          [RED, RED, RED],
-          [RED, RED, RED]
-        ],
-        top: [
-          [WHITE, WHITE, WHITE],
-          [WHITE, WHITE, WHITE],
-          [WHITE, WHITE, WHITE]
-        ],
-        bottom: [
-          [YELLOW, YELLOW, YELLOW],
-          [YELLOW, YELLOW, YELLOW],
-          [YELLOW, YELLOW, YELLOW]
-        ]
-      },
-      solved: true,
-      moveHistory: []
-    };
+const AXES = ['x', 'y', 'z'] as const;
+
+// 바깥 면: 회전축과 위치(+1 = R/U/F, -1 = L/D/B)
+const FACE_AXES: Record<string, { axis: 0 | 1 | 2; side: 1 | -1 }> = {
+  R: { axis: 0, side: 1 },
+  L: { axis: 0, side: -1 },
+  U: { axis: 1, side: 1 },
+  D: { axis: 1, side: -1 },
+  F: { axis: 2, side: 1 },
+  B: { axis: 2, side: -1 }
+};
+
+// 슬라이스(안쪽 층 전체)는 각각 L, D, F 방향으로 회전
+const SLICE_AXES: Record<string, { axis: 0 | 1 | 2; direction: 1 | -1 }> = {
+  M: { axis: 0, direction: 1 },
+  E: { axis: 1, direction: 1 },
+  S: { axis: 2, direction: -1 }
+};
+
+// 큐브 회전 x, y, z는 각각 R, U, F 방향
+const ROTATION_AXES: Record<string, 0 | 1 | 2> = { x: 0, y: 1, z: 2 };
+
+// 회전 표기 해석: R, 2R(두 번째 층), Rw/r(바깥 2개 층), 3Rw(바깥 3개 층), M/E/S, x/y/z
+export function parseMove(move: string, size: number): { turn: LayerTurn; times: number } | null {
+  const match = /^(?:(\d*)([UDLRFB])(w?)|([udlrfb])|([MES])|([xyz]))(['2]?)$/.exec(move);
+  if (!match) return null;
+
+  const [, prefix, face, wide, lowerWide, slice, rotation, suffix] = match;
+  const times = suffix === '2' ? 2 : suffix === '\'' ? 3 : 1;
+  const all = Array.from({ length: size }, (_, i) => i);
+
+  if (face) {
+    const { axis, side } = FACE_AXES[face];
+    const depth = prefix ? parseInt(prefix) : wide ? 2 : 1;
+    if (depth < 1 || depth > size || (!wide && depth === size)) return null;
+
+    const depths = wide ? all.slice(0, depth) : [depth - 1];
+    const layers = depths.map(d => side > 0 ? size - 1 - d : d).sort((a, b) => a - b);
+    return { turn: { axis: AXES[axis], layers, direction: side > 0 ? -1 : 1 }, times };
   }
 
-  // 큐브 상태 반환
-  getState(): CubeState {
-    return JSON.parse(JSON.stringify(this.state)); // Deep copy
+  if (lowerWide) {
+    return parseMove(`${lowerWide.toUpperCase()}w${suffix}`, size);
   }
 
-  // 큐브 상태 설정
-  setState(newState: CubeState): void {
-    this.state = JSON.parse(JSON.stringify(newState)); // Deep copy
+  if (slice) {
+    if (size < 3) return null;
+    const { axis, direction } = SLICE_AXES[slice];
+    return { turn: { axis: AXES[axis], layers: all.slice(1, -1), direction }, times };
   }
 
-  // 큐브가 해결되었는지 확인 (public으로 변경)
-  isSolved(): boolean {
-    for (const face of Object.values(this.state.faces)) {
-      const firstColor = face[0][0];
-      for (let i = 0; i < 3; i++) {
-        for (let j = 0; j < 3; j++) {
-          if (face[i][j] !== firstColor) {
-            return false;
-          }
-        }
-      }
-    }
-    return true;
+  return { turn: { axis: AXES[ROTATION_AXES[rotation]], layers: all, direction: -1 }, times };
+}
+
+export function isValidMove(move: string, size: number = 3): move is CubeMove {
+  return parseMove(move, size) !== null;
+}
+
+// 해당 크기에서 사용할 수 있는 기본 회전 이름 (접미사 ', 2 제외)
+export function getMoveBases(size: number): string[] {
+  const bases: string[] = ['U', 'D', 'L', 'R', 'F', 'B'];
+  if (size >= 3) bases.push('M', 'E', 'S');
+  bases.push('x', 'y', 'z');
+  for (const face of ['U', 'D', 'L', 'R', 'F', 'B']) {
+    bases.push(`${face}w`);
+    for (let depth = 3; depth < size; depth++) bases.push(`${depth}${face}w`);
   }
+  for (let depth = 2; depth < size; depth++) {
+    for (const face of ['U', 'D', 'L', 'R', 'F', 'B']) bases.push(`${depth}${face}`);
+  }
+  return bases;
+}
 
-  // 큐브가 해결되었는지 확인 (private - 내부용)
-  private checkSolved(): boolean {
-    return this.isSolved();
+// 기본 회전별 층 정보 (시각화 클라이언트 전달용)
+export function getMoveDefinitions(size: number): Record<string, LayerTurn> {
+  const definitions: Record<string, LayerTurn> = {};
+  for (const base of getMoveBases(size)) {
+    definitions[base] = parseMove(base, size)!.turn;
   }
+  return definitions;
+}
 
-  // 면을 시계방향으로 90도 회전
-  private rotateFace(face: string[][]): string[][] {
-    const n = face.length;
-    const rotated = Array(n).fill(null).map(() => Array(n).fill(''));
-    
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        rotated[j][n - 1 - i] = face[i][j];
-      }
-    }
-    
-    return rotated;
+// 회전 표기 -> 순열 표 (크기별 캐시, 잘못된 표기는 null)
+const moveTables = new Map<string, Uint16Array | null>();
+
+function lookupMoveTable(move: string, size: number): Uint16Array | null {
+  const key = `${size}:${move}`;
+  let table = moveTables.get(key);
+  if (table === undefined) {
+    const parsed = parseMove(move, size);
+    table = parsed ? getMoveTable(size, parsed.turn, parsed.times) : null;
+    moveTables.set(key, table);
   }
+  return table;
+}
+
+export class RubiksCube {
+  private model: CubeModel;
+  private moveHistory: string[] = [];
 
-  // 면을 반시계방향으로 90도 회전
-  private rotateFaceCounterClockwise(face: string[][]): string[][] {
-    return this.rotateFace(this.rotateFace(this.rotateFace(face)));
+  constructor(size: number = 3) {
+    if (!Number.isInteger(size) || size < MIN_CUBE_SIZE || size > MAX_CUBE_SIZE) {
+      throw new Error(`Cube size must be an integer between ${MIN_CUBE_SIZE} and ${MAX_CUBE_SIZE}`);
+    }
+    this.model = size === 3 ? new CubieModel() : new StickerModel(size);
   }
 
-  // U (Up) 회전 구현
-  private moveU(): void {
-    // Top face 시계방향 회전
-    this.state.faces.top = this.rotateFace(this.state.faces.top);
-    
-    // 인접 면들의 상단 행 회전
-    const temp = [...this.state.faces.front[0]];
-    this.state.faces.front[0] = [...this.state.faces.right[0]];
-    this.state.faces.right[0] = [...this.state.faces.back[0]];
-    this.state.faces.back[0] = [...this.state.faces.left[0]];
-    this.state.faces.left[0] = [...temp];
+  // URFDLB facelet 문자열(3x3이면 54자)로 큐브 생성 - 도달 가능 여부는 검사하지 않음 (validation.ts 참고)
+  // 3x3은 조각이 될 수 없는 색 조합이면 예외
+  static fromFacelets(facelets: string): RubiksCube {
+    const state = faceletsToState(facelets);
+    const cube = new RubiksCube(state.size);
+    cube.setState(state);
+    return cube;
   }
 
-  // D (Down) 회전 구현
-  private moveD(): void {
-    // Bottom face 시계방향 회전
-    this.state.faces.bottom = this.rotateFace(this.state.faces.bottom);
-    
-    // 인접 면들의 하단 행 회전 (반대 방향)
-    const temp = [...this.state.faces.front[2]];
-    this.state.faces.front[2] = [...this.state.faces.left[2]];
-    this.state.faces.left[2] = [...this.state.faces.back[2]];
-    this.state.faces.back[2] = [...this.state.faces.right[2]];
-    this.state.faces.right[2] = [...temp];
+  // 현재 상태의 URFDLB facelet 문자열
+  toFacelets(): string {
+    return this.model.toFacelets();
   }
 
-  // R (Right) 회전 구현
-  private moveR(): void {
-    // Right face 시계방향 회전
-    this.state.faces.right = this.rotateFace(this.state.faces.right);
-    
-    // 인접 면들의 우측 열 회전
-    const temp = [this.state.faces.front[0][2], this.state.faces.front[1][2], this.state.faces.front[2][2]];
-    this.state.faces.front[0][2] = this.state.faces.bottom[0][2];
-    this.state.faces.front[1][2] = this.state.faces.bottom[1][2];
-    this.state.faces.front[2][2] = this.state.faces.bottom[2][2];
-    
-    this.state.faces.bottom[0][2] = this.state.faces.back[2][0];
-    this.state.faces.bottom[1][2] = this.state.faces.back[1][0];
-    this.state.faces.bottom[2][2] = this.state.faces.back[0][0];
-    
-    this.state.faces.back[0][0] = this.state.faces.top[2][2];
-    this.state.faces.back[1][0] = this.state.faces.top[1][2];
-    this.state.faces.back[2][0] = this.state.faces.top[0][2];
-    
-    this.state.faces.top[0][2] = temp[0];
-    this.state.faces.top[1][2] = temp[1];
-    this.state.faces.top[2][2] = temp[2];
+  // 큐브 크기 (N x N x N)
+  getSize(): number {
+    return this.model.size;
   }
 
-  // L (Left) 회전 구현
-  private moveL(): void {
-    // Left face 시계방향 회전
-    this.state.faces.left = this.rotateFace(this.state.faces.left);
-    
-    // 인접 면들의 좌측 열 회전
-    const temp = [this.state.faces.front[0][0], this.state.faces.front[1][0], this.state.faces.front[2][0]];
-    this.state.faces.front[0][0] = this.state.faces.top[0][0];
-    this.state.faces.front[1][0] = this.state.faces.top[1][0];
-    this.state.faces.front[2][0] = this.state.faces.top[2][0];
-    
-    this.state.faces.top[0][0] = this.state.faces.back[2][2];
-    this.state.faces.top[1][0] = this.state.faces.back[1][2];
-    this.state.faces.top[2][0] = this.state.faces.back[0][2];
-    
-    this.state.faces.back[0][2] = this.state.faces.bottom[2][0];
-    this.state.faces.back[1][2] = this.state.faces.bottom[1][0];
-    this.state.faces.back[2][2] = this.state.faces.bottom[0][0];
-    
-    this.state.faces.bottom[0][0] = temp[0];
-    this.state.faces.bottom[1][0] = temp[1];
-    this.state.faces.bottom[2][0] = temp[2];
+  // 큐브 상태 반환 - 내부 표현에서 새로 만든 복사본
+  getState(): CubeState {
+    return {
+      size: this.model.size,
+      faces: this.model.toFaces(),
+      solved: this.model.isSolved(),
+      moveHistory: [...this.moveHistory]
+    };
   }
 
-  // F (Front) 회전 구현
-  private moveF(): void {
-    // Front face 시계방향 회전
-    this.state.faces.front = this.rotateFace(this.state.faces.front);
-    
-    // 인접 면들 회전
-    const temp = [...this.state.faces.top[2]];
-    this.state.faces.top[2] = [this.state.faces.left[2][2], this.state.faces.left[1][2], this.state.faces.left[0][2]];
-    this.state.faces.left[0][2] = this.state.faces.bottom[0][0];
-    this.state.faces.left[1][2] = this.state.faces.bottom[0][1];
-    this.state.faces.left[2][2] = this.state.faces.bottom[0][2];
-    this.state.faces.bottom[0] = [this.state.faces.right[2][0], this.state.faces.right[1][0], this.state.faces.right[0][0]];
-    this.state.faces.right[0][0] = temp[0];
-    this.state.faces.right[1][0] = temp[1];
-    this.state.faces.right[2][0] = temp[2];
+  // 큐브 상태 설정 - 알 수 없는 스티커 색이면 예외 (3x3은 조각이 될 수 없는 색 조합도 예외)
+  setState(newState: CubeState): void {
+    const { faces } = newState;
+    this.model = faces.front.length === 3 ? CubieModel.fromFaces(faces) : StickerModel.fromFaces(faces);
+    this.moveHistory = [...newState.moveHistory];
   }
 
-  // B (Back) 회전 구현
-  private moveB(): void {
-    // Back face 시계방향 회전
-    this.state.faces.back = this.rotateFace(this.state.faces.back);
-    
-    // 인접 면들 회전
-    const temp = [...this.state.faces.top[0]];
-    this.state.faces.top[0] = [this.state.faces.right[0][2], this.state.faces.right[1][2], this.state.faces.right[2][2]];
-    this.state.faces.right[0][2] = this.state.faces.bottom[2][2];
-    this.state.faces.right[1][2] = this.state.faces.bottom[2][1];
-    this.state.faces.right[2][2] = this.state.faces.bottom[2][0];
-    this.state.faces.bottom[2] = [this.state.faces.left[2][0], this.state.faces.left[1][0], this.state.faces.left[0][0]];
-    this.state.faces.left[0][0] = temp[2];
-    this.state.faces.left[1][0] = temp[1];
-    this.state.faces.left[2][0] = temp[0];
+  // 큐브가 해결되었는지 확인
+  isSolved(): boolean {
+    return this.model.isSolved();
   }
 
   // 움직임 실행
   executeMove(move: CubeMove): void {
-    const moveFunc = this.getMoveFunction(move);
-    moveFunc();
-    
-    this.state.moveHistory.push(move);
-    this.state.solved = this.checkSolved();
+    const table = lookupMoveTable(move, this.model.size);
+    if (!table) {
+      throw new Error(`Unknown move for ${this.model.size}x${this.model.size} cube: ${move}`);
+    }
+
+    this.model.apply(table);
+    this.moveHistory.push(move);
   }
 
-  // 움직임에 따른 함수 반환
-  private getMoveFunction(move: CubeMove): () => void {
-    switch (move) {
-      case 'U': return () => this.moveU();
-      case 'U\'': return () => { this.moveU(); this.moveU(); this.moveU(); };
-      case 'U2': return () => { this.moveU(); this.moveU(); };
-      case 'D': return () => this.moveD();
-      case 'D\'': return () => { this.moveD(); this.moveD(); this.moveD(); };
-      case 'D2': return () => { this.moveD(); this.moveD(); };
-      case 'R': return () => this.moveR();
-      case 'R\'': return () => { this.moveR(); this.moveR(); this.moveR(); };
-      case 'R2': return () => { this.moveR(); this.moveR(); };
-      case 'L': return () => this.moveL();
-      case 'L\'': return () => { this.moveL(); this.moveL(); this.moveL(); };
-      case 'L2': return () => { this.moveL(); this.moveL(); };
-      case 'F': return () => this.moveF();
-      case 'F\'': return () => { this.moveF(); this.moveF(); this.moveF(); };
-      case 'F2': return () => { this.moveF(); this.moveF(); };
-      case 'B': return () => this.moveB();
-      case 'B\'': return () => { this.moveB(); this.moveB(); this.moveB(); };
-      case 'B2': return () => { this.moveB(); this.moveB(); };
-      default: throw new Error(`Unknown move: ${move}`);
+  // 여러 움직임을 순서대로 실행 - 도중에 실패하면 실행 전 상태로 되돌림
+  executeMoves(moves: CubeMove[], recordSteps: boolean = false): AlgorithmStep[] {
+    const backup = this.model.clone();
+    const historyLength = this.moveHistory.length;
+    const steps: AlgorithmStep[] = [];
+
+    try {
+      moves.forEach((move, index) => {
+        this.executeMove(move);
+        if (recordSteps) {
+          steps.push({
+            index,
+            move,
+            faces: this.model.toFaces(),
+            solved: this.model.isSolved()
+          });
+        }
+      });
+    } catch (error) {
+      this.model = backup;
+      this.moveHistory.length = historyLength;
+      throw error;
     }
+
+    return steps;
   }
 
   // 큐브 상태를 텍스트로 표현
   getStateAsText(): string {
-    const { faces } = this.state;
+    const { faces, size } = this.getState();
+    const indent = ' '.repeat(2 * size - 2);
     let result = '';
-    
-    result += '    ' + faces.top.map(row => row.join(' ')).join('\n    ') + '\n';
+
+    result += indent + faces.top.map(row => row.join(' ')).join('\n' + indent) + '\n';
     result += '\n';
-    
-    for (let i = 0; i < 3; i++) {
+
+    for (let i = 0; i < size; i++) {
       result += faces.left[i].join(' ') + ' | ';
       result += faces.front[i].join(' ') + ' | ';
       result += faces.right[i].join(' ') + ' | ';
       result += faces.back[i].join(' ') + '\n';
     }
-    
+
     result += '\n';
-    result += '    ' + faces.bottom.map(row => row.join(' ')).join('\n    ') + '\n';
-    
+    result += indent + faces.bottom.map(row => row.join(' ')).join('\n' + indent) + '\n';
+
     return result;
   }
 
-  // 큐브 섞기 (테스트용)
-  scramble(moves: number = 20): void {
-    const allMoves: CubeMove[] = ['U', 'D', 'L', 'R', 'F', 'B', 'U\'', 'D\'', 'L\'', 'R\'', 'F\'', 'B\''];
-    
-    for (let i = 0; i < moves; i++) {
-      const randomMove = allMoves[Math.floor(Math.random() * allMoves.length)];
-      this.executeMove(randomMove);
+  /**
+   * 큐브 섞기 - 실행한 섞기 순서를 반환한다. R R'처럼 같은 층을 연달아 돌리거나
+   * R L R처럼 같은 축의 교환 가능한 회전 사이에서 같은 층을 다시 돌리는 중복은 만들지 않는다.
+   * 4x4 이상은 wide 회전도 섞음.
+   */
+  scramble(moves: number = 20, random: () => number = Math.random): CubeMove[] {
+    const size = this.model.size;
+    const bases = ['U', 'D', 'L', 'R', 'F', 'B'];
+    for (let depth = 2; depth <= Math.floor(size / 2) && size >= 4; depth++) {
+      for (const face of ['U', 'D', 'L', 'R', 'F', 'B']) {
+        bases.push(depth === 2 ? `${face}w` : `${depth}${face}w`);
+      }
     }
+    const turns = bases.map(base => ({ base, turn: parseMove(base, size)!.turn }));
+
+    const sequence: CubeMove[] = [];
+    let axis: LayerTurn['axis'] | null = null;
+    let usedLayers: string[] = [];   // 현재 같은 축 구간에서 이미 돌린 층 조합
+
+    while (sequence.length < moves) {
+      const { base, turn } = turns[Math.floor(random() * turns.length)];
+      const layers = turn.layers.join(',');
+      if (turn.axis === axis && usedLayers.includes(layers)) continue;
+
+      if (turn.axis !== axis) {
+        axis = turn.axis;
+        usedLayers = [];
+      }
+      usedLayers.push(layers);
+
+      const suffix = ['', '\'', '2'][Math.floor(random() * 3)];
+      sequence.push(`${base}${suffix}` as CubeMove);
+    }
+
+    this.executeMoves(sequence);
+    return sequence;
   }
 }
@@ -0,0 +1,139 @@
+import { CubeMove, GameSession, Reconstruction } from './types.js';
+import { RubiksCube } from './cubeLogic.js';
+import { invertMoves } from './notation.js';
+import { stateToFacelets } from './facelets.js';
+import { solveCube } from './solver/TwoPhaseSolver.js';
+
+export const EXPORT_FORMATS = ['facelets', 'state', 'reconstruction', 'text', 'cstimer'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * 세션을 지정한 형식으로 내보낸다.
+ *   facelets        현재 상태의 URFDLB facelet 문자열
+ *   state           현재 CubeState JSON
+ *   reconstruction  섞기 + 타임스탬프가 붙은 해법 JSON
+ *   text            사람이 읽는 풀이 기록 (회전마다 경과 시간 주석)
+ *   cstimer         csTimer에서 가져올 수 있는 세션 JSON
+ */
+export function exportSession(session: GameSession, format: ExportFormat): { contentType: string; body: string } {
+  switch (format) {
+    case 'facelets':
+      return { contentType: 'text/plain', body: stateToFacelets(session.cubeState) };
+    case 'state':
+      return { contentType: 'application/json', body: JSON.stringify(session.cubeState, null, 2) };
+    case 'reconstruction':
+      return { contentType: 'application/json', body: JSON.stringify(buildReconstruction(session), null, 2) };
+    case 'text':
+      return { contentType: 'text/plain', body: formatReconstruction(buildReconstruction(session)) };
+    case 'cstimer':
+      return { contentType: 'application/json', body: JSON.stringify(toCsTimer(buildReconstruction(session))) };
+  }
+}
+
+// 히스토리의 현재 갈래(cursor까지)를 해법으로 보고 풀이 기록 생성
+export function buildReconstruction(session: GameSession): Reconstruction {
+  const history = session.history;
+  const initialState = history?.initialState ?? session.cubeState;
+  const moves = history ? history.moves.slice(0, history.cursor) : [];
+  const timestamps = history?.timestamps?.slice(0, history.cursor) ?? [];
+
+  const startedAt = timestamps.length > 0 ? timestamps[0] : null;
+  const solution = moves.map((move, i) => ({
+    move,
+    timeMs: startedAt !== null && timestamps[i] !== undefined ? timestamps[i] - startedAt : 0
+  }));
+  const setup = findSetupMoves(session);
+  const scramble = setup ? setup.join(' ') : null;
+
+  return {
+    gameId: session.id,
+    size: initialState.size,
+    scramble,
+    scrambleSeed: session.scramble?.seed,
+    initialFacelets: stateToFacelets(initialState),
+    solution,
+    moveCount: moves.length,
+    startedAt,
+    durationMs: solution.length > 0 ? solution[solution.length - 1].timeMs : 0,
+    solved: session.cubeState.solved,
+    url: algCubingUrl(initialState.size, scramble ?? '', moves)
+  };
+}
+
+export function formatReconstruction(reconstruction: Reconstruction): string {
+  const { gameId, size, scramble, scrambleSeed, initialFacelets, solution, moveCount, durationMs, solved } = reconstruction;
+  const lines = [
+    `// Game ${gameId} (${size}x${size}, ${solved ? 'solved' : 'not solved'} in ${moveCount} moves, ${formatSeconds(durationMs)})`,
+    scrambleSeed !== undefined ? `// Scramble (seed ${scrambleSeed})` : '// Scramble',
+    scramble ?? `// unavailable - initial facelets: ${initialFacelets}`,
+    '',
+    '// Solution'
+  ];
+
+  const width = Math.max(0, ...solution.map(({ move }) => move.length));
+  for (const { move, timeMs } of solution) {
+    lines.push(`${move.padEnd(width)} // ${formatSeconds(timeMs)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// csTimer 내보내기 형식: 기록 = [[페널티(0 또는 -1 = DNF), 시간ms], 섞기, 코멘트, 시작 시각(초)]
+function toCsTimer(reconstruction: Reconstruction) {
+  const { gameId, scramble, solution, durationMs, solved, startedAt } = reconstruction;
+  return {
+    session1: [[
+      [solved ? 0 : -1, durationMs],
+      scramble ?? '',
+      solution.map(({ move }) => move).join(' '),
+      Math.floor((startedAt ?? Date.now()) / 1000)
+    ]],
+    properties: {
+      sessionData: JSON.stringify({ 1: { name: gameId, opt: {} } })
+    }
+  };
+}
+
+/**
+ * 시작 상태를 만드는 섞기 순서. 기록된 섞기를 우선 사용하고, 시작 상태의 moveHistory가
+ * 실제로 그 상태를 재현하면 그것을, 3x3이면 솔버 해법의 역순을 사용한다.
+ */
+function findSetupMoves(session: GameSession): CubeMove[] | null {
+  if (session.scramble) {
+    return session.scramble.moves;
+  }
+
+  const initialState = session.history?.initialState ?? session.cubeState;
+  try {
+    const cube = new RubiksCube(initialState.size);
+    cube.executeMoves(initialState.moveHistory as CubeMove[]);
+    if (JSON.stringify(cube.getState().faces) === JSON.stringify(initialState.faces)) {
+      return initialState.moveHistory as CubeMove[];
+    }
+  } catch {
+    // 알 수 없는 회전이 섞여 있으면 재현 불가
+  }
+
+  if (initialState.size === 3) {
+    try {
+      return invertMoves(solveCube(initialState, { timeoutMs: 0 }).solution);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// alg.cubing.net 표기: 공백 -> _, ' -> -
+function algCubingUrl(size: number, setup: string, moves: CubeMove[]): string {
+  const encode = (alg: string) => encodeURIComponent(alg.replace(/ /g, '_').replace(/'/g, '-'));
+  return `https://alg.cubing.net/?puzzle=${size}x${size}x${size}&type=reconstruction`
+    + `&setup=${encode(setup)}&alg=${encode(moves.join(' '))}`;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(2)}s`;
+}
@@ -0,0 +1,62 @@
+import { CubeState, COLORS, MIN_CUBE_SIZE, MAX_CUBE_SIZE } from './types.js';
+import { FACE_ORDER, FACE_KEYS, FaceName } from './solver/CubieCube.js';
+
+// 풀린 큐브에서 각 면의 색 (U = 흰색, F = 초록색 ...)
+export const FACE_COLORS: Record<FaceName, string> = {
+  U: COLORS.WHITE,
+  R: COLORS.RED,
+  F: COLORS.GREEN,
+  D: COLORS.YELLOW,
+  L: COLORS.ORANGE,
+  B: COLORS.BLUE
+};
+
+/**
+ * URFDLB 순서의 facelet 문자열(6 x N x N자, 3x3이면 54자)을 CubeState로 변환한다.
+ * 각 면은 행 단위로 읽으며 CubeState.faces의 격자 방향과 같다. 공백은 무시한다.
+ * solved 값은 계산하지 않으므로 검증 단계에서 채운다.
+ */
+export function faceletsToState(facelets: string): CubeState {
+  const text = facelets.replace(/\s+/g, '');
+  const size = Math.round(Math.sqrt(text.length / 6));
+  if (6 * size * size !== text.length || size < MIN_CUBE_SIZE || size > MAX_CUBE_SIZE) {
+    throw new Error(`Facelet string must have 6 x N x N characters (N = ${MIN_CUBE_SIZE}-${MAX_CUBE_SIZE}, 54 for a 3x3), got ${text.length}`);
+  }
+
+  const invalid = /[^URFDLB]/.exec(text);
+  if (invalid) {
+    throw new Error(`Invalid facelet '${invalid[0]}' at position ${invalid.index}, expected one of U R F D L B`);
+  }
+
+  const faces = {} as CubeState['faces'];
+  FACE_ORDER.forEach((face, f) => {
+    faces[FACE_KEYS[face]] = Array.from({ length: size }, (_, row) => {
+      const offset = (f * size + row) * size;
+      return text.slice(offset, offset + size).split('').map(letter => FACE_COLORS[letter as FaceName]);
+    });
+  });
+
+  return { size, faces, solved: false, moveHistory: [] };
+}
+
+/**
+ * CubeState를 URFDLB facelet 문자열로 변환한다. 홀수 크기는 센터 색으로 면을 판별하고
+ * (큐브를 통째로 돌린 상태도 표준 표기가 됨) 짝수 크기는 표준 배색을 사용한다.
+ */
+export function stateToFacelets(state: CubeState): string {
+  const { size, faces } = state;
+  const colorToFace = new Map<string, FaceName>();
+  for (const face of FACE_ORDER) {
+    const mid = (size - 1) / 2;
+    const color = size % 2 === 1 ? faces[FACE_KEYS[face]][mid][mid] : FACE_COLORS[face];
+    colorToFace.set(color, face);
+  }
+
+  return FACE_ORDER.map(face => faces[FACE_KEYS[face]].map(row => row.map(color => {
+    const letter = colorToFace.get(color);
+    if (!letter) {
+      throw new Error(`Cannot convert sticker color ${color} to a facelet`);
+    }
+    return letter;
+  }).join('')).join('')).join('');
+}
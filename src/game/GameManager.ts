@@ -0,0 +1,331 @@
+import { EventEmitter } from 'events';
+import { AlgorithmStep, BenchmarkLink, CubeHint, CubeMove, CubeState, GameSession, MatchLink, MoveActor, PlayerStats, ScrambleInfo, ScrambleMode } from '../types.js';
+import { RubiksCube } from '../cubeLogic.js';
+import { scrambleCube } from '../scramble.js';
+import { parseInitialState } from '../validation.js';
+import { requestHint } from '../hints.js';
+import { createHistory, recordMoves, undoMove, redoMove, jumpToMove } from '../history.js';
+import { createTimer, updateTimer, finishTimer, computeStats, isRotation } from '../timer.js';
+import { createAccessTokens } from '../access.js';
+import { SessionStore } from '../storage/SessionStore.js';
+import { MemorySessionStore } from '../storage/MemorySessionStore.js';
+
+export interface CreateGameOptions {
+  scramble?: boolean;
+  difficulty?: number;
+  size?: number;
+  seed?: number;
+  scrambleMode?: ScrambleMode;
+  initialState?: string | Partial<CubeState>;  // 지정하면 섞지 않고 이 상태에서 시작
+  timed?: boolean;                              // 타이머 모드 (관찰 시간 후 기록 측정)
+  player?: string;                              // 타이머 기록을 남길 플레이어 이름
+  benchmark?: BenchmarkLink;                    // 벤치마크 실행의 스크램블 게임
+  match?: MatchLink;                            // 대결의 참가자 게임
+  idPrefix?: string;
+}
+
+// 세션 보관 정책 (0 또는 생략 = 제한 없음)
+export interface SessionLimits {
+  idleTtlMs?: number;     // 마지막 활동 후 이 시간이 지나면 삭제
+  maxSessions?: number;   // 보관하는 게임 수 상한
+}
+
+export type SessionRemovalReason = 'expired' | 'deleted';
+
+// 만료 검사 주기 상한
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+// 존재하지 않는 게임 ID
+export class GameNotFoundError extends Error {
+  constructor(readonly gameId: string) {
+    super(`Game session ${gameId} not found`);
+    this.name = 'GameNotFoundError';
+  }
+}
+
+// 이미 끝난 게임에 회전 - 다시 하려면 resetGame
+export class GameCompletedError extends Error {
+  constructor(readonly gameId: string) {
+    super(`Game ${gameId} is already completed; reset it to play again`);
+    this.name = 'GameCompletedError';
+  }
+}
+
+// 게임 수 상한 도달
+export class SessionLimitError extends Error {
+  constructor(readonly maxSessions: number) {
+    super(`Session limit reached: the server keeps at most ${maxSessions} games. Delete games you no longer need (deleteGame or DELETE /api/games/{gameId}) or wait for idle games to expire`);
+    this.name = 'SessionLimitError';
+  }
+}
+
+/**
+ * 게임 세션의 단일 관리 지점. MCP 도구, REST API, WebSocket이 모두 이 객체를 통해
+ * 세션을 만들고 조작하므로 사람과 에이전트가 같은 게임을 함께 플레이할 수 있다.
+ *
+ * 이벤트:
+ *   'sessionCreated' (session)          새 게임 생성
+ *   'sessionUpdated' (session)          큐브 상태나 진행 상태 변경 (시각화 브로드캐스트용)
+ *   'sessionDeleted' (session, reason)  만료('expired') 또는 삭제('deleted')로 게임 제거
+ */
+export class GameManager extends EventEmitter {
+  private sessions: Map<string, GameSession>;
+  private store: SessionStore;
+  private limits: SessionLimits = {};
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(store: SessionStore = new MemorySessionStore(), limits: SessionLimits = {}) {
+    super();
+    this.store = store;
+    this.sessions = new Map(store.load().map(session => [session.id, session]));
+    this.setLimits(limits);
+  }
+
+  // 보관 정책 변경 - 만료 시간이 있으면 주기적으로 오래된 게임을 지움
+  setLimits(limits: SessionLimits): void {
+    this.limits = limits;
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+
+    const ttl = limits.idleTtlMs ?? 0;
+    if (ttl > 0) {
+      this.sweeper = setInterval(() => this.sweepExpired(), Math.min(ttl, MAX_SWEEP_INTERVAL_MS));
+      this.sweeper.unref();   // 타이머 때문에 프로세스가 끝나지 않는 일이 없도록
+    }
+  }
+
+  // 만료 시각 (만료 없음이면 null)
+  getExpiry(session: GameSession): number | null {
+    const ttl = this.limits.idleTtlMs ?? 0;
+    return ttl > 0 ? session.lastActivity + ttl : null;
+  }
+
+  // 만료된 게임 삭제 - 지운 게임 ID 반환
+  sweepExpired(now: number = Date.now()): string[] {
+    const expired = this.listGames().filter(session => {
+      const expiry = this.getExpiry(session);
+      return expiry !== null && now >= expiry;
+    });
+    for (const session of expired) {
+      this.remove(session, 'expired');
+    }
+    return expired.map(session => session.id);
+  }
+
+  // 새 게임 생성 - 잘못된 크기, seed, 섞기 방식, 도달할 수 없는 시작 상태거나 게임 수 상한이면 예외
+  createGame({
+    scramble = true, difficulty = 20, size = 3, seed, scrambleMode, initialState, timed = false, player, benchmark, match, idPrefix = 'cube'
+  }: CreateGameOptions = {}): GameSession {
+    const maxSessions = this.limits.maxSessions ?? 0;
+    if (maxSessions > 0 && this.sessions.size >= maxSessions) {
+      this.sweepExpired();   // 아직 검사 주기가 안 돌아온 만료 게임이 자리를 차지하고 있을 수 있음
+      if (this.sessions.size >= maxSessions) {
+        throw new SessionLimitError(maxSessions);
+      }
+    }
+
+    const gameId = `${idPrefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    let cube = new RubiksCube(size);
+
+    let scrambleInfo: ScrambleInfo | undefined;
+    if (initialState !== undefined) {
+      const state = parseInitialState(initialState, size);
+      cube = new RubiksCube(state.size);
+      cube.setState(state);
+    } else if (scramble) {
+      scrambleInfo = scrambleCube(cube, { length: difficulty, seed, mode: scrambleMode });
+    }
+
+    const session: GameSession = {
+      id: gameId,
+      cubeState: cube.getState(),
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+      status: 'active',
+      scrambleMoves: scrambleInfo ? scrambleInfo.moves.length : initialState === undefined ? difficulty : undefined,
+      scramble: scrambleInfo,
+      history: createHistory(cube.getState()),
+      timer: timed ? createTimer(player) : undefined,
+      benchmark,
+      match,
+      access: createAccessTokens()
+    };
+
+    this.sessions.set(gameId, session);
+    this.persist(session);
+    this.emit('sessionCreated', session);
+    return session;
+  }
+
+  getGame(gameId: string): GameSession | undefined {
+    return this.sessions.get(gameId);
+  }
+
+  requireGame(gameId: string): GameSession {
+    const session = this.sessions.get(gameId);
+    if (!session) {
+      throw new GameNotFoundError(gameId);
+    }
+    return session;
+  }
+
+  listGames(): GameSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * 회전들을 순서대로 실행하고 히스토리에 기록한다.
+   * 하나라도 실패하면 세션은 바뀌지 않는다. 기록한 회전은 sessionUpdated 전에 moves 이벤트로 알린다.
+   * 완성했거나 finish한 게임이면 GameCompletedError (포기한 뒤 풀어서 기록을 남기는 일이 없도록).
+   */
+  applyMoves(
+    gameId: string, moves: CubeMove[], recordSteps: boolean = false, actor: MoveActor = 'mcp'
+  ): { session: GameSession; steps: AlgorithmStep[] } {
+    const session = this.requireGame(gameId);
+    if (session.status === 'completed') {
+      throw new GameCompletedError(gameId);
+    }
+    const cube = new RubiksCube(session.cubeState.size);
+    cube.setState(session.cubeState);
+
+    const steps = cube.executeMoves(moves, recordSteps);
+    const records = recordMoves(session, moves, actor);
+
+    session.cubeState = cube.getState();
+    session.lastActivity = Date.now();
+    if (session.cubeState.solved) {
+      session.status = 'completed';
+      session.completedAt = session.lastActivity;
+    }
+    updateTimer(session, moves.some(move => !isRotation(move)));
+
+    this.emit('moves', session, records);
+    this.commit(session);
+    return { session, steps };
+  }
+
+  undo(gameId: string): GameSession {
+    return this.travel(gameId, session => undoMove(session));
+  }
+
+  redo(gameId: string): GameSession {
+    return this.travel(gameId, session => redoMove(session));
+  }
+
+  jumpTo(gameId: string, index: number): GameSession {
+    return this.travel(gameId, session => jumpToMove(session, index));
+  }
+
+  // 힌트 요청 - 사용 기록이 세션에 남으므로 저장
+  requestHint(gameId: string, count: number = 1): CubeHint {
+    const session = this.requireGame(gameId);
+    const hint = requestHint(session, session.cubeState, count);
+    this.persist(session);
+    return hint;
+  }
+
+  // MCP 도구 호출 기록 (벤치마크 집계용, 활동으로 보아 만료 시간도 연장) - 없는 게임이면 무시하고 도구가 직접 오류를 냄
+  recordToolCall(gameId: string, tool: string): void {
+    const session = this.sessions.get(gameId);
+    if (!session) {
+      return;
+    }
+    session.toolCalls = { ...session.toolCalls, [tool]: (session.toolCalls?.[tool] ?? 0) + 1 };
+    session.lastActivity = Date.now();
+    this.persist(session);
+  }
+
+  // 게임 종료 - 풀린 상태면 완성 시각, 아니면 포기 시각을 남김
+  finish(gameId: string): GameSession {
+    const session = this.requireGame(gameId);
+    finishTimer(session);
+    session.lastActivity = Date.now();
+    if (session.status !== 'completed') {
+      session.status = 'completed';
+      if (session.cubeState.solved) {
+        session.completedAt = session.lastActivity;
+      } else {
+        session.gaveUpAt = session.lastActivity;
+      }
+    }
+    this.commit(session);
+    return session;
+  }
+
+  // 게임 삭제 - 뷰어에는 sessionDeleted 이벤트로 알림
+  deleteGame(gameId: string): GameSession {
+    const session = this.requireGame(gameId);
+    this.remove(session, 'deleted');
+    return session;
+  }
+
+  /**
+   * 섞인 시작 상태로 되돌리고 회전 히스토리를 비운다. 타이머 모드면 관찰 시간부터 다시 시작.
+   * 힌트와 도구 호출 기록은 게임 단위 제한/집계이므로 유지한다.
+   */
+  resetGame(gameId: string): GameSession {
+    const session = this.requireGame(gameId);
+    const initialState = session.history?.initialState;
+    if (!initialState) {
+      throw new Error(`Game ${gameId} has no recorded starting position to reset to`);
+    }
+
+    const cube = new RubiksCube(initialState.size);
+    cube.setState(initialState);
+    session.cubeState = cube.getState();
+    session.history = createHistory(session.cubeState);
+    session.status = session.cubeState.solved ? 'completed' : 'active';
+    session.completedAt = undefined;
+    session.gaveUpAt = undefined;
+    session.timer = session.timer ? createTimer(session.timer.player) : undefined;
+    session.lastActivity = Date.now();
+
+    this.commit(session);
+    return session;
+  }
+
+  // 타이머 모드 기록 통계 (player를 주면 그 플레이어만)
+  getStats(player?: string): PlayerStats[] {
+    return computeStats(this.listGames(), player);
+  }
+
+  close(): void {
+    clearInterval(this.sweeper);
+    this.store.close();
+  }
+
+  // 히스토리 이동 - 끝난 게임은 회전처럼 막음 (포기한 게임을 되살리거나 완성 기록을 흐리지 않도록, 다시 하려면 resetGame)
+  private travel(gameId: string, travel: (session: GameSession) => CubeState): GameSession {
+    const session = this.requireGame(gameId);
+    if (session.status === 'completed') {
+      throw new GameCompletedError(gameId);
+    }
+    travel(session);
+    updateTimer(session, false);
+    this.commit(session);
+    return session;
+  }
+
+  private commit(session: GameSession): void {
+    this.persist(session);
+    this.emit('sessionUpdated', session);
+  }
+
+  private remove(session: GameSession, reason: SessionRemovalReason): void {
+    this.sessions.delete(session.id);
+    try {
+      this.store.delete(session.id);
+    } catch (error) {
+      console.error(`❌ Failed to delete stored session ${session.id}:`, error);
+    }
+    this.emit('sessionDeleted', session, reason);
+  }
+
+  private persist(session: GameSession): void {
+    try {
+      this.store.save(session);
+    } catch (error) {
+      console.error(`❌ Failed to persist session ${session.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { CubeHint, CubeState, GameSession, COLORS } from './types.js';
+import { RubiksCube } from './cubeLogic.js';
+import { CubieCube, FACE_KEYS, FACE_ORDER, FaceName } from './solver/CubieCube.js';
+import { solveCube } from './solver/TwoPhaseSolver.js';
+
+// 세션당 힌트 제한 (환경변수로 조정 가능)
+export const HINT_LIMIT = readHintSetting('HINT_LIMIT', 10);
+export const HINT_COOLDOWN_MS = readHintSetting('HINT_COOLDOWN_MS', 5000);
+export const MAX_HINT_MOVES = 5;
+
+const HINT_SEARCH_TIMEOUT_MS = 500;
+
+// 각 면에 붙어 있는 엣지 위치 (CubieCube 엣지 순서 기준)
+const FACE_EDGES: Record<FaceName, number[]> = {
+  U: [0, 1, 2, 3],
+  R: [0, 4, 8, 11],
+  F: [1, 5, 8, 9],
+  D: [4, 5, 6, 7],
+  L: [2, 6, 9, 10],
+  B: [3, 7, 10, 11]
+};
+
+// 0 이상의 정수가 아니면 경고하고 기본값 사용 (NaN이면 제한이 사라지고 응답에 NaN이 나감)
+function readHintSetting(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`Invalid ${name} "${raw}" (expected a non-negative integer), using the default ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
+
+// 힌트 횟수 제한/쿨다운 위반
+export class HintLimitError extends Error {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'HintLimitError';
+  }
+}
+
+/**
+ * 다음 1..N 수를 추천하고 세션에 힌트 사용 기록을 남긴다.
+ * 전체 해법은 공개하지 않고, 추천한 수가 무엇을 이루는지 짧은 이유를 붙인다.
+ */
+export function requestHint(session: GameSession, state: CubeState, count: number = 1): CubeHint {
+  const hints = session.hints ?? [];
+  const now = Date.now();
+
+  if (state.solved) {
+    return {
+      moves: [],
+      reason: 'the cube is already solved',
+      remainingMoves: 0,
+      hintsUsed: hints.length,
+      hintsRemaining: Math.max(0, HINT_LIMIT - hints.length)
+    };
+  }
+
+  if (hints.length >= HINT_LIMIT) {
+    throw new HintLimitError(`Hint limit reached (${HINT_LIMIT} per game)`);
+  }
+
+  const last = hints[hints.length - 1];
+  if (last && now - last.requestedAt < HINT_COOLDOWN_MS) {
+    const retryAfterMs = HINT_COOLDOWN_MS - (now - last.requestedAt);
+    throw new HintLimitError(`Hint cooldown active, retry in ${Math.ceil(retryAfterMs / 1000)}s`, retryAfterMs);
+  }
+
+  const { solution } = solveCube(state, { timeoutMs: HINT_SEARCH_TIMEOUT_MS });
+  const moves = solution.slice(0, Math.min(Math.max(count, 1), MAX_HINT_MOVES));
+
+  const cube = new RubiksCube();
+  cube.setState(state);
+  for (const move of moves) {
+    cube.executeMove(move);
+  }
+
+  const reason = describeProgress(state, cube.getState(), solution.length, solution.length - moves.length);
+
+  session.hints = [...hints, { requestedAt: now, moveNumber: state.moveHistory.length, moves }];
+  session.lastActivity = now;
+
+  return {
+    moves,
+    reason,
+    remainingMoves: solution.length - moves.length,
+    hintsUsed: session.hints.length,
+    hintsRemaining: Math.max(0, HINT_LIMIT - session.hints.length)
+  };
+}
+
+// 힌트 적용 전후 상태를 비교해 진행 내용을 설명
+function describeProgress(before: CubeState, after: CubeState, distBefore: number, distAfter: number): string {
+  if (after.solved) {
+    return 'solves the cube';
+  }
+
+  const crossBefore = countWhiteCrossEdges(before);
+  const crossAfter = countWhiteCrossEdges(after);
+  if (crossAfter === 4 && crossBefore < 4) {
+    return 'completes the white cross';
+  }
+  if (crossAfter > crossBefore) {
+    const placed = crossAfter - crossBefore;
+    return `places ${placed} white cross edge${placed > 1 ? 's' : ''}`;
+  }
+
+  const solvedBefore = countSolvedPieces(before);
+  const solvedAfter = countSolvedPieces(after);
+  if (solvedAfter > solvedBefore) {
+    const placed = solvedAfter - solvedBefore;
+    return `puts ${placed} more piece${placed > 1 ? 's' : ''} in place (${distAfter} moves from solved)`;
+  }
+
+  return `brings the cube closer to solved (${distBefore} → ${distAfter} moves remaining)`;
+}
+
+function countWhiteCrossEdges(state: CubeState): number {
+  const whiteFace = FACE_ORDER.find(face => state.faces[FACE_KEYS[face]][1][1] === COLORS.WHITE);
+  if (!whiteFace) return 0;
+
+  const cube = CubieCube.fromState(state);
+  return FACE_EDGES[whiteFace].filter(i => cube.ep[i] === i && cube.eo[i] === 0).length;
+}
+
+function countSolvedPieces(state: CubeState): number {
+  const cube = CubieCube.fromState(state);
+  const corners = cube.cp.filter((c, i) => c === i && cube.co[i] === 0).length;
+  const edges = cube.ep.filter((e, i) => e === i && cube.eo[i] === 0).length;
+  return corners + edges;
+}
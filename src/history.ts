@@ -0,0 +1,123 @@
+import { CubeMove, CubeState, GameSession, HistoryPosition, MoveActor, MoveHistory, MoveRecord } from './types.js';
+import { RubiksCube } from './cubeLogic.js';
+
+// 게임 시작 시점(섞은 뒤)의 상태로 히스토리 생성
+export function createHistory(initialState: CubeState): MoveHistory {
+  return {
+    initialState: JSON.parse(JSON.stringify(initialState)),
+    moves: [],
+    timestamps: [],
+    actors: [],
+    cursor: 0,
+    branches: []
+  };
+}
+
+// 히스토리가 없는 세션(이전 버전에서 만든 세션 등)은 현재 상태를 시작점으로 삼음
+function ensureHistory(session: GameSession): MoveHistory {
+  if (!session.history) {
+    session.history = createHistory(session.cubeState);
+  }
+  return session.history;
+}
+
+/**
+ * 새로 실행한 회전을 기록한다. 되돌린 상태에서 새 회전을 하면
+ * 되돌렸던 이후의 회전들은 branches에 보관하고 새 갈래로 이어간다.
+ */
+export function recordMoves(session: GameSession, moves: CubeMove[], actor: MoveActor = 'mcp'): MoveRecord[] {
+  const history = ensureHistory(session);
+  const now = Date.now();
+  const timestamps = history.timestamps ?? history.moves.map(() => now);
+  const actors = history.actors ?? history.moves.map(() => actor);
+
+  if (history.cursor < history.moves.length) {
+    history.branches.push({
+      fromIndex: history.cursor,
+      moves: history.moves.slice(history.cursor),
+      timestamps: timestamps.slice(history.cursor),
+      actors: actors.slice(history.cursor),
+      abandonedAt: now
+    });
+    history.moves = history.moves.slice(0, history.cursor);
+  }
+
+  const from = history.moves.length;
+  history.timestamps = [...timestamps.slice(0, from), ...moves.map(() => now)];
+  history.actors = [...actors.slice(0, from), ...moves.map(() => actor)];
+  history.moves.push(...moves);
+  history.cursor = history.moves.length;
+  return moves.map((move, i) => ({ index: from + i, move, timestamp: now, actor }));
+}
+
+// 히스토리나 버려진 갈래의 회전 기록 - firstIndex = 첫 회전의 히스토리 위치 (갈래는 fromIndex)
+export function moveRecords(
+  { moves, timestamps, actors }: Pick<MoveHistory, 'moves' | 'timestamps' | 'actors'>,
+  firstIndex: number = 0
+): MoveRecord[] {
+  return moves.map((move, i) => ({
+    index: firstIndex + i,
+    move,
+    timestamp: timestamps?.[i] ?? null,
+    actor: actors?.[i] ?? null
+  }));
+}
+
+// 시작 상태에서 index번째 회전까지 적용한 상태 (세션은 바꾸지 않음)
+export function stateAt(history: MoveHistory, index: number): CubeState {
+  if (!Number.isInteger(index) || index < 0 || index > history.moves.length) {
+    throw new Error(`Move index must be between 0 and ${history.moves.length}`);
+  }
+
+  const cube = new RubiksCube(history.initialState.size);
+  cube.setState(history.initialState);
+  cube.executeMoves(history.moves.slice(0, index));
+  return cube.getState();
+}
+
+/**
+ * 히스토리의 index번째 회전 직후 상태로 이동한다 (0 = 시작 상태).
+ * 진행 중인 게임에서만 호출하며 (GameManager가 확인), 풀린 상태에 닿으면 그 시각에 완성된 것으로 기록한다.
+ */
+export function jumpToMove(session: GameSession, index: number): CubeState {
+  const history = ensureHistory(session);
+  const state = stateAt(history, index);
+
+  history.cursor = index;
+  session.cubeState = state;
+  session.lastActivity = Date.now();
+  if (session.cubeState.solved) {
+    session.status = 'completed';
+    session.completedAt = session.lastActivity;
+  }
+
+  return session.cubeState;
+}
+
+export function undoMove(session: GameSession): CubeState {
+  const history = ensureHistory(session);
+  if (history.cursor === 0) {
+    throw new Error('Nothing to undo');
+  }
+  return jumpToMove(session, history.cursor - 1);
+}
+
+export function redoMove(session: GameSession): CubeState {
+  const history = ensureHistory(session);
+  if (history.cursor >= history.moves.length) {
+    throw new Error('Nothing to redo');
+  }
+  return jumpToMove(session, history.cursor + 1);
+}
+
+// 현재 히스토리 위치 요약
+export function describeHistory(session: GameSession): HistoryPosition {
+  const history = ensureHistory(session);
+  return {
+    cursor: history.cursor,
+    totalMoves: history.moves.length,
+    canUndo: history.cursor > 0,
+    canRedo: history.cursor < history.moves.length,
+    branches: history.branches.length
+  };
+}
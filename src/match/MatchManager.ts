@@ -0,0 +1,206 @@
+import { EventEmitter } from 'events';
+import { GameSession, Match, MatchScoreboard, MatchSlot, MatchStanding, ScrambleMode } from '../types.js';
+import { randomSeed } from '../scramble.js';
+import { isRotation } from '../timer.js';
+import { analyzeCube } from '../cfop.js';
+import { GameManager } from '../game/GameManager.js';
+import { canAccess } from '../access.js';
+
+export const MIN_MATCH_PLAYERS = 2;
+export const MAX_MATCH_PLAYERS = 8;
+
+export interface CreateMatchOptions {
+  name?: string;
+  players?: number;
+  size?: number;
+  seed?: number;
+  scrambleMode?: ScrambleMode;
+  difficulty?: number;
+}
+
+// 존재하지 않는 대결 ID
+export class MatchNotFoundError extends Error {
+  constructor(readonly matchId: string) {
+    super(`Match ${matchId} not found`);
+    this.name = 'MatchNotFoundError';
+  }
+}
+
+// 빈 자리가 없는 대결에 참가
+export class MatchFullError extends Error {
+  constructor(readonly matchId: string, readonly players: number) {
+    super(`Match ${matchId} is full (${players} players)`);
+    this.name = 'MatchFullError';
+  }
+}
+
+// 이미 잡힌 자리에 그 게임의 소유자 토큰 없이 다시 참가
+export class MatchSlotTakenError extends Error {
+  constructor(readonly matchId: string, readonly player: string) {
+    super(`Player ${player} already joined match ${matchId}; rejoining needs that game's owner token`);
+    this.name = 'MatchSlotTakenError';
+  }
+}
+
+const STATUS_ORDER: Record<MatchStanding['status'], number> = { solved: 0, racing: 1, 'gave-up': 2, deleted: 3 };
+
+/**
+ * 대결(race) 모드. 같은 seed로 섞은 게임을 참가자 수만큼 미리 만들어 두고, 참가자는 빈 자리를
+ * 잡아 그 게임을 푼다. 기록은 자리를 잡은 시각부터 완성까지라 먼저 들어온 쪽이 불리하지 않다.
+ * 대결의 게임이 바뀌거나 삭제되면 matchUpdated 이벤트로 점수판 갱신을 알린다.
+ * 대결은 메모리에만 있고, 게임은 GameManager의 세션 저장소에 저장된다.
+ */
+export class MatchManager extends EventEmitter {
+  private matches = new Map<string, Match>();
+
+  constructor(private readonly gameManager: GameManager) {
+    super();
+    const onSessionChange = (session: GameSession) => {
+      const match = session.match && this.matches.get(session.match.matchId);
+      if (match) {
+        this.emit('matchUpdated', match);
+      }
+    };
+    this.gameManager.on('sessionUpdated', onSessionChange);
+    this.gameManager.on('sessionDeleted', onSessionChange);
+  }
+
+  // 대결 생성 - 잘못된 옵션이거나 게임 수 상한에 걸리면 예외 (이미 만든 게임은 지움)
+  createMatch({ name, players = MIN_MATCH_PLAYERS, size = 3, seed = randomSeed(), scrambleMode, difficulty = 20 }: CreateMatchOptions = {}): Match {
+    if (!Number.isInteger(players) || players < MIN_MATCH_PLAYERS || players > MAX_MATCH_PLAYERS) {
+      throw new Error(`players must be an integer between ${MIN_MATCH_PLAYERS} and ${MAX_MATCH_PLAYERS}`);
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      throw new Error('name must be a string');
+    }
+
+    const matchId = `match_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const sessions: GameSession[] = [];
+    try {
+      for (let slot = 0; slot < players; slot++) {
+        sessions.push(this.gameManager.createGame({
+          size, seed, scrambleMode, difficulty, match: { matchId, slot }, idPrefix: 'race'
+        }));
+      }
+    } catch (error) {
+      sessions.forEach(session => this.gameManager.deleteGame(session.id));
+      throw error;
+    }
+
+    const [first] = sessions;
+    const match: Match = {
+      id: matchId,
+      name: name?.trim() || `${size}x${size} race`,
+      size,
+      scrambleMode: first.scramble!.mode,
+      difficulty,
+      seed: first.scramble!.seed,
+      scramble: first.scramble!.moves,
+      slots: sessions.map((session): MatchSlot => ({ gameId: session.id, player: null, joinedAt: null })),
+      createdAt: Date.now()
+    };
+    this.matches.set(match.id, match);
+    return match;
+  }
+
+  getMatch(matchId: string): Match | undefined {
+    return this.matches.get(matchId);
+  }
+
+  requireMatch(matchId: string): Match {
+    const match = this.matches.get(matchId);
+    if (!match) {
+      throw new MatchNotFoundError(matchId);
+    }
+    return match;
+  }
+
+  listMatches(): Match[] {
+    return Array.from(this.matches.values());
+  }
+
+  /**
+   * 빈 자리를 잡아 참가한다. 같은 이름으로 다시 참가하려면 그 자리 게임의 소유자 토큰이
+   * 필요하고(이름은 점수판에 공개되므로), rejoined로 알린다. 자리의 게임이 삭제됐으면 예외.
+   */
+  joinMatch(matchId: string, player: string, token?: string): { slot: number; session: GameSession; rejoined: boolean } {
+    const match = this.requireMatch(matchId);
+    if (typeof player !== 'string' || player.trim() === '') {
+      throw new Error('player must be a non-empty string');
+    }
+    const name = player.trim();
+
+    let slot = match.slots.findIndex(entry => entry.player === name);
+    const rejoined = slot !== -1;
+    if (!rejoined) {
+      slot = match.slots.findIndex(entry => entry.player === null);
+      if (slot === -1) {
+        throw new MatchFullError(matchId, match.slots.length);
+      }
+      match.slots[slot] = { ...match.slots[slot], player: name, joinedAt: Date.now() };
+      this.emit('matchUpdated', match);
+    }
+
+    const session = this.gameManager.getGame(match.slots[slot].gameId);
+    if (!session) {
+      throw new Error(`The game of ${name} in match ${matchId} has been deleted`);
+    }
+    if (rejoined && !canAccess(session, token, 'owner')) {
+      throw new MatchSlotTakenError(matchId, name);
+    }
+    return { slot, session, rejoined };
+  }
+
+  // 참가자별 진행도와 순위
+  getScoreboard(matchId: string): MatchScoreboard {
+    const match = this.requireMatch(matchId);
+    const standings = match.slots.flatMap((entry, slot) => entry.player === null ? [] : [this.standing(entry, slot)]);
+
+    // 푼 참가자는 기록 순, 푸는 중이면 단계 > 맞은 조각 수 순
+    standings.sort((a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+      (a.finishTimeMs ?? 0) - (b.finishTimeMs ?? 0) ||
+      b.stages.length - a.stages.length ||
+      b.solvedCubies - a.solvedCubies ||
+      a.joinedAt - b.joinedAt
+    );
+    standings.forEach((standing, i) => { standing.rank = i + 1; });
+
+    const openSlots = match.slots.filter(entry => entry.player === null).length;
+    return {
+      matchId: match.id,
+      name: match.name,
+      size: match.size,
+      seed: match.seed,
+      scramble: match.scramble,
+      status: openSlots > 0 ? 'waiting' : standings.some(standing => standing.status === 'racing') ? 'racing' : 'finished',
+      players: match.slots.length,
+      openSlots,
+      winner: standings[0]?.status === 'solved' ? standings[0].player : null,
+      standings,
+      createdAt: match.createdAt
+    };
+  }
+
+  private standing(entry: MatchSlot, slot: number): MatchStanding {
+    const session = this.gameManager.getGame(entry.gameId);
+    const state = session?.cubeState;
+    const analysis = state ? analyzeCube(state) : undefined;
+    const appliedMoves = session?.history ? session.history.moves.slice(0, session.history.cursor) : state?.moveHistory ?? [];
+    const solved = session?.status === 'completed' && session.gaveUpAt === undefined && session.cubeState.solved;
+
+    return {
+      rank: 0,
+      slot,
+      player: entry.player!,
+      gameId: entry.gameId,
+      status: !session ? 'deleted' : session.status === 'active' ? 'racing' : solved ? 'solved' : 'gave-up',
+      moves: appliedMoves.filter(move => !isRotation(move)).length,
+      stages: analysis?.stages ?? [],
+      solvedCubies: analysis?.solvedCubies ?? 0,
+      totalCubies: analysis?.totalCubies ?? 0,
+      joinedAt: entry.joinedAt!,
+      finishTimeMs: solved && session.completedAt !== undefined ? Math.max(0, session.completedAt - entry.joinedAt!) : null
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import type { CubeState } from '../types.js';
+import type { CubeModel } from '../cubeLogic.js';
+import { FACE_COLORS } from '../facelets.js';
+import {
+  FACE_ORDER, FACE_KEYS, FaceName, CORNER_FACELETS, EDGE_FACELETS, CORNER_COLORS, EDGE_COLORS, CORNER_NAMES, EDGE_NAMES
+} from '../solver/CubieCube.js';
+import { StickerModel } from './StickerModel.js';
+
+type Faces = CubeState['faces'];
+
+// 상태 배열의 구간: 코너 위치 8, 코너 방향 8, 엣지 위치 12, 엣지 방향 12, 센터 6
+const CP = 0;
+const CO = 8;
+const EP = 16;
+const EO = 28;
+const CENTERS = 40;
+const LENGTH = 46;
+
+// 색 번호는 StickerModel과 같음 (번호 = 그 색이 풀린 상태에서 있는 면의 URFDLB 순서)
+const COLOR_CODES = new Map(FACE_ORDER.map((face, code) => [FACE_COLORS[face], code]));
+const toCodes = (faces: FaceName[]) => faces.map(face => FACE_ORDER.indexOf(face));
+const CORNER_CODES = CORNER_COLORS.map(toCodes);
+const EDGE_CODES = EDGE_COLORS.map(toCodes);
+const U = FACE_ORDER.indexOf('U');
+const D = FACE_ORDER.indexOf('D');
+
+// 3x3 스티커 순열 표 -> 조각 이동 (위치별 출발 조각 위치와 방향 변화), 표마다 한 번만 계산
+const cubieMoves = new WeakMap<Uint16Array, Uint8Array>();
+
+function toCubieMove(table: Uint16Array): Uint8Array {
+  const cached = cubieMoves.get(table);
+  if (cached) return cached;
+
+  // 회전은 조각의 스티커 순서를 순환시키기만 하므로 첫 스티커의 출처로 출발 위치와 방향이 정해짐
+  const move = new Uint8Array(LENGTH);
+  CORNER_FACELETS.forEach(([first], i) => {
+    const source = table[first];
+    const corner = CORNER_FACELETS.findIndex(facelets => facelets.includes(source));
+    move[CP + i] = corner;
+    move[CO + i] = (3 - CORNER_FACELETS[corner].indexOf(source)) % 3;
+  });
+  EDGE_FACELETS.forEach(([first], i) => {
+    const source = table[first];
+    const edge = EDGE_FACELETS.findIndex(facelets => facelets.includes(source));
+    move[EP + i] = edge;
+    move[EO + i] = EDGE_FACELETS[edge].indexOf(source);
+  });
+  for (let face = 0; face < 6; face++) {
+    move[CENTERS + face] = Math.floor(table[face * 9 + 4] / 9);
+  }
+
+  cubieMoves.set(table, move);
+  return move;
+}
+
+/**
+ * 3x3 큐브의 조각(cubie) 모델. 코너와 엣지의 위치와 방향, 센터 색을 타입 배열 하나에 담고
+ * 회전은 미리 계산한 조각 이동을 한 번 적용하는 것으로 끝난다.
+ * 방향은 CubieCube와 같은 기준이지만 조각은 센터가 아닌 스티커 색으로 구분하므로
+ * 슬라이스와 큐브 회전(M, x 등)으로 센터가 움직인 상태도 그대로 표현된다.
+ * 스티커와 CubeState 면 배열은 필요할 때만 만드는 파생 표현이다.
+ */
+export class CubieModel implements CubeModel {
+  readonly size = 3;
+  private pieces: Uint8Array;
+  private scratch: Uint8Array;
+
+  constructor(pieces?: Uint8Array) {
+    this.pieces = pieces ? Uint8Array.from(pieces) : solvedPieces();
+    this.scratch = new Uint8Array(LENGTH);
+  }
+
+  // CubeState 면 배열에서 생성 - 알 수 없는 색이거나 조각이 될 수 없는 색 조합이면 예외
+  static fromFaces(faces: Faces): CubieModel {
+    const stickers = new Uint8Array(54);
+    FACE_ORDER.forEach((face, f) => {
+      faces[FACE_KEYS[face]].flat().forEach((color, i) => {
+        const code = COLOR_CODES.get(color);
+        if (code === undefined) {
+          throw new Error(`Unknown sticker color ${JSON.stringify(color)} on ${FACE_KEYS[face]} face`);
+        }
+        stickers[f * 9 + i] = code;
+      });
+    });
+
+    const pieces = new Uint8Array(LENGTH);
+    CORNER_FACELETS.forEach((facelets, i) => {
+      const colors = facelets.map(facelet => stickers[facelet]);
+      const ori = colors.findIndex(code => code === U || code === D);
+      const corner = CORNER_CODES.findIndex(codes =>
+        ori >= 0 && codes.every((code, n) => code === colors[(ori + n) % 3]));
+      if (corner < 0) {
+        throw new Error(`Invalid cube state: corner at ${CORNER_NAMES[i]} has an impossible color combination`);
+      }
+      pieces[CP + i] = corner;
+      pieces[CO + i] = ori;
+    });
+    EDGE_FACELETS.forEach(([a, b], i) => {
+      const edge = EDGE_CODES.findIndex(([first, second]) =>
+        (first === stickers[a] && second === stickers[b]) || (first === stickers[b] && second === stickers[a]));
+      if (edge < 0) {
+        throw new Error(`Invalid cube state: edge at ${EDGE_NAMES[i]} has an impossible color combination`);
+      }
+      pieces[EP + i] = edge;
+      pieces[EO + i] = EDGE_CODES[edge][0] === stickers[a] ? 0 : 1;
+    });
+    for (let face = 0; face < 6; face++) {
+      pieces[CENTERS + face] = stickers[face * 9 + 4];
+    }
+    return new CubieModel(pieces);
+  }
+
+  clone(): CubieModel {
+    return new CubieModel(this.pieces);
+  }
+
+  // 3x3 스티커 순열 표를 조각 이동으로 바꿔 적용 (CubieCube.multiply와 같은 규칙)
+  apply(table: Uint16Array): void {
+    const move = toCubieMove(table);
+    const { pieces, scratch } = this;
+    for (let i = 0; i < 8; i++) {
+      const source = move[CP + i];
+      scratch[CP + i] = pieces[CP + source];
+      scratch[CO + i] = (pieces[CO + source] + move[CO + i]) % 3;
+    }
+    for (let i = 0; i < 12; i++) {
+      const source = move[EP + i];
+      scratch[EP + i] = pieces[EP + source];
+      scratch[EO + i] = pieces[EO + source] ^ move[EO + i];
+    }
+    for (let face = 0; face < 6; face++) {
+      scratch[CENTERS + face] = pieces[CENTERS + move[CENTERS + face]];
+    }
+    this.pieces = scratch;
+    this.scratch = pieces;
+  }
+
+  // 모든 면이 센터 색과 같은지 확인
+  isSolved(): boolean {
+    const stickers = this.toStickers();
+    for (let i = 0; i < 54; i++) {
+      if (stickers[i] !== stickers[Math.floor(i / 9) * 9 + 4]) return false;
+    }
+    return true;
+  }
+
+  toFaces(): Faces {
+    return new StickerModel(3, this.toStickers()).toFaces();
+  }
+
+  toFacelets(): string {
+    return new StickerModel(3, this.toStickers()).toFacelets();
+  }
+
+  // 조각 상태 -> 스티커 색 번호 (StickerModel과 같은 칸 순서)
+  private toStickers(): Uint8Array {
+    const { pieces } = this;
+    const stickers = new Uint8Array(54);
+    CORNER_FACELETS.forEach((facelets, i) => {
+      const codes = CORNER_CODES[pieces[CP + i]];
+      const ori = pieces[CO + i];
+      facelets.forEach((facelet, n) => { stickers[facelet] = codes[(n - ori + 3) % 3]; });
+    });
+    EDGE_FACELETS.forEach((facelets, i) => {
+      const codes = EDGE_CODES[pieces[EP + i]];
+      const ori = pieces[EO + i];
+      facelets.forEach((facelet, n) => { stickers[facelet] = codes[n ^ ori]; });
+    });
+    for (let face = 0; face < 6; face++) {
+      stickers[face * 9 + 4] = pieces[CENTERS + face];
+    }
+    return stickers;
+  }
+}
+
+function solvedPieces(): Uint8Array {
+  const pieces = new Uint8Array(LENGTH);
+  for (let i = 0; i < 8; i++) pieces[CP + i] = i;
+  for (let i = 0; i < 12; i++) pieces[EP + i] = i;
+  for (let face = 0; face < 6; face++) pieces[CENTERS + face] = face;
+  return pieces;
+}
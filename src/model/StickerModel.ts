@@ -0,0 +1,178 @@
+import type { CubeState } from '../types.js';
+import type { CubeModel, LayerTurn } from '../cubeLogic.js';
+import { FACE_COLORS } from '../facelets.js';
+import { FACE_ORDER, FACE_KEYS } from '../solver/CubieCube.js';
+
+export type Vec3 = [number, number, number];
+type FaceKey = keyof CubeState['faces'];
+type Faces = CubeState['faces'];
+
+// 색 번호 -> 색 (번호 = 그 색이 풀린 상태에서 있는 면의 URFDLB 순서)
+const PALETTE: string[] = FACE_ORDER.map(face => FACE_COLORS[face]);
+const COLOR_CODES = new Map(PALETTE.map((color, code) => [color, code]));
+const FACES: FaceKey[] = FACE_ORDER.map(face => FACE_KEYS[face]);
+const STATE_FACES: FaceKey[] = ['front', 'back', 'left', 'right', 'top', 'bottom'];
+const AXES = ['x', 'y', 'z'] as const;
+
+// 스티커의 3D 위치와 법선 - 좌표는 2배 스케일 정수 (층 i -> 2i - (size - 1))
+export function stickerGeometry(face: FaceKey, row: number, col: number, size: number): { pos: Vec3; normal: Vec3 } {
+  const m = size - 1;
+  const r = 2 * row - m;
+  const c = 2 * col - m;
+  switch (face) {
+    case 'front': return { pos: [c, -r, m], normal: [0, 0, 1] };
+    case 'back': return { pos: [-c, -r, -m], normal: [0, 0, -1] };
+    case 'left': return { pos: [-m, -r, c], normal: [-1, 0, 0] };
+    case 'right': return { pos: [m, -r, -c], normal: [1, 0, 0] };
+    case 'top': return { pos: [c, m, r], normal: [0, 1, 0] };
+    case 'bottom': return { pos: [c, -m, -r], normal: [0, -1, 0] };
+  }
+}
+
+// 축 기준 90도 회전 (direction = 1 이면 반시계, 오른손 법칙)
+function rotateVector([x, y, z]: Vec3, axis: number, direction: number): Vec3 {
+  if (axis === 0) return direction > 0 ? [x, -z, y] : [x, z, -y];
+  if (axis === 1) return direction > 0 ? [z, y, -x] : [-z, y, x];
+  return direction > 0 ? [-y, x, z] : [y, -x, z];
+}
+
+// 층 하나를 90도 돌릴 때의 스티커 순열 (result[target] = source)
+function layerPermutation(size: number, axis: number, layer: number, direction: number): Uint16Array {
+  const stickers: { pos: Vec3; normal: Vec3 }[] = [];
+  const index = new Map<string, number>();
+  for (const face of FACES) {
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const geometry = stickerGeometry(face, row, col, size);
+        index.set(`${geometry.normal}|${geometry.pos}`, stickers.length);
+        stickers.push(geometry);
+      }
+    }
+  }
+
+  const coordinate = 2 * layer - (size - 1);
+  const permutation = Uint16Array.from(stickers, (_, i) => i);
+  stickers.forEach(({ pos, normal }, source) => {
+    if (pos[axis] !== coordinate) return;
+    const target = index.get(`${rotateVector(normal, axis, direction)}|${rotateVector(pos, axis, direction)}`)!;
+    permutation[target] = source;
+  });
+  return permutation;
+}
+
+// 회전 하나(여러 층, times번 반복)를 한 번에 적용하는 합성 순열, 크기별로 캐시
+const moveTableCache = new Map<string, Uint16Array>();
+
+export function getMoveTable(size: number, { axis, layers, direction }: LayerTurn, times: number = 1): Uint16Array {
+  const key = `${size}:${axis}:${layers.join(',')}:${direction}:${times}`;
+  const cached = moveTableCache.get(key);
+  if (cached) return cached;
+
+  let table = Uint16Array.from({ length: 6 * size * size }, (_, i) => i);
+  for (let i = 0; i < times; i++) {
+    for (const layer of layers) {
+      const permutation = layerPermutation(size, AXES.indexOf(axis), layer, direction);
+      const previous = table;
+      table = permutation.map(source => previous[source]);
+    }
+  }
+
+  moveTableCache.set(key, table);
+  return table;
+}
+
+/**
+ * 타입 배열 기반 큐브 상태. 6 x N x N개의 스티커 칸(URFDLB 면 순서, 면마다 행 단위)에
+ * 색 번호를 저장하고, 회전은 미리 계산한 순열 표를 한 번 적용하는 것으로 끝난다.
+ * 스티커 순열은 조각의 위치와 방향을 함께 담고 있으므로 별도의 조각 배열이 필요 없으며,
+ * CubeState의 면 배열은 필요할 때만 만들어지는 파생 표현이다.
+ * RubiksCube는 3x3에 조각(cubie) 모델인 CubieModel을 쓰고, 2x2와 4x4 이상은 이쪽을 쓴다.
+ */
+export class StickerModel implements CubeModel {
+  readonly size: number;
+  private stickers: Uint8Array;
+  private scratch: Uint8Array;
+
+  constructor(size: number, stickers?: Uint8Array) {
+    this.size = size;
+    this.stickers = stickers ? Uint8Array.from(stickers) : Uint8Array.from({ length: 6 * size * size }, (_, i) => Math.floor(i / (size * size)));
+    this.scratch = new Uint8Array(this.stickers.length);
+  }
+
+  // CubeState 면 배열에서 생성 - 알 수 없는 색이면 예외
+  static fromFaces(faces: Faces): StickerModel {
+    const size = faces.front.length;
+    const stickers = new Uint8Array(6 * size * size);
+    let i = 0;
+    for (const face of FACES) {
+      for (const row of faces[face]) {
+        for (const color of row) {
+          const code = COLOR_CODES.get(color);
+          if (code === undefined) {
+            throw new Error(`Unknown sticker color ${JSON.stringify(color)} on ${face} face`);
+          }
+          stickers[i++] = code;
+        }
+      }
+    }
+    return new StickerModel(size, stickers);
+  }
+
+  clone(): StickerModel {
+    return new StickerModel(this.size, this.stickers);
+  }
+
+  copyFrom(other: StickerModel): void {
+    this.stickers.set(other.stickers);
+  }
+
+  // 순열 표 적용: next[target] = current[table[target]]
+  apply(table: Uint16Array): void {
+    const { stickers, scratch } = this;
+    for (let i = 0; i < table.length; i++) {
+      scratch[i] = stickers[table[i]];
+    }
+    this.stickers = scratch;
+    this.scratch = stickers;
+  }
+
+  // 모든 면이 한 가지 색인지 확인
+  isSolved(): boolean {
+    const area = this.size * this.size;
+    for (let face = 0; face < 6; face++) {
+      const first = this.stickers[face * area];
+      for (let i = face * area + 1; i < (face + 1) * area; i++) {
+        if (this.stickers[i] !== first) return false;
+      }
+    }
+    return true;
+  }
+
+  // CubeState.faces 형태의 새 배열 (키 순서는 기존 CubeState와 같게 유지)
+  toFaces(): Faces {
+    const size = this.size;
+    const faces = {} as Faces;
+    STATE_FACES.forEach(face => {
+      const f = FACES.indexOf(face);
+      faces[face] = Array.from({ length: size }, (_, row) => {
+        const offset = (f * size + row) * size;
+        return Array.from(this.stickers.subarray(offset, offset + size), code => PALETTE[code]);
+      });
+    });
+    return faces;
+  }
+
+  // URFDLB facelet 문자열 - 홀수 크기는 센터 색으로 면을 판별, 짝수 크기는 표준 배색
+  toFacelets(): string {
+    const size = this.size;
+    const area = size * size;
+    const letters: string[] = [...FACE_ORDER];
+    if (size % 2 === 1) {
+      const center = (area - 1) / 2;
+      FACE_ORDER.forEach((face, f) => {
+        letters[this.stickers[f * area + center]] = face;
+      });
+    }
+    return Array.from(this.stickers, code => letters[code]).join('');
+  }
+}
@@ -0,0 +1,55 @@
+import { CubeModel, RubiksCube, getMoveBases, parseMove } from '../cubeLogic.js';
+import { CubeMove } from '../types.js';
+import { createRandom } from '../scramble.js';
+import { StickerModel, getMoveTable } from './StickerModel.js';
+import { CubieModel } from './CubieModel.js';
+
+// 회전 처리량 측정: npm run bench:moves [-- 측정 시간(ms)]
+const DURATION_MS = parseInt(process.argv[2] || '1000');
+const SIZES = [2, 3, 4, 5, 7];
+const SEQUENCE_LENGTH = 1000;
+
+// 시간이 다 될 때까지 run(반복 횟수)을 호출하고 초당 회전 수 반환
+function measure(run: (iterations: number) => void): number {
+  run(SEQUENCE_LENGTH);   // 워밍업
+  let moves = 0;
+  const start = process.hrtime.bigint();
+  let elapsed = 0;
+  while (elapsed < DURATION_MS) {
+    run(SEQUENCE_LENGTH);
+    moves += SEQUENCE_LENGTH;
+    elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+  }
+  return moves / (elapsed / 1000);
+}
+
+function format(rate: number): string {
+  return rate >= 1e6 ? `${(rate / 1e6).toFixed(2)}M` : `${(rate / 1e3).toFixed(0)}k`;
+}
+
+console.log(`Move throughput (${DURATION_MS} ms per measurement)`);
+console.log('size  model         model.apply  RubiksCube.executeMove');
+
+for (const size of SIZES) {
+  const random = createRandom(size);
+  const bases = getMoveBases(size);
+  const moves = Array.from({ length: SEQUENCE_LENGTH }, () =>
+    `${bases[Math.floor(random() * bases.length)]}${['', '\'', '2'][Math.floor(random() * 3)]}` as CubeMove);
+  const tables = moves.map(move => {
+    const { turn, times } = parseMove(move, size)!;
+    return getMoveTable(size, turn, times);
+  });
+
+  // RubiksCube와 같은 내부 표현 (3x3은 CubieModel)
+  const model: CubeModel = size === 3 ? new CubieModel() : new StickerModel(size);
+  const modelRate = measure(() => {
+    for (const table of tables) model.apply(table);
+  });
+
+  const cubeRate = measure(() => {
+    const cube = new RubiksCube(size);   // 히스토리가 무한히 쌓이지 않도록 매번 새로 생성
+    for (const move of moves) cube.executeMove(move);
+  });
+
+  console.log(`${`${size}x${size}`.padEnd(6)}${model.constructor.name.padEnd(14)}${`${format(modelRate)}/s`.padEnd(13)}${format(cubeRate)}/s`);
+}
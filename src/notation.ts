@@ -0,0 +1,176 @@
+import { CubeMove } from './types.js';
+import { isValidMove } from './cubeLogic.js';
+
+// 한 번의 호출로 펼칠 수 있는 최대 회전 수 (중첩 반복으로 인한 폭주 방지)
+export const MAX_ALGORITHM_MOVES = 1000;
+
+// 알고리즘 문법 오류 (position은 입력 문자열 내 0-based 위치)
+export class AlgorithmParseError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'AlgorithmParseError';
+  }
+}
+
+// 회전의 역회전: R <-> R', R2 <-> R2
+export function invertMove(move: CubeMove): CubeMove {
+  if (move.endsWith('\'')) return move.slice(0, -1) as CubeMove;
+  if (move.endsWith('2')) return move;
+  return `${move}'` as CubeMove;
+}
+
+export function invertMoves(moves: CubeMove[]): CubeMove[] {
+  return [...moves].reverse().map(invertMove);
+}
+
+/**
+ * 큐브 표기법 문자열을 회전 목록으로 펼친다. 지원 문법:
+ *   R U R' U'        기본 회전 (R2, R3, R2' 등 횟수 표기 포함)
+ *   2R 3Rw           4x4 이상의 층 번호 회전
+ *   (R U2)2          그룹 반복, (R U)' 그룹 역회전
+ *   [A, B]           커뮤테이터 = A B A' B'
+ *   [A: B]           컨쥬게이트 = A B A'
+ *   // 또는 /* 로 시작하는 주석
+ * 모든 토큰을 검증한 뒤 결과를 반환하므로 오류가 있으면 아무 회전도 반환하지 않는다.
+ */
+export function parseAlgorithm(text: string, size: number = 3): CubeMove[] {
+  const parser = new AlgorithmParser(text, size);
+  return parser.parse();
+}
+
+class AlgorithmParser {
+  private pos = 0;
+
+  constructor(private readonly text: string, private readonly size: number) {}
+
+  parse(): CubeMove[] {
+    const moves = this.parseSequence();
+    this.skipWhitespace();
+    if (this.pos < this.text.length) {
+      throw new AlgorithmParseError(`Unexpected '${this.text[this.pos]}'`, this.pos);
+    }
+    return moves;
+  }
+
+  private parseSequence(): CubeMove[] {
+    const moves: CubeMove[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      const ch = this.text[this.pos];
+      if (ch === undefined || ch === ')' || ch === ']' || ch === ',' || ch === ':') {
+        return moves;
+      }
+      this.append(moves, this.parseItem());
+    }
+  }
+
+  private parseItem(): CubeMove[] {
+    const start = this.pos;
+    const ch = this.text[this.pos];
+
+    if (ch === '(') {
+      this.pos++;
+      const inner = this.parseSequence();
+      this.expect(')', start);
+      return this.applySuffix(inner);
+    }
+
+    if (ch === '[') {
+      this.pos++;
+      const a = this.parseSequence();
+      this.skipWhitespace();
+      const separator = this.text[this.pos];
+      if (separator !== ',' && separator !== ':') {
+        throw new AlgorithmParseError('Expected \',\' or \':\' in bracket expression', this.pos);
+      }
+      this.pos++;
+      const b = this.parseSequence();
+      this.expect(']', start);
+      const expanded = separator === ','
+        ? [...a, ...b, ...invertMoves(a), ...invertMoves(b)]
+        : [...a, ...b, ...invertMoves(a)];
+      return this.applySuffix(expanded);
+    }
+
+    return this.parseMove();
+  }
+
+  // 단일 회전 토큰 - R4처럼 제자리로 돌아오는 회전은 빈 목록
+  private parseMove(): CubeMove[] {
+    const start = this.pos;
+    const match = /^(\d*[A-Za-z]w?)(\d*)(['’]?)/.exec(this.text.slice(this.pos));
+    if (!match || match[0].length === 0) {
+      throw new AlgorithmParseError(`Unexpected '${this.text[this.pos]}'`, this.pos);
+    }
+    this.pos += match[0].length;
+
+    const [, base, amountText, prime] = match;
+    const amount = amountText === '' ? 1 : parseInt(amountText);
+    const turns = ((prime ? -amount : amount) % 4 + 4) % 4;
+    if (!isValidMove(base, this.size)) {
+      throw new AlgorithmParseError(`Unknown move '${match[0]}'`, start);
+    }
+    if (turns === 0) {
+      return [];
+    }
+
+    const move = turns === 1 ? base : turns === 2 ? `${base}2` : `${base}'`;
+    return [move as CubeMove];
+  }
+
+  // 그룹 뒤의 반복 횟수와 역회전 표기 처리: (..)2, (..)', (..)2'
+  private applySuffix(moves: CubeMove[]): CubeMove[] {
+    const match = /^(\d*)(['’]?)/.exec(this.text.slice(this.pos))!;
+    this.pos += match[0].length;
+
+    const base = match[2] ? invertMoves(moves) : moves;
+    const repeat = match[1] === '' ? 1 : parseInt(match[1]);
+    if (base.length === 0) {
+      return [];   // 빈 그룹은 몇 번 반복해도 빈 목록
+    }
+    if (repeat > MAX_ALGORITHM_MOVES || base.length * repeat > MAX_ALGORITHM_MOVES) {
+      throw new AlgorithmParseError(`Algorithm expands to more than ${MAX_ALGORITHM_MOVES} moves`, this.pos);
+    }
+
+    const result: CubeMove[] = [];
+    for (let i = 0; i < repeat; i++) {
+      result.push(...base);
+    }
+    return result;
+  }
+
+  private append(target: CubeMove[], moves: CubeMove[]): void {
+    if (target.length + moves.length > MAX_ALGORITHM_MOVES) {
+      throw new AlgorithmParseError(`Algorithm expands to more than ${MAX_ALGORITHM_MOVES} moves`, this.pos);
+    }
+    target.push(...moves);
+  }
+
+  private expect(ch: string, openedAt: number): void {
+    this.skipWhitespace();
+    if (this.text[this.pos] !== ch) {
+      throw new AlgorithmParseError(`Unclosed '${this.text[openedAt]}'`, openedAt);
+    }
+    this.pos++;
+  }
+
+  // 공백과 주석 건너뛰기
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length) {
+      if (/\s/.test(this.text[this.pos])) {
+        this.pos++;
+      } else if (this.text.startsWith('//', this.pos)) {
+        const end = this.text.indexOf('\n', this.pos);
+        this.pos = end < 0 ? this.text.length : end + 1;
+      } else if (this.text.startsWith('/*', this.pos)) {
+        const end = this.text.indexOf('*/', this.pos + 2);
+        if (end < 0) {
+          throw new AlgorithmParseError('Unterminated comment', this.pos);
+        }
+        this.pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+}
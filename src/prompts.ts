@@ -0,0 +1,73 @@
+import { GameSession } from './types.js';
+import { analyzeCube } from './cfop.js';
+import { stateToFacelets } from './facelets.js';
+
+export type PromptName = 'solve-beginner' | 'solve-cfop' | 'review-solve';
+
+// 등록하는 MCP 프롬프트 (이름 -> 설명)
+export const PROMPTS: Record<PromptName, string> = {
+  'solve-beginner': "Solve this cube step by step with the beginner's layer-by-layer method",
+  'solve-cfop': 'Solve this cube with CFOP (cross, F2L, OLL, PLL), naming each recognized case',
+  'review-solve': 'Review the moves played in this game and suggest a shorter solution'
+};
+
+const BEGINNER_STEPS = [
+  'White cross: bring the four white edges around the white center, matching the side centers.',
+  'White corners: insert the four white corners to finish the first layer.',
+  'Middle layer: insert the four edges without yellow into the second layer.',
+  'Yellow cross: orient the last-layer edges (F R U R\' U\' F\').',
+  'Yellow edges: permute the last-layer edges to match the side centers.',
+  'Yellow corners: move the last-layer corners to their places, then twist them (R\' D\' R D) until the cube is solved.'
+];
+
+/**
+ * 프롬프트 본문. 게임 상태는 리소스로 함께 넣으므로 여기서는 현재 진행도와 풀이 방법만 설명한다.
+ */
+export function promptText(name: PromptName, session: GameSession): string {
+  const state = session.cubeState;
+  const analysis = analyzeCube(state);
+  const done = analysis.stages.length > 0 ? analysis.stages.join(', ') : 'none';
+  const intro = [
+    `Game ${session.id} is a ${state.size}x${state.size} cube${state.solved ? ' that is already solved' : ''}.`,
+    `Facelets (URFDLB): ${stateToFacelets(state)}`,
+    `Solved pieces: ${analysis.solvedCubies}/${analysis.totalCubies}. Completed CFOP stages: ${done}.`
+  ];
+  const tools = `Play with the manipulateCube and applyAlgorithm tools on gameId "${session.id}", check progress with analyzeCube, and call finish when the cube is solved.`;
+
+  switch (name) {
+    case 'solve-beginner':
+      return [
+        ...intro,
+        '',
+        "Solve the cube with the beginner's layer-by-layer method, one step at a time:",
+        ...BEGINNER_STEPS.map((step, i) => `${i + 1}. ${step}`),
+        state.size !== 3 ? 'This is not a 3x3: first pair up the edges and solve the centers so the cube can be solved like a 3x3.' : '',
+        'Before each step, say which step you are on and why the next moves work.',
+        tools
+      ].filter(line => line !== '').join('\n');
+
+    case 'solve-cfop':
+      return [
+        ...intro,
+        analysis.crossFace ? `The most advanced cross is on the ${analysis.crossFace} face (${analysis.crossEdges}/4 edges), with ${analysis.f2lPairs}/4 F2L pairs solved.` : '',
+        analysis.ollCase ? `Current last-layer orientation case: ${analysis.ollCase}.` : '',
+        analysis.pllCase ? `Current last-layer permutation case: ${analysis.pllCase}.` : '',
+        '',
+        'Solve the cube with CFOP: cross, the four F2L pairs, OLL and PLL. Continue from the stages already completed.',
+        'Name each OLL and PLL case you recognize and the algorithm you use for it, and keep the move count low.',
+        tools
+      ].filter(line => line !== '').join('\n');
+
+    case 'review-solve': {
+      const moves = session.history ? session.history.moves.slice(0, session.history.cursor) : state.moveHistory;
+      return [
+        ...intro,
+        `Scramble: ${session.scramble ? session.scramble.moves.join(' ') : 'unknown'}`,
+        `Moves played (${moves.length}): ${moves.length > 0 ? moves.join(' ') : 'none'}`,
+        '',
+        'Review this solve. Point out wasted moves (cancelling turns, detours, repeated algorithms), say which solving stages took the most moves,',
+        'and suggest a shorter solution. The solveCube tool gives a near-optimal reference for a 3x3.'
+      ].join('\n');
+    }
+  }
+}
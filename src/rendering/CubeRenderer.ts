@@ -0,0 +1,251 @@
+import { CubeState } from '../types.js';
+import { LayerTurn, parseMove } from '../cubeLogic.js';
+import { stickerGeometry, Vec3 } from '../model/StickerModel.js';
+import { PngEncoder } from './PngEncoder.js';
+
+type FaceKey = keyof CubeState['faces'];
+type Point = [number, number];
+
+export type CubeView = 'net' | 'isometric';
+export const CUBE_VIEWS: readonly CubeView[] = ['net', 'isometric'];
+
+export interface RenderOptions {
+  view?: CubeView;       // 전개도(기본값) 또는 U/F/R 세 면 등각 투영
+  move?: string;         // 지정하면 이 회전이 움직이는 줄에 방향 화살표 표시
+  faceSize?: number;     // 면 한 변의 픽셀 크기
+}
+
+interface Shape {
+  points: Point[];
+  fill: string;
+}
+
+const STICKER_COLORS: Record<string, string> = {
+  W: '#ffffff',
+  Y: '#ffd500',
+  R: '#c41e3a',
+  O: '#ff5800',
+  B: '#0051ba',
+  G: '#009e60'
+};
+const FRAME_COLOR = '#1a1a1a';
+const ARROW_COLOR = '#222222';
+const ARROW_OUTLINE = '#ffffff';
+const BACKGROUND = '#ffffff';
+const PADDING = 10;
+const DEFAULT_FACE_SIZE = 120;
+
+// 전개도 배치 (면 단위 좌표): U 위, L F R B 가운데 줄, D 아래
+const NET_LAYOUT: Record<FaceKey, Point> = {
+  top: [1, 0],
+  left: [0, 1],
+  front: [1, 1],
+  right: [2, 1],
+  back: [3, 1],
+  bottom: [1, 2]
+};
+const NET_GAP = 0.05;   // 면 사이 간격 (면 크기 대비)
+const ISOMETRIC_FACES: FaceKey[] = ['top', 'front', 'right'];
+
+/**
+ * CubeState를 SVG/PNG 이미지로 그린다. 면을 다각형 목록으로 만든 뒤 두 형식이 같은 도형을 출력하므로
+ * 브라우저 없이도 에이전트에게 큐브 그림을 보여줄 수 있다.
+ */
+export class CubeRenderer {
+  private shapes: Shape[] = [];
+  private width = 0;
+  private height = 0;
+
+  constructor(private readonly state: CubeState, options: RenderOptions = {}) {
+    const view = options.view ?? 'net';
+    if (!CUBE_VIEWS.includes(view)) {
+      throw new Error(`Unknown view "${view}" (expected ${CUBE_VIEWS.join(' or ')})`);
+    }
+
+    let turn: LayerTurn | undefined;
+    if (options.move) {
+      const parsed = parseMove(options.move, state.size);
+      if (!parsed) {
+        throw new Error(`Invalid move ${options.move} for a ${state.size}x${state.size} cube`);
+      }
+      // X' 는 같은 방향 3번으로 파싱되므로 화살표는 반대 방향 (X2는 원래 방향)
+      turn = parsed.times === 3 ? { ...parsed.turn, direction: -parsed.turn.direction as 1 | -1 } : parsed.turn;
+    }
+
+    const faceSize = options.faceSize ?? DEFAULT_FACE_SIZE;
+    const projectors = view === 'net' ? this.netProjectors(faceSize) : this.isometricProjectors(faceSize);
+    for (const [face, project] of projectors) {
+      this.drawFace(face, project);
+    }
+    if (turn) {
+      for (const [face, project] of projectors) {
+        this.drawArrows(face, project, turn);
+      }
+    }
+    this.fitToCanvas();
+  }
+
+  toSvg(): string {
+    const polygons = this.shapes.map(({ points, fill }) =>
+      `  <polygon points="${points.map(([x, y]) => `${round(x)},${round(y)}`).join(' ')}" fill="${fill}"/>`);
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}">`,
+      `  <rect width="100%" height="100%" fill="${BACKGROUND}"/>`,
+      ...polygons,
+      '</svg>',
+      ''
+    ].join('\n');
+  }
+
+  toPng(): Buffer {
+    const png = new PngEncoder(this.width, this.height, BACKGROUND);
+    for (const { points, fill } of this.shapes) {
+      png.fillPolygon(points, fill);
+    }
+    return png.encode();
+  }
+
+  // 면 격자 좌표 (u = 열, v = 행, 0..size) -> 화면 좌표
+  private netProjectors(faceSize: number): [FaceKey, (u: number, v: number) => Point][] {
+    const cell = faceSize / this.state.size;
+    return (Object.keys(NET_LAYOUT) as FaceKey[]).map(face => {
+      const [fx, fy] = NET_LAYOUT[face];
+      const originX = fx * faceSize * (1 + NET_GAP);
+      const originY = fy * faceSize * (1 + NET_GAP);
+      return [face, (u: number, v: number): Point => [originX + u * cell, originY + v * cell]];
+    });
+  }
+
+  private isometricProjectors(faceSize: number): [FaceKey, (u: number, v: number) => Point][] {
+    const scale = faceSize / (2 * this.state.size);
+    const cos30 = Math.cos(Math.PI / 6);
+    return ISOMETRIC_FACES.map(face => {
+      const { origin, colStep, rowStep, normal } = this.faceFrame(face);
+      return [face, (u: number, v: number): Point => {
+        // 스티커 중심은 바깥 층 중심에 있으므로 법선 방향으로 1만큼 밀어 표면에 맞춤
+        const p = [0, 1, 2].map(i =>
+          origin[i] + (u - 0.5) * colStep[i] + (v - 0.5) * rowStep[i] + normal[i]);
+        return [(p[0] - p[2]) * cos30 * scale, ((p[0] + p[2]) / 2 - p[1]) * scale];
+      }];
+    });
+  }
+
+  private drawFace(face: FaceKey, project: (u: number, v: number) => Point): void {
+    const size = this.state.size;
+    const quad = (u0: number, v0: number, u1: number, v1: number): Point[] =>
+      [project(u0, v0), project(u1, v0), project(u1, v1), project(u0, v1)];
+
+    this.shapes.push({ points: quad(-0.04, -0.04, size + 0.04, size + 0.04), fill: FRAME_COLOR });
+    this.state.faces[face].forEach((row, r) => row.forEach((color, c) => {
+      this.shapes.push({
+        points: quad(c + 0.06, r + 0.06, c + 0.94, r + 0.94),
+        fill: STICKER_COLORS[color] ?? '#888888'
+      });
+    }));
+  }
+
+  /**
+   * 회전축과 평행한 면에서, 돌아가는 층 묶음마다 움직이는 방향으로 화살표 하나를 그린다.
+   * 축에 수직인 면(R 회전의 R 면 등)에는 그리지 않는다.
+   */
+  private drawArrows(face: FaceKey, project: (u: number, v: number) => Point, turn: LayerTurn): void {
+    const size = this.state.size;
+    const axis = ['x', 'y', 'z'].indexOf(turn.axis);
+    const { origin, colStep, rowStep, normal } = this.faceFrame(face);
+    if (normal[axis] !== 0) return;
+
+    // 회전 방향(오른손 법칙)의 접선 = direction * (축 x 법선)
+    const axisVector: Vec3 = [0, 0, 0];
+    axisVector[axis] = 1;
+    const tangent = cross(axisVector, normal).map(t => t * turn.direction);
+
+    // 층 번호 -> 이 면에서의 열(또는 행) 번호
+    const alongRows = colStep[axis] !== 0;   // 층이 열 하나에 대응하면 화살표는 행 방향(v)으로 진행
+    const step = alongRows ? colStep[axis] : rowStep[axis];
+    const forward = dot(tangent, alongRows ? rowStep : colStep) > 0;
+
+    for (const block of contiguousBlocks(turn.layers)) {
+      const lines = block.map(layer => ((2 * layer - (size - 1)) - origin[axis]) / step);
+      const line = lines.reduce((a, b) => a + b, 0) / lines.length + 0.5;
+      const [start, end] = forward ? [0.3, size - 0.3] : [size - 0.3, 0.3];
+      const toPoint = (along: number, across: number): Point =>
+        alongRows ? project(line + across, along) : project(along, line + across);
+
+      this.pushArrow(start, end, toPoint, 0.1, ARROW_OUTLINE);
+      this.pushArrow(start, end, toPoint, 0, ARROW_COLOR);
+    }
+  }
+
+  // along 방향으로 start -> end 화살표 (몸통 사각형 + 머리 삼각형), grow만큼 두껍게 그리면 외곽선이 됨
+  private pushArrow(start: number, end: number, toPoint: (along: number, across: number) => Point, grow: number, fill: string): void {
+    const sign = Math.sign(end - start);
+    const halfWidth = 0.12 + grow;
+    const headBase = end - sign * 0.55;
+    const headHalfWidth = 0.38 + 1.5 * grow;
+    const tip = end + sign * 2 * grow;
+
+    this.shapes.push({
+      points: [toPoint(start - sign * grow, -halfWidth), toPoint(headBase, -halfWidth), toPoint(headBase, halfWidth), toPoint(start - sign * grow, halfWidth)],
+      fill
+    });
+    this.shapes.push({
+      points: [toPoint(headBase, -headHalfWidth), toPoint(tip, 0), toPoint(headBase, headHalfWidth)],
+      fill
+    });
+  }
+
+  // 면의 (0, 0) 스티커 위치와 열/행 한 칸의 3D 이동량
+  private faceFrame(face: FaceKey): { origin: Vec3; colStep: Vec3; rowStep: Vec3; normal: Vec3 } {
+    const size = this.state.size;
+    const { pos: origin, normal } = stickerGeometry(face, 0, 0, size);
+    const colStep = stickerGeometry(face, 0, 1, size).pos.map((v, i) => v - origin[i]) as Vec3;
+    const rowStep = stickerGeometry(face, 1, 0, size).pos.map((v, i) => v - origin[i]) as Vec3;
+    return { origin, colStep, rowStep, normal };
+  }
+
+  // 모든 도형이 여백 안에 들어오도록 이동하고 캔버스 크기 결정
+  private fitToCanvas(): void {
+    const points = this.shapes.flatMap(shape => shape.points);
+    const minX = Math.min(...points.map(p => p[0]));
+    const minY = Math.min(...points.map(p => p[1]));
+    const maxX = Math.max(...points.map(p => p[0]));
+    const maxY = Math.max(...points.map(p => p[1]));
+
+    for (const shape of this.shapes) {
+      shape.points = shape.points.map(([x, y]) => [x - minX + PADDING, y - minY + PADDING]);
+    }
+    this.width = Math.ceil(maxX - minX + 2 * PADDING);
+    this.height = Math.ceil(maxY - minY + 2 * PADDING);
+  }
+}
+
+export function renderCubeSvg(state: CubeState, options?: RenderOptions): string {
+  return new CubeRenderer(state, options).toSvg();
+}
+
+export function renderCubePng(state: CubeState, options?: RenderOptions): Buffer {
+  return new CubeRenderer(state, options).toPng();
+}
+
+// [0, 1, 3] -> [[0, 1], [3]]
+function contiguousBlocks(layers: number[]): number[][] {
+  const blocks: number[][] = [];
+  for (const layer of [...layers].sort((a, b) => a - b)) {
+    const last = blocks[blocks.length - 1];
+    if (last && last[last.length - 1] === layer - 1) last.push(layer);
+    else blocks.push([layer]);
+  }
+  return blocks;
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
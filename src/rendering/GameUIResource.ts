@@ -0,0 +1,135 @@
+import { createUIResource, uiActionResultToolCall, UIResource } from '@mcp-ui/server';
+import { GameSession } from '../types.js';
+import { renderCubeSvg } from './CubeRenderer.js';
+import { AccessLevel, gamePageUrl } from '../access.js';
+
+export type GameUIMode = 'interactive' | 'iframe' | 'link';
+export const GAME_UI_MODES: readonly GameUIMode[] = ['interactive', 'iframe', 'link'];
+
+// 버튼으로 제공하는 회전 (바깥 면만 - 나머지는 3D 뷰에서)
+const FACE_MOVES = ['U', 'D', 'L', 'R', 'F', 'B'];
+const MOVE_BUTTONS = ['', '\'', '2'].map(suffix => FACE_MOVES.map(face => face + suffix));
+
+/**
+ * MCP UI(@mcp-ui/server) 리소스로 게임을 보여준다.
+ *   interactive  큐브 그림 + 회전 버튼. 버튼은 호스트에 manipulateCube 도구 호출을 보내고,
+ *                그림은 시각화 서버의 WebSocket 이벤트를 받아 갱신된다.
+ *   iframe       시각화 서버의 3D 게임 페이지를 그대로 임베드
+ *   link         게임 페이지 링크만
+ * 게임 페이지 링크는 level의 토큰을 담는다 - 소유자 토큰을 이미 받은 쪽이 아니면 spectator.
+ */
+export function createGameUIResource(session: GameSession, baseUrl: string, mode: GameUIMode = 'interactive', level: AccessLevel = 'owner'): UIResource {
+  const gameUrl = gamePageUrl(baseUrl, session, level);
+
+  switch (mode) {
+    case 'iframe':
+      return createUIResource({
+        uri: `ui://game-view/${session.id}`,
+        content: { type: 'externalUrl', iframeUrl: gameUrl },
+        encoding: 'text'
+      });
+    case 'link':
+      return createUIResource({
+        uri: `ui://game-link/${session.id}`,
+        content: { type: 'rawHtml', htmlString: `<a href="${escapeHtml(gameUrl)}" target="_blank">Click to Play!</a>` },
+        encoding: 'text'
+      });
+    case 'interactive':
+      return createUIResource({
+        uri: `ui://game-cube/${session.id}`,
+        content: { type: 'rawHtml', htmlString: interactiveHtml(session, baseUrl, gameUrl, level) },
+        encoding: 'text'
+      });
+    default:
+      throw new Error(`Unknown UI mode "${mode}" (expected ${GAME_UI_MODES.join(', ')})`);
+  }
+}
+
+function interactiveHtml(session: GameSession, baseUrl: string, gameUrl: string, level: AccessLevel): string {
+  const { id: gameId, cubeState } = session;
+  // 첫 화면은 서버에서 그린 그림 - 시각화 서버에 닿지 않는 호스트에서도 보임
+  const initialImage = `data:image/svg+xml;base64,${Buffer.from(renderCubeSvg(cubeState, { faceSize: 90 })).toString('base64')}`;
+  // 소유자용이면 버튼의 도구 호출에 소유자 토큰을 넣음 (HTTP MCP 연결은 토큰이 필요)
+  const ownerToken = level === 'owner' ? session.access?.ownerToken : undefined;
+  const button = (label: string, toolName: string, params: Record<string, unknown>) =>
+    `<button data-action="${escapeHtml(JSON.stringify(uiActionResultToolCall(toolName, { gameId, ...(ownerToken ? { token: ownerToken } : {}), ...params })))}">${escapeHtml(label)}</button>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+  body { font-family: Arial, sans-serif; margin: 8px; color: #222; }
+  .header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 6px; }
+  .solved { color: #1a7f37; font-weight: bold; }
+  #cube { display: block; max-width: 100%; }
+  .controls { display: grid; grid-template-columns: repeat(6, 1fr); gap: 4px; margin-top: 6px; }
+  button { padding: 6px 0; font-size: 14px; cursor: pointer; }
+  .footer { display: flex; justify-content: space-between; align-items: center; margin-top: 6px; }
+</style>
+</head>
+<body>
+<div class="header">
+  <strong>${cubeState.size}x${cubeState.size} Rubik's Cube</strong>
+  <span id="status"${session.status === 'completed' ? ' class="solved"' : ''}>${statusText(cubeState.moveHistory.length, session.status)}</span>
+</div>
+<img id="cube" src="${initialImage}" alt="Cube ${escapeHtml(gameId)}">
+<div class="controls">
+${MOVE_BUTTONS.flat().map(move => `  ${button(move, 'manipulateCube', { move })}`).join('\n')}
+</div>
+<div class="footer">
+  <span>${button('Undo', 'undoMove', {})} ${button('Redo', 'redoMove', {})}</span>
+  <a href="${escapeHtml(gameUrl)}" target="_blank">Open 3D view</a>
+</div>
+<script src="${escapeHtml(baseUrl)}/socket.io/socket.io.js"></script>
+<script>
+  const gameId = ${scriptJson(gameId)};
+  const baseUrl = ${scriptJson(baseUrl)};
+  const token = ${scriptJson(session.access?.spectatorToken ?? '')};   // 그림과 실시간 갱신은 보기 권한이면 충분
+  const image = document.getElementById('cube');
+  const status = document.getElementById('status');
+
+  function refresh() {
+    image.src = baseUrl + '/api/cube/' + encodeURIComponent(gameId) + '/image.svg?token=' + encodeURIComponent(token) + '&t=' + Date.now();
+  }
+
+  // 버튼 -> 호스트에 도구 호출 요청 (MCP UI 'tool' 액션)
+  document.querySelectorAll('button[data-action]').forEach(button => {
+    button.addEventListener('click', () => {
+      window.parent.postMessage(JSON.parse(button.dataset.action), '*');
+    });
+  });
+
+  // 도구 호출이든 웹 뷰어든 게임이 바뀌면 그림과 상태 갱신
+  if (window.io) {
+    const socket = io(baseUrl);
+    socket.on('connect', () => socket.emit('joinGame', gameId, token));
+    socket.on('gameState', ({ state, status: gameStatus }) => {
+      status.textContent = gameStatus === 'completed' ? 'Solved!' : 'Moves: ' + state.moveHistory.length;
+      status.className = gameStatus === 'completed' ? 'solved' : '';
+      refresh();
+    });
+    socket.on('sessionExpired', ({ reason }) => {
+      status.textContent = { expired: 'Game expired', deleted: 'Game deleted' }[reason] || 'Game not found';
+      status.className = '';
+      document.querySelectorAll('button[data-action]').forEach(button => { button.disabled = true; });
+    });
+  }
+</script>
+</body>
+</html>
+`;
+}
+
+function statusText(moves: number, status: GameSession['status']): string {
+  return status === 'completed' ? 'Solved!' : `Moves: ${moves}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// <script> 안에 넣을 JSON - </script> 로 끝나지 않도록 < 이스케이프
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
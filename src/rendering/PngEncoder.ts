@@ -0,0 +1,117 @@
+import zlib from 'zlib';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * RGB 픽셀 버퍼와 단색 다각형 채우기만 지원하는 최소 PNG 인코더 (zlib 외 의존성 없음).
+ */
+export class PngEncoder {
+  private pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number, background: string = '#ffffff') {
+    this.pixels = new Uint8Array(width * height * 3);
+    const [r, g, b] = parseColor(background);
+    for (let i = 0; i < this.pixels.length; i += 3) {
+      this.pixels[i] = r;
+      this.pixels[i + 1] = g;
+      this.pixels[i + 2] = b;
+    }
+  }
+
+  // 볼록 다각형 채우기 - 픽셀 중심이 다각형 안에 있으면 칠함
+  fillPolygon(points: [number, number][], color: string): void {
+    const [r, g, b] = parseColor(color);
+    const xs = points.map(p => p[0]);
+    const ys = points.map(p => p[1]);
+    const minX = Math.max(0, Math.floor(Math.min(...xs)));
+    const maxX = Math.min(this.width - 1, Math.ceil(Math.max(...xs)));
+    const minY = Math.max(0, Math.floor(Math.min(...ys)));
+    const maxY = Math.min(this.height - 1, Math.ceil(Math.max(...ys)));
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if (insideConvex(points, x + 0.5, y + 0.5)) {
+          const i = (y * this.width + x) * 3;
+          this.pixels[i] = r;
+          this.pixels[i + 1] = g;
+          this.pixels[i + 2] = b;
+        }
+      }
+    }
+  }
+
+  encode(): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8;   // 비트 깊이
+    header[9] = 2;   // 트루컬러 RGB
+    header[10] = 0;
+    header[11] = 0;
+    header[12] = 0;
+
+    // 각 행 앞에 필터 타입 0(None)
+    const stride = this.width * 3;
+    const raw = Buffer.alloc((stride + 1) * this.height);
+    for (let y = 0; y < this.height; y++) {
+      raw[y * (stride + 1)] = 0;
+      raw.set(this.pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+
+    return Buffer.concat([
+      PNG_SIGNATURE,
+      chunk('IHDR', header),
+      chunk('IDAT', zlib.deflateSync(raw)),
+      chunk('IEND', Buffer.alloc(0))
+    ]);
+  }
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+function crc32(data: Buffer): number {
+  let c = 0xffffffff;
+  for (const byte of data) {
+    c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// 모든 변에 대해 같은 쪽에 있으면 내부 (점의 방향은 시계/반시계 모두 허용)
+function insideConvex(points: [number, number][], x: number, y: number): boolean {
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    const cross = (x2 - x1) * (y - y1) - (y2 - y1) * (x - x1);
+    if (cross !== 0) {
+      if (sign === 0) sign = Math.sign(cross);
+      else if (Math.sign(cross) !== sign) return false;
+    }
+  }
+  return true;
+}
+
+function parseColor(color: string): [number, number, number] {
+  const hex = color.replace('#', '');
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
@@ -0,0 +1,61 @@
+import { GameSession } from './types.js';
+import { describeHistory, moveRecords } from './history.js';
+import { describeTimer } from './timer.js';
+import { analyzeCube } from './cfop.js';
+import { stateToFacelets } from './facelets.js';
+
+// MCP 리소스 주소: 게임 목록과 게임 하나
+export const GAMES_RESOURCE_URI = 'cube://games';
+export const GAME_RESOURCE_TEMPLATE = 'cube://games/{gameId}';
+
+export function gameResourceUri(gameId: string): string {
+  return `${GAMES_RESOURCE_URI}/${encodeURIComponent(gameId)}`;
+}
+
+// cube://games/{gameId} 에서 게임 ID (게임 주소가 아니면 null)
+export function gameIdFromUri(uri: string): string | null {
+  const match = uri.match(/^cube:\/\/games\/([^/]+)$/);
+  if (!match) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+// 게임 목록 한 줄 (listGames 도구, cube://games 리소스) - expiresAt은 GameManager.getExpiry 값
+export function describeGameSummary(session: GameSession, expiresAt: number | null) {
+  return {
+    gameId: session.id,
+    uri: gameResourceUri(session.id),
+    size: session.cubeState.size,
+    status: session.status,
+    moves: session.history?.cursor ?? session.cubeState.moveHistory.length,
+    timed: session.timer !== undefined,
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastActivity: new Date(session.lastActivity).toISOString(),
+    expiresAt: expiresAt === null ? null : new Date(expiresAt).toISOString()
+  };
+}
+
+/**
+ * cube://games/{gameId} 리소스 내용: 상태, 시각이 붙은 회전 히스토리, 진행도 분석.
+ * history.moves는 되돌린 회전까지 전부이고 cursor까지가 현재 상태.
+ */
+export function describeGameResource(session: GameSession, expiresAt: number | null) {
+  const state = session.cubeState;
+  return {
+    ...describeGameSummary(session, expiresAt),
+    facelets: stateToFacelets(state),
+    cube: state,
+    scramble: session.scramble ?? null,
+    history: {
+      ...describeHistory(session),
+      moves: moveRecords(session.history!)
+    },
+    analysis: analyzeCube(state),
+    timer: describeTimer(session) ?? null
+  };
+}
@@ -0,0 +1,61 @@
+import { ScrambleInfo, ScrambleMode } from './types.js';
+import { RubiksCube } from './cubeLogic.js';
+import { invertMoves } from './notation.js';
+import { CubieCube } from './solver/CubieCube.js';
+import { solveCubieCube } from './solver/TwoPhaseSolver.js';
+
+export const SCRAMBLE_MODES: readonly ScrambleMode[] = ['moves', 'random-state'];
+export const MAX_SEED = 0xffffffff;
+
+export interface ScrambleOptions {
+  length?: number;       // 'moves' 방식의 회전 수
+  seed?: number;         // 생략하면 무작위 seed를 만들어 기록
+  mode?: ScrambleMode;
+}
+
+// 시드 기반 PRNG (mulberry32) - 같은 seed면 같은 수열
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * 큐브를 섞고 재현에 필요한 정보(seed, 방식, 섞기 순서)를 반환한다.
+ *   moves         중복/상쇄 회전이 없는 무작위 회전 length개
+ *   random-state  도달 가능한 상태 중 균일하게 하나를 고른 뒤 솔버 해법의 역순으로 섞음 (2x2, 3x3)
+ */
+export function scrambleCube(cube: RubiksCube, { length = 20, seed = randomSeed(), mode = 'moves' }: ScrambleOptions = {}): ScrambleInfo {
+  if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+    throw new Error(`Seed must be an integer between 0 and ${MAX_SEED}`);
+  }
+  if (!SCRAMBLE_MODES.includes(mode)) {
+    throw new Error(`Unknown scramble mode "${mode}" (expected ${SCRAMBLE_MODES.join(' or ')})`);
+  }
+
+  const random = createRandom(seed);
+
+  if (mode === 'moves') {
+    return { seed, mode, moves: cube.scramble(length, random) };
+  }
+
+  if (cube.getSize() > 3) {
+    throw new Error('Random-state scrambles are only available for 2x2 and 3x3 cubes');
+  }
+
+  // 3x3 무작위 상태의 코너 배치는 2x2에서도 균일한 무작위 상태가 됨
+  // 추가 탐색 없이 첫 해법을 사용해야 seed만으로 같은 순서가 재현됨
+  const { solution } = solveCubieCube(CubieCube.random(random), { timeoutMs: 0 });
+  const moves = invertMoves(solution);
+  cube.executeMoves(moves);
+  return { seed, mode, moves };
+}
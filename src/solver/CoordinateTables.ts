@@ -0,0 +1,122 @@
+import { CubieCube, BASIC_MOVES } from './CubieCube.js';
+
+export const N_MOVES = 18;
+export const N_TWIST = 2187;
+export const N_FLIP = 2048;
+export const N_SLICE = 495;
+export const N_CORNER_PERM = 40320;
+export const N_EDGE_PERM = 40320;
+export const N_SLICE_PERM = 24;
+
+// Phase 2에서 허용되는 회전: U, U2, U', R2, F2, D, D2, D', L2, B2
+export const PHASE2_MOVES = [0, 1, 2, 4, 7, 9, 10, 11, 13, 16];
+
+/**
+ * Two-phase 탐색에 필요한 좌표 이동 테이블과 가지치기(pruning) 테이블.
+ * 생성 비용이 크므로 한 번만 만들어 공유한다 (서버는 시작할 때 prepareSolver로 만듦).
+ */
+export class CoordinateTables {
+  private static instance: CoordinateTables | null = null;
+
+  readonly twistMove: Uint16Array;
+  readonly flipMove: Uint16Array;
+  readonly sliceMove: Uint16Array;
+  readonly cornerPermMove: Uint16Array;
+  readonly edgePermMove: Uint16Array;
+  readonly slicePermMove: Uint16Array;
+
+  readonly sliceTwistPrune: Int8Array;
+  readonly sliceFlipPrune: Int8Array;
+  readonly cornerSlicePrune: Int8Array;
+  readonly edgeSlicePrune: Int8Array;
+
+  private constructor() {
+    this.twistMove = buildMoveTable(N_TWIST,
+      (c, i) => c.setTwist(i), c => c.getTwist());
+    this.flipMove = buildMoveTable(N_FLIP,
+      (c, i) => c.setFlip(i), c => c.getFlip());
+    this.sliceMove = buildMoveTable(N_SLICE,
+      (c, i) => c.setSlice(i), c => c.getSlice());
+    this.cornerPermMove = buildMoveTable(N_CORNER_PERM,
+      (c, i) => c.setCornerPerm(i), c => c.getCornerPerm());
+    this.edgePermMove = buildMoveTable(N_EDGE_PERM,
+      (c, i) => c.setEdgePerm(i), c => c.getEdgePerm(), PHASE2_MOVES);
+    this.slicePermMove = buildMoveTable(N_SLICE_PERM,
+      (c, i) => c.setSlicePerm(i), c => c.getSlicePerm(), PHASE2_MOVES);
+
+    this.sliceTwistPrune = buildPruneTable(N_SLICE, N_TWIST, this.sliceMove, this.twistMove,
+      [...Array(N_MOVES).keys()]);
+    this.sliceFlipPrune = buildPruneTable(N_SLICE, N_FLIP, this.sliceMove, this.flipMove,
+      [...Array(N_MOVES).keys()]);
+    this.cornerSlicePrune = buildPruneTable(N_SLICE_PERM, N_CORNER_PERM, this.slicePermMove,
+      this.cornerPermMove, PHASE2_MOVES);
+    this.edgeSlicePrune = buildPruneTable(N_SLICE_PERM, N_EDGE_PERM, this.slicePermMove,
+      this.edgePermMove, PHASE2_MOVES);
+  }
+
+  static get(): CoordinateTables {
+    if (!CoordinateTables.instance) {
+      CoordinateTables.instance = new CoordinateTables();
+    }
+    return CoordinateTables.instance;
+  }
+}
+
+// 각 좌표 값에 18개 회전을 적용한 결과를 기록 (face를 4번 돌리면 원래대로 돌아옴)
+function buildMoveTable(
+  size: number,
+  set: (cube: CubieCube, index: number) => void,
+  get: (cube: CubieCube) => number,
+  allowedMoves?: number[]
+): Uint16Array {
+  const table = new Uint16Array(size * N_MOVES);
+  const cube = new CubieCube();
+
+  for (let i = 0; i < size; i++) {
+    set(cube, i);
+    for (let face = 0; face < 6; face++) {
+      for (let power = 0; power < 4; power++) {
+        cube.multiply(BASIC_MOVES[face]);
+        const move = face * 3 + power;
+        if (power < 3 && (!allowedMoves || allowedMoves.includes(move))) {
+          table[i * N_MOVES + move] = get(cube);
+        }
+      }
+    }
+  }
+  return table;
+}
+
+// 두 좌표의 곱 공간에서 해결 상태까지의 최소 회전 수 (BFS)
+function buildPruneTable(
+  sizeA: number,
+  sizeB: number,
+  moveA: Uint16Array,
+  moveB: Uint16Array,
+  moves: number[]
+): Int8Array {
+  const table = new Int8Array(sizeA * sizeB).fill(-1);
+  table[0] = 0;
+  let filled = 1;
+  let depth = 0;
+
+  while (filled < table.length) {
+    let added = 0;
+    for (let i = 0; i < table.length; i++) {
+      if (table[i] !== depth) continue;
+      const a = Math.floor(i / sizeB);
+      const b = i % sizeB;
+      for (const m of moves) {
+        const next = moveA[a * N_MOVES + m] * sizeB + moveB[b * N_MOVES + m];
+        if (table[next] === -1) {
+          table[next] = depth + 1;
+          added++;
+        }
+      }
+    }
+    if (added === 0) break;
+    filled += added;
+    depth++;
+  }
+  return table;
+}
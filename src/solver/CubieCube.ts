@@ -0,0 +1,380 @@
+import { CubeState } from '../types.js';
+
+// 면 순서 (Kociemba facelet 표기): U R F D L B
+export const FACE_ORDER = ['U', 'R', 'F', 'D', 'L', 'B'] as const;
+export type FaceName = typeof FACE_ORDER[number];
+
+// CubeState.faces 키와 facelet 면 이름의 대응
+export const FACE_KEYS: Record<FaceName, keyof CubeState['faces']> = {
+  U: 'top',
+  R: 'right',
+  F: 'front',
+  D: 'bottom',
+  L: 'left',
+  B: 'back'
+};
+
+// 코너 위치: URF, UFL, ULB, UBR, DFR, DLF, DBL, DRB
+export const CORNER_FACELETS: number[][] = [
+  [8, 9, 20], [6, 18, 38], [0, 36, 47], [2, 45, 11],
+  [29, 26, 15], [27, 44, 24], [33, 53, 42], [35, 17, 51]
+];
+
+// 엣지 위치: UR, UF, UL, UB, DR, DF, DL, DB, FR, FL, BL, BR
+export const EDGE_FACELETS: number[][] = [
+  [5, 10], [7, 19], [3, 37], [1, 46], [32, 16], [28, 25],
+  [30, 43], [34, 52], [23, 12], [21, 41], [50, 39], [48, 14]
+];
+
+export const CORNER_NAMES = ['URF', 'UFL', 'ULB', 'UBR', 'DFR', 'DLF', 'DBL', 'DRB'];
+export const EDGE_NAMES = ['UR', 'UF', 'UL', 'UB', 'DR', 'DF', 'DL', 'DB', 'FR', 'FL', 'BL', 'BR'];
+
+export const CORNER_COLORS: FaceName[][] = [
+  ['U', 'R', 'F'], ['U', 'F', 'L'], ['U', 'L', 'B'], ['U', 'B', 'R'],
+  ['D', 'F', 'R'], ['D', 'L', 'F'], ['D', 'B', 'L'], ['D', 'R', 'B']
+];
+
+export const EDGE_COLORS: FaceName[][] = [
+  ['U', 'R'], ['U', 'F'], ['U', 'L'], ['U', 'B'], ['D', 'R'], ['D', 'F'],
+  ['D', 'L'], ['D', 'B'], ['F', 'R'], ['F', 'L'], ['B', 'L'], ['B', 'R']
+];
+
+/**
+ * 코너/엣지의 순열(permutation)과 방향(orientation)으로 표현한 3x3 큐브.
+ * 솔버의 좌표 계산과 상태 유효성 검사에 사용된다.
+ */
+export class CubieCube {
+  cp: number[];
+  co: number[];
+  ep: number[];
+  eo: number[];
+
+  constructor(cp?: number[], co?: number[], ep?: number[], eo?: number[]) {
+    this.cp = cp ? [...cp] : [0, 1, 2, 3, 4, 5, 6, 7];
+    this.co = co ? [...co] : [0, 0, 0, 0, 0, 0, 0, 0];
+    this.ep = ep ? [...ep] : [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+    this.eo = eo ? [...eo] : [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+  }
+
+  clone(): CubieCube {
+    return new CubieCube(this.cp, this.co, this.ep, this.eo);
+  }
+
+  // CubeState를 URFDLB facelet 문자열(54자)로 변환 - 각 면의 색은 센터 색으로 판별
+  static stateToFacelets(state: CubeState): string {
+    const colorToFace = new Map<string, FaceName>();
+    for (const face of FACE_ORDER) {
+      const grid = state.faces[FACE_KEYS[face]];
+      if (grid.length !== 3 || grid.some(row => row.length !== 3)) {
+        throw new Error('Only 3x3 cubes are supported by the solver');
+      }
+      const center = grid[1][1];
+      if (colorToFace.has(center)) {
+        throw new Error(`Invalid cube state: duplicate center color ${center}`);
+      }
+      colorToFace.set(center, face);
+    }
+
+    let facelets = '';
+    for (const face of FACE_ORDER) {
+      for (const row of state.faces[FACE_KEYS[face]]) {
+        for (const color of row) {
+          const mapped = colorToFace.get(color);
+          if (!mapped) {
+            throw new Error(`Invalid cube state: unknown sticker color ${color}`);
+          }
+          facelets += mapped;
+        }
+      }
+    }
+    return facelets;
+  }
+
+  // facelet 문자열로부터 큐비 상태 생성
+  static fromFacelets(facelets: string): CubieCube {
+    if (facelets.length !== 54) {
+      throw new Error(`Invalid facelet string: expected 54 characters, got ${facelets.length}`);
+    }
+
+    const cube = new CubieCube();
+    const f = facelets.split('') as FaceName[];
+    const usedCorners = new Set<number>();
+    const usedEdges = new Set<number>();
+
+    for (let i = 0; i < 8; i++) {
+      const [a, b, c] = CORNER_FACELETS[i];
+      let ori = 0;
+      for (ori = 0; ori < 3; ori++) {
+        const face = f[CORNER_FACELETS[i][ori]];
+        if (face === 'U' || face === 'D') break;
+      }
+      if (ori === 3) {
+        throw new Error(`Invalid cube state: corner at ${CORNER_NAMES[i]} has no U/D sticker`);
+      }
+      const col1 = f[[a, b, c][(ori + 1) % 3]];
+      const col2 = f[[a, b, c][(ori + 2) % 3]];
+      const corner = CORNER_COLORS.findIndex(colors => colors[1] === col1 && colors[2] === col2);
+      if (corner < 0) {
+        throw new Error(`Invalid cube state: corner at ${CORNER_NAMES[i]} has an impossible color combination`);
+      }
+      if (usedCorners.has(corner)) {
+        throw new Error(`Invalid cube state: corner ${CORNER_NAMES[corner]} appears twice (again at ${CORNER_NAMES[i]})`);
+      }
+      usedCorners.add(corner);
+      cube.cp[i] = corner;
+      cube.co[i] = ori;
+    }
+
+    for (let i = 0; i < 12; i++) {
+      const [a, b] = EDGE_FACELETS[i];
+      const edge = EDGE_COLORS.findIndex(colors =>
+        (colors[0] === f[a] && colors[1] === f[b]) || (colors[0] === f[b] && colors[1] === f[a]));
+      if (edge < 0) {
+        throw new Error(`Invalid cube state: edge at ${EDGE_NAMES[i]} has an impossible color combination`);
+      }
+      if (usedEdges.has(edge)) {
+        throw new Error(`Invalid cube state: edge ${EDGE_NAMES[edge]} appears twice (again at ${EDGE_NAMES[i]})`);
+      }
+      usedEdges.add(edge);
+      cube.ep[i] = edge;
+      cube.eo[i] = EDGE_COLORS[edge][0] === f[a] ? 0 : 1;
+    }
+
+    return cube;
+  }
+
+  // 균일한 무작위 상태 (방향 합과 순열 패리티가 맞는, 풀 수 있는 상태만)
+  static random(random: () => number = Math.random): CubieCube {
+    const shuffle = (n: number) => {
+      const perm = Array.from({ length: n }, (_, i) => i);
+      for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [perm[i], perm[j]] = [perm[j], perm[i]];
+      }
+      return perm;
+    };
+    const orientations = (n: number, modulo: number) => {
+      const values = Array.from({ length: n - 1 }, () => Math.floor(random() * modulo));
+      const sum = values.reduce((a, b) => a + b, 0);
+      return [...values, (modulo - sum % modulo) % modulo];
+    };
+
+    const cp = shuffle(8);
+    const ep = shuffle(12);
+    if (permutationParity(cp) !== permutationParity(ep)) {
+      [ep[0], ep[1]] = [ep[1], ep[0]];
+    }
+    return new CubieCube(cp, orientations(8, 3), ep, orientations(12, 2));
+  }
+
+  static fromState(state: CubeState): CubieCube {
+    return CubieCube.fromFacelets(CubieCube.stateToFacelets(state));
+  }
+
+  // this = this * other (other의 움직임을 이어서 적용)
+  multiply(other: CubieCube): void {
+    const cp = new Array<number>(8);
+    const co = new Array<number>(8);
+    for (let i = 0; i < 8; i++) {
+      cp[i] = this.cp[other.cp[i]];
+      co[i] = (this.co[other.cp[i]] + other.co[i]) % 3;
+    }
+    const ep = new Array<number>(12);
+    const eo = new Array<number>(12);
+    for (let i = 0; i < 12; i++) {
+      ep[i] = this.ep[other.ep[i]];
+      eo[i] = (this.eo[other.ep[i]] + other.eo[i]) % 2;
+    }
+    this.cp = cp;
+    this.co = co;
+    this.ep = ep;
+    this.eo = eo;
+  }
+
+  isSolved(): boolean {
+    return this.cp.every((c, i) => c === i) && this.co.every(o => o === 0)
+      && this.ep.every((e, i) => e === i) && this.eo.every(o => o === 0);
+  }
+
+  // 물리적으로 도달 가능한 상태인지 확인 - 문제가 있으면 설명을 반환
+  verify(): string | null {
+    if (this.co.reduce((a, b) => a + b, 0) % 3 !== 0) {
+      return 'corner orientation parity is invalid (a corner is twisted)';
+    }
+    if (this.eo.reduce((a, b) => a + b, 0) % 2 !== 0) {
+      return 'edge orientation parity is invalid (an edge is flipped)';
+    }
+    if (permutationParity(this.cp) !== permutationParity(this.ep)) {
+      return 'permutation parity is invalid (two pieces are swapped)';
+    }
+    return null;
+  }
+
+  // ===== Phase 1 좌표 =====
+
+  // 코너 방향: 0..2186
+  getTwist(): number {
+    let twist = 0;
+    for (let i = 0; i < 7; i++) twist = twist * 3 + this.co[i];
+    return twist;
+  }
+
+  setTwist(twist: number): void {
+    let sum = 0;
+    for (let i = 6; i >= 0; i--) {
+      this.co[i] = twist % 3;
+      sum += this.co[i];
+      twist = Math.floor(twist / 3);
+    }
+    this.co[7] = (3 - sum % 3) % 3;
+  }
+
+  // 엣지 방향: 0..2047
+  getFlip(): number {
+    let flip = 0;
+    for (let i = 0; i < 11; i++) flip = flip * 2 + this.eo[i];
+    return flip;
+  }
+
+  setFlip(flip: number): void {
+    let sum = 0;
+    for (let i = 10; i >= 0; i--) {
+      this.eo[i] = flip % 2;
+      sum += this.eo[i];
+      flip = Math.floor(flip / 2);
+    }
+    this.eo[11] = sum % 2;
+  }
+
+  // UD 슬라이스 엣지(FR, FL, BL, BR)의 위치 조합: 0..494 (0 = 슬라이스에 위치)
+  getSlice(): number {
+    let slice = 0;
+    let found = 0;
+    for (let j = 11; j >= 0; j--) {
+      if (this.ep[j] >= 8) {
+        slice += binomial(11 - j, found + 1);
+        found++;
+      }
+    }
+    return slice;
+  }
+
+  setSlice(slice: number): void {
+    let remaining = 4;
+    let sliceEdge = 8;
+    let otherEdge = 0;
+    for (let j = 0; j < 12; j++) {
+      const c = binomial(11 - j, remaining);
+      if (remaining > 0 && slice >= c) {
+        this.ep[j] = sliceEdge++;
+        slice -= c;
+        remaining--;
+      } else {
+        this.ep[j] = otherEdge++;
+      }
+    }
+  }
+
+  // ===== Phase 2 좌표 =====
+
+  // 코너 순열: 0..40319
+  getCornerPerm(): number {
+    return permutationIndex(this.cp, 0, 8);
+  }
+
+  setCornerPerm(index: number): void {
+    this.cp = indexToPermutation(index, 8);
+  }
+
+  // U/D 층 엣지 8개의 순열: 0..40319 (phase 2에서만 유효)
+  getEdgePerm(): number {
+    return permutationIndex(this.ep, 0, 8);
+  }
+
+  setEdgePerm(index: number): void {
+    const perm = indexToPermutation(index, 8);
+    for (let i = 0; i < 8; i++) this.ep[i] = perm[i];
+  }
+
+  // 슬라이스 엣지 4개의 순열: 0..23 (phase 2에서만 유효)
+  getSlicePerm(): number {
+    return permutationIndex(this.ep.slice(8).map(e => e - 8), 0, 4);
+  }
+
+  setSlicePerm(index: number): void {
+    const perm = indexToPermutation(index, 4);
+    for (let i = 0; i < 4; i++) this.ep[8 + i] = perm[i] + 8;
+  }
+}
+
+// 기본 회전 (U R F D L B, 시계방향 90도)
+export const BASIC_MOVES: CubieCube[] = [
+  new CubieCube([3, 0, 1, 2, 4, 5, 6, 7], [0, 0, 0, 0, 0, 0, 0, 0],
+    [3, 0, 1, 2, 4, 5, 6, 7, 8, 9, 10, 11], [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+  new CubieCube([4, 1, 2, 0, 7, 5, 6, 3], [2, 0, 0, 1, 1, 0, 0, 2],
+    [8, 1, 2, 3, 11, 5, 6, 7, 4, 9, 10, 0], [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+  new CubieCube([1, 5, 2, 3, 0, 4, 6, 7], [1, 2, 0, 0, 2, 1, 0, 0],
+    [0, 9, 2, 3, 4, 8, 6, 7, 1, 5, 10, 11], [0, 1, 0, 0, 0, 1, 0, 0, 1, 1, 0, 0]),
+  new CubieCube([0, 1, 2, 3, 5, 6, 7, 4], [0, 0, 0, 0, 0, 0, 0, 0],
+    [0, 1, 2, 3, 5, 6, 7, 4, 8, 9, 10, 11], [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+  new CubieCube([0, 2, 6, 3, 4, 1, 5, 7], [0, 1, 2, 0, 0, 2, 1, 0],
+    [0, 1, 10, 3, 4, 5, 9, 7, 8, 2, 6, 11], [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+  new CubieCube([0, 1, 3, 7, 4, 5, 2, 6], [0, 0, 1, 2, 0, 0, 2, 1],
+    [0, 1, 2, 11, 4, 5, 6, 10, 8, 9, 3, 7], [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 1, 1])
+];
+
+// 18개 회전 (면 * 3 + 횟수-1): U U2 U' R R2 R' F F2 F' D D2 D' L L2 L' B B2 B'
+export const MOVE_CUBES: CubieCube[] = (() => {
+  const moves: CubieCube[] = [];
+  for (const basic of BASIC_MOVES) {
+    const cube = new CubieCube();
+    for (let power = 0; power < 3; power++) {
+      cube.multiply(basic);
+      moves.push(cube.clone());
+    }
+  }
+  return moves;
+})();
+
+export const MOVE_NAMES = FACE_ORDER.flatMap(face => [face, `${face}2`, `${face}'`]);
+
+function binomial(n: number, k: number): number {
+  if (k < 0 || n < k) return 0;
+  let result = 1;
+  for (let i = 0; i < k; i++) {
+    result = result * (n - i) / (i + 1);
+  }
+  return Math.round(result);
+}
+
+function permutationIndex(perm: number[], offset: number, n: number): number {
+  let index = 0;
+  for (let i = 0; i < n; i++) {
+    let smaller = 0;
+    for (let j = i + 1; j < n; j++) {
+      if (perm[offset + j] < perm[offset + i]) smaller++;
+    }
+    index = index * (n - i) + smaller;
+  }
+  return index;
+}
+
+function indexToPermutation(index: number, n: number): number[] {
+  const digits = new Array<number>(n);
+  for (let i = n - 1; i >= 0; i--) {
+    digits[i] = index % (n - i);
+    index = Math.floor(index / (n - i));
+  }
+  const available = Array.from({ length: n }, (_, i) => i);
+  return digits.map(d => available.splice(d, 1)[0]);
+}
+
+function permutationParity(perm: number[]): number {
+  let parity = 0;
+  for (let i = 0; i < perm.length; i++) {
+    for (let j = i + 1; j < perm.length; j++) {
+      if (perm[j] < perm[i]) parity ^= 1;
+    }
+  }
+  return parity;
+}
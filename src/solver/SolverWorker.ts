@@ -0,0 +1,105 @@
+import path from 'path';
+import { existsSync } from 'fs';
+import { Worker } from 'worker_threads';
+import { CubeSolution, CubeState } from '../types.js';
+import { SolveOptions, prepareSolver, solveCube } from './TwoPhaseSolver.js';
+
+// 워커에 보내는 요청과 응답 (실패하면 error에 메시지)
+export interface SolveRequest {
+  id: number;
+  state: CubeState;
+  options: SolveOptions;
+}
+
+export interface SolveReply {
+  id: number;
+  result?: CubeSolution;
+  error?: string;
+}
+
+// 컴파일된 워커 파일 (dist/solver/worker.js)
+const WORKER_FILE = path.join(__dirname, 'worker.js');
+
+/**
+ * 솔버를 별도 스레드에서 돌린다. 탐색은 시간 한도를 다 쓰므로 메인 스레드에서 돌리면
+ * 그동안 WebSocket, MCP, REST 요청이 모두 멈춘다. 요청은 워커 하나가 순서대로 푼다.
+ * 컴파일하지 않은 소스로 실행 중이면 (테스트) 워커 파일이 없으므로 같은 스레드에서 푼다.
+ */
+export class SolverWorker {
+  private worker: Worker | null = null;
+  private pending = new Map<number, { resolve: (result: CubeSolution) => void; reject: (error: Error) => void }>();
+  private nextId = 0;
+
+  // 워커를 띄워 테이블 생성을 첫 요청 전에 끝냄 (이미 떠 있으면 무시)
+  start(): void {
+    if (this.worker || !existsSync(WORKER_FILE)) {
+      return;
+    }
+
+    const worker = new Worker(WORKER_FILE);
+    worker.unref();   // 워커 때문에 프로세스가 끝나지 않는 일이 없도록
+    worker.on('message', ({ id, result, error }: SolveReply) => {
+      const request = this.pending.get(id);
+      this.pending.delete(id);
+      if (error !== undefined) {
+        request?.reject(new Error(error));
+      } else {
+        request?.resolve(result!);
+      }
+    });
+    worker.on('error', error => this.fail(worker, error));
+    worker.on('exit', code => this.fail(worker, new Error(`Solver worker exited with code ${code}`)));
+    this.worker = worker;
+  }
+
+  solve(state: CubeState, options: SolveOptions = {}): Promise<CubeSolution> {
+    this.start();
+    const worker = this.worker;
+    if (!worker) {
+      return new Promise(resolve => resolve(solveCube(state, options)));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ id, state, options } satisfies SolveRequest);
+    });
+  }
+
+  async close(): Promise<void> {
+    const worker = this.worker;
+    if (worker) {
+      this.fail(worker, new Error('Solver worker stopped'));
+      await worker.terminate();
+    }
+  }
+
+  // 워커가 죽으면 기다리던 요청을 모두 실패시키고 다음 요청에서 새로 띄움
+  private fail(worker: Worker, error: Error): void {
+    if (this.worker !== worker) {
+      return;
+    }
+    this.worker = null;
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+}
+
+// 모듈 단위로 공유하는 워커
+const sharedWorker = new SolverWorker();
+
+// 서버 시작 시 호출 - 메인 스레드(섞기, 힌트용)와 워커의 테이블을 요청 전에 만듦
+export function startSolver(): void {
+  prepareSolver();
+  sharedWorker.start();
+}
+
+export function solveCubeInWorker(state: CubeState, options?: SolveOptions): Promise<CubeSolution> {
+  return sharedWorker.solve(state, options);
+}
+
+export function stopSolver(): Promise<void> {
+  return sharedWorker.close();
+}
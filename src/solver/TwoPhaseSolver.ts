@@ -0,0 +1,230 @@
+import { CubeMove, CubeState, CubeSolution } from '../types.js';
+import { CubieCube, MOVE_CUBES, MOVE_NAMES } from './CubieCube.js';
+import {
+  CoordinateTables, N_MOVES, N_TWIST, N_FLIP, N_CORNER_PERM, N_EDGE_PERM, PHASE2_MOVES
+} from './CoordinateTables.js';
+
+export interface SolveOptions {
+  maxLength?: number;   // 허용하는 최대 해법 길이
+  timeoutMs?: number;   // 탐색 전체의 시간 한도 (0 = 첫 해에서 멈춤, 한도는 기본값)
+  maxNodes?: number;    // 시간 대신 탐색 노드 수로 다듬기를 제한 - 기계 속도와 무관하게 같은 해
+}
+
+export const MAX_SOLUTION_LENGTH = 30;
+export const MAX_SOLVER_TIMEOUT_MS = 30000;
+const DEFAULT_TIMEOUT_MS = 2000;
+const IS_PHASE2_MOVE = Array.from({ length: N_MOVES }, (_, m) => PHASE2_MOVES.includes(m));
+
+class SearchTimeout extends Error {}
+
+/**
+ * Kociemba two-phase 알고리즘 기반 솔버.
+ * Phase 1에서 큐브를 <U, D, R2, L2, F2, B2> 부분군으로 보내고 Phase 2에서 완성한다.
+ * 해를 찾은 뒤에도 시간 한도(또는 노드 예산) 안에서 더 짧은 해를 계속 찾는다. 한도 안에 해가 없으면 예외.
+ */
+export class TwoPhaseSolver {
+  private tables: CoordinateTables;
+  private cube!: CubieCube;
+  private moves: number[] = [];
+  private maxTotal = 0;
+  private deadline = 0;
+  private timedOut = false;
+  private nodes = 0;
+  private nodeLimit = Infinity;
+  private found: number[] | null = null;
+
+  constructor() {
+    this.tables = CoordinateTables.get();
+  }
+
+  solve(state: CubeState, options: SolveOptions = {}): CubeSolution {
+    return this.solveCubie(CubieCube.fromState(state), options);
+  }
+
+  solveCubie(cube: CubieCube, options: SolveOptions = {}): CubeSolution {
+    const startedAt = Date.now();
+    const error = cube.verify();
+    if (error) {
+      throw new Error(`Unsolvable cube state: ${error}`);
+    }
+
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const maxLength = options.maxLength ?? MAX_SOLUTION_LENGTH;
+    const maxNodes = options.maxNodes;
+    const refine = maxNodes !== undefined ? maxNodes > 0 : timeoutMs > 0;
+    let limit = maxLength;
+    let best: number[] | null = null;
+
+    this.cube = cube;
+    // 시간 한도는 탐색 시작부터 - 짧은 maxLength는 해가 없을 때 탐색이 매우 길어질 수 있음
+    // 노드 예산을 쓰면 시간 한도는 최대값으로 두어 안전장치로만 씀
+    this.deadline = startedAt + (maxNodes !== undefined ? MAX_SOLVER_TIMEOUT_MS : refine ? timeoutMs : DEFAULT_TIMEOUT_MS);
+    this.timedOut = false;
+    this.nodes = 0;
+    this.nodeLimit = Infinity;   // 첫 해는 노드 예산과 관계없이 찾음
+
+    // 찾은 해보다 한 수 짧은 길이로 반복 탐색
+    while (limit >= 0) {
+      const solution = this.search(limit);
+      if (!solution) break;
+      best = solution;
+      limit = solution.length - 1;
+      if (!refine) break;
+      this.nodeLimit = maxNodes ?? Infinity;   // 예산은 첫 해를 찾는 데 쓴 노드를 포함
+    }
+
+    if (!best) {
+      throw new Error(this.timedOut
+        ? `No solution within ${maxLength} moves found within the time budget (${Date.now() - startedAt} ms)`
+        : `No solution found within ${maxLength} moves`);
+    }
+
+    const solution = best.map(m => MOVE_NAMES[m] as CubeMove);
+    return {
+      solution,
+      length: solution.length,
+      searchTimeMs: Date.now() - startedAt
+    };
+  }
+
+  private search(limit: number): number[] | null {
+    this.maxTotal = limit;
+    this.found = null;
+    this.moves = [];
+
+    const twist = this.cube.getTwist();
+    const flip = this.cube.getFlip();
+    const slice = this.cube.getSlice();
+
+    try {
+      for (let depth = 0; depth <= limit; depth++) {
+        if (this.phase1(twist, flip, slice, 0, depth)) {
+          return this.found;
+        }
+      }
+    } catch (error) {
+      if (error instanceof SearchTimeout) {
+        this.timedOut = true;
+        return null;
+      }
+      throw error;
+    }
+    return null;
+  }
+
+  private phase1(twist: number, flip: number, slice: number, depth: number, togo: number): boolean {
+    if (togo === 0) {
+      if (twist !== 0 || flip !== 0 || slice !== 0) return false;
+      // 마지막 회전이 phase 2 회전이면 더 짧은 phase 1 해에서 이미 탐색됨
+      if (depth > 0 && IS_PHASE2_MOVE[this.moves[depth - 1]]) return false;
+      return this.startPhase2(depth);
+    }
+
+    this.checkDeadline();
+    const t = this.tables;
+    const lastFace = depth > 0 ? Math.floor(this.moves[depth - 1] / 3) : -1;
+
+    for (let face = 0; face < 6; face++) {
+      if (isRedundantFace(face, lastFace)) continue;
+      for (let power = 0; power < 3; power++) {
+        const m = face * 3 + power;
+        const nTwist = t.twistMove[twist * N_MOVES + m];
+        const nFlip = t.flipMove[flip * N_MOVES + m];
+        const nSlice = t.sliceMove[slice * N_MOVES + m];
+        const dist = Math.max(
+          t.sliceTwistPrune[nSlice * N_TWIST + nTwist],
+          t.sliceFlipPrune[nSlice * N_FLIP + nFlip]
+        );
+        if (dist > togo - 1) continue;
+
+        this.moves[depth] = m;
+        if (this.phase1(nTwist, nFlip, nSlice, depth + 1, togo - 1)) return true;
+      }
+    }
+    return false;
+  }
+
+  private startPhase2(depth1: number): boolean {
+    const cube = this.cube.clone();
+    for (let i = 0; i < depth1; i++) {
+      cube.multiply(MOVE_CUBES[this.moves[i]]);
+    }
+
+    const cornerPerm = cube.getCornerPerm();
+    const edgePerm = cube.getEdgePerm();
+    const slicePerm = cube.getSlicePerm();
+    const remaining = this.maxTotal - depth1;
+
+    for (let depth2 = 0; depth2 <= remaining; depth2++) {
+      if (this.phase2(cornerPerm, edgePerm, slicePerm, depth1, depth1 + depth2)) {
+        this.found = this.moves.slice(0, depth1 + depth2);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private phase2(cornerPerm: number, edgePerm: number, slicePerm: number, depth: number, end: number): boolean {
+    const t = this.tables;
+    const dist = Math.max(
+      t.cornerSlicePrune[slicePerm * N_CORNER_PERM + cornerPerm],
+      t.edgeSlicePrune[slicePerm * N_EDGE_PERM + edgePerm]
+    );
+    if (dist > end - depth) return false;
+    if (depth === end) return cornerPerm === 0 && edgePerm === 0 && slicePerm === 0;
+
+    this.checkDeadline();
+    const lastFace = depth > 0 ? Math.floor(this.moves[depth - 1] / 3) : -1;
+
+    for (const m of PHASE2_MOVES) {
+      const face = Math.floor(m / 3);
+      if (isRedundantFace(face, lastFace)) continue;
+
+      this.moves[depth] = m;
+      if (this.phase2(
+        t.cornerPermMove[cornerPerm * N_MOVES + m],
+        t.edgePermMove[edgePerm * N_MOVES + m],
+        t.slicePermMove[slicePerm * N_MOVES + m],
+        depth + 1,
+        end
+      )) return true;
+    }
+    return false;
+  }
+
+  // 시간 한도나 노드 예산을 넘으면 탐색 중단
+  private checkDeadline(): void {
+    if (++this.nodes > this.nodeLimit || (this.nodes % 1024 === 0 && Date.now() > this.deadline)) {
+      throw new SearchTimeout();
+    }
+  }
+}
+
+// 같은 면의 연속 회전, 그리고 반대 면 쌍(U-D 등)의 중복 순서를 제거
+function isRedundantFace(face: number, lastFace: number): boolean {
+  if (lastFace < 0) return false;
+  return face === lastFace || (face % 3 === lastFace % 3 && face < lastFace);
+}
+
+// 모듈 단위로 재사용하는 솔버 (테이블 생성은 최초 호출 시 한 번)
+let sharedSolver: TwoPhaseSolver | null = null;
+
+function getSolver(): TwoPhaseSolver {
+  if (!sharedSolver) {
+    sharedSolver = new TwoPhaseSolver();
+  }
+  return sharedSolver;
+}
+
+// 테이블을 미리 만듦 (첫 요청이 테이블 생성 시간을 기다리지 않도록)
+export function prepareSolver(): void {
+  getSolver();
+}
+
+export function solveCube(state: CubeState, options?: SolveOptions): CubeSolution {
+  return getSolver().solve(state, options);
+}
+
+export function solveCubieCube(cube: CubieCube, options?: SolveOptions): CubeSolution {
+  return getSolver().solveCubie(cube, options);
+}
@@ -0,0 +1,16 @@
+import { parentPort } from 'worker_threads';
+import { TwoPhaseSolver } from './TwoPhaseSolver.js';
+import { SolveReply, SolveRequest } from './SolverWorker.js';
+
+// 솔버 워커 진입점 - 테이블은 워커가 뜰 때 한 번 만들고 요청은 받은 순서대로 푼다
+const solver = new TwoPhaseSolver();
+
+parentPort!.on('message', ({ id, state, options }: SolveRequest) => {
+  let reply: SolveReply;
+  try {
+    reply = { id, result: solver.solve(state, options) };
+  } catch (error) {
+    reply = { id, error: (error as Error).message };
+  }
+  parentPort!.postMessage(reply);
+});
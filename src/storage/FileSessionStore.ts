@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import { GameSession } from '../types.js';
+import { SessionStore } from './SessionStore.js';
+
+// 세션마다 <gameId>.json 파일 하나씩 저장
+export class FileSessionStore implements SessionStore {
+  constructor(private readonly directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  load(): GameSession[] {
+    const sessions: GameSession[] = [];
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        sessions.push(JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf8')));
+      } catch (error) {
+        console.error(`⚠️ Skipping unreadable session file ${file}:`, (error as Error).message);
+      }
+    }
+    return sessions;
+  }
+
+  save(session: GameSession): void {
+    // 임시 파일에 쓴 뒤 rename - 쓰는 도중 종료되어도 이전 내용이 남음
+    const target = this.fileFor(session.id);
+    const temp = `${target}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(session));
+    fs.renameSync(temp, target);
+  }
+
+  delete(gameId: string): void {
+    fs.rmSync(this.fileFor(gameId), { force: true });
+  }
+
+  close(): void {}
+
+  private fileFor(gameId: string): string {
+    // gameId는 외부 입력이 될 수 있으므로 경로 문자 제거
+    return path.join(this.directory, `${gameId.replace(/[^A-Za-z0-9_-]/g, '_')}.json`);
+  }
+}
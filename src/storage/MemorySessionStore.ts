@@ -0,0 +1,15 @@
+import { GameSession } from '../types.js';
+import { SessionStore } from './SessionStore.js';
+
+// 기본 저장소 - 아무것도 기록하지 않으므로 프로세스가 재시작되면 세션이 사라짐
+export class MemorySessionStore implements SessionStore {
+  load(): GameSession[] {
+    return [];
+  }
+
+  save(_session: GameSession): void {}
+
+  delete(_gameId: string): void {}
+
+  close(): void {}
+}
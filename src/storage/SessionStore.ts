@@ -0,0 +1,36 @@
+import path from 'path';
+import { GameSession } from '../types.js';
+import { MemorySessionStore } from './MemorySessionStore.js';
+import { FileSessionStore } from './FileSessionStore.js';
+import { SqliteSessionStore } from './SqliteSessionStore.js';
+
+// 게임 세션 저장소 - 시작 시 load()로 복원하고, 세션이 바뀔 때마다 save()로 즉시 기록
+export interface SessionStore {
+  load(): GameSession[];
+  save(session: GameSession): void;
+  delete(gameId: string): void;
+  close(): void;
+}
+
+export type SessionStoreType = 'memory' | 'file' | 'sqlite';
+
+/**
+ * 환경변수로 저장소 선택:
+ *   SESSION_STORE=memory|file|sqlite (기본값 memory)
+ *   SESSION_STORE_PATH=세션 디렉토리(file) 또는 DB 파일 경로(sqlite)
+ */
+export function createSessionStore(
+  type: string = process.env.SESSION_STORE || 'memory',
+  location: string | undefined = process.env.SESSION_STORE_PATH
+): SessionStore {
+  switch (type) {
+    case 'memory':
+      return new MemorySessionStore();
+    case 'file':
+      return new FileSessionStore(path.resolve(location || 'sessions'));
+    case 'sqlite':
+      return new SqliteSessionStore(path.resolve(location || 'sessions.db'));
+    default:
+      throw new Error(`Unknown session store "${type}" (expected memory, file or sqlite)`);
+  }
+}
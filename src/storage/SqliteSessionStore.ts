@@ -0,0 +1,63 @@
+import { GameSession } from '../types.js';
+import { SessionStore } from './SessionStore.js';
+
+// better-sqlite3에서 사용하는 부분만 선언 (선택 의존성이라 타입 패키지 없이 사용)
+interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  pragma(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+// 세션을 JSON 문자열로 sessions 테이블에 저장 (better-sqlite3 필요)
+export class SqliteSessionStore implements SessionStore {
+  private db: SqliteDatabase;
+  private upsert: SqliteStatement;
+  private remove: SqliteStatement;
+
+  constructor(file: string) {
+    let Database: new (file: string) => SqliteDatabase;
+    try {
+      Database = require('better-sqlite3');
+    } catch {
+      throw new Error('SESSION_STORE=sqlite requires the optional "better-sqlite3" package (npm install better-sqlite3)');
+    }
+
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+    this.upsert = this.db.prepare(
+      'INSERT INTO sessions (id, data, updated_at) VALUES (?, ?, ?) ' +
+      'ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at'
+    );
+    this.remove = this.db.prepare('DELETE FROM sessions WHERE id = ?');
+  }
+
+  load(): GameSession[] {
+    const rows = this.db.prepare('SELECT data FROM sessions ORDER BY updated_at').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  save(session: GameSession): void {
+    this.upsert.run(session.id, JSON.stringify(session), session.lastActivity);
+  }
+
+  delete(gameId: string): void {
+    this.remove.run(gameId);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,134 @@
+import { GameSession, PlayerStats, SolveTimer, TimerStatus } from './types.js';
+import { detectStages } from './cfop.js';
+
+export const INSPECTION_MS = 15000;
+export const DEFAULT_PLAYER = 'anonymous';
+
+// 타이머 모드 기록 생성 - 관찰 시간은 지금부터 시작
+export function createTimer(player: string = DEFAULT_PLAYER, now: number = Date.now()): SolveTimer {
+  return {
+    player,
+    inspectionMs: INSPECTION_MS,
+    inspectionStartedAt: now,
+    splits: []
+  };
+}
+
+// 큐브 회전(x, y, z)은 관찰 중에 해도 타이머를 시작하지 않음
+export function isRotation(move: string): boolean {
+  return /^[xyz]/.test(move);
+}
+
+// 시작 시각 - 첫 회전 전이라도 관찰 시간이 끝났으면 그때 시작한 것으로 봄
+function startTime(timer: SolveTimer, now: number): number | undefined {
+  const inspectionEnd = timer.inspectionStartedAt + timer.inspectionMs;
+  return timer.startedAt ?? (now >= inspectionEnd ? inspectionEnd : undefined);
+}
+
+/**
+ * 큐브 상태가 바뀐 뒤 호출한다. turned = 면/층을 실제로 돌렸는지 (되돌리기 등은 false).
+ * 필요하면 타이머를 시작하고, 3x3이면 새로 도달한 CFOP 단계를 구간 기록에 남기며, 완성되면 멈춘다.
+ */
+export function updateTimer(session: GameSession, turned: boolean, now: number = Date.now()): void {
+  const timer = session.timer;
+  if (!timer || timer.finishedAt !== undefined) {
+    return;
+  }
+
+  const startedAt = startTime(timer, now) ?? (turned ? now : undefined);
+  if (startedAt === undefined) {
+    return;
+  }
+  timer.startedAt = startedAt;
+
+  const elapsed = now - startedAt;
+  const state = session.cubeState;
+  if (state.size === 3) {
+    const moveCount = session.history?.cursor ?? state.moveHistory.length;   // 게임 시작 이후 회전 수
+    for (const stage of detectStages(state).stages) {
+      if (!timer.splits.some(split => split.stage === stage)) {
+        timer.splits.push({ stage, timeMs: elapsed, moveCount });
+      }
+    }
+  }
+
+  if (state.solved) {
+    timer.finishedAt = now;
+    timer.timeMs = elapsed;
+  }
+}
+
+// 풀지 못한 채 게임을 끝내면 DNF
+export function finishTimer(session: GameSession, now: number = Date.now()): void {
+  const timer = session.timer;
+  if (!timer || timer.finishedAt !== undefined) {
+    return;
+  }
+  timer.startedAt = startTime(timer, now) ?? now;
+  timer.finishedAt = now;
+  timer.dnf = true;
+}
+
+export function describeTimer(session: GameSession, now: number = Date.now()): TimerStatus | undefined {
+  const timer = session.timer;
+  if (!timer) {
+    return undefined;
+  }
+
+  const startedAt = startTime(timer, now);
+  const phase = timer.finishedAt !== undefined ? 'finished' : startedAt !== undefined ? 'running' : 'inspection';
+  return {
+    player: timer.player,
+    phase,
+    inspectionRemainingMs: phase === 'inspection' ? timer.inspectionStartedAt + timer.inspectionMs - now : 0,
+    elapsedMs: startedAt === undefined ? 0 : (timer.finishedAt ?? now) - startedAt,
+    timeMs: timer.timeMs,
+    dnf: timer.dnf,
+    splits: timer.splits
+  };
+}
+
+/**
+ * 끝난 타이머 기록으로 플레이어별 통계를 계산한다 (끝난 순서 기준).
+ * aoN은 WCA 방식: 최근 N개에서 가장 빠른/느린 기록을 하나씩 빼고 평균, DNF는 가장 느린 기록으로 취급.
+ */
+export function computeStats(sessions: GameSession[], player?: string): PlayerStats[] {
+  const results = new Map<string, { finishedAt: number; time: number }[]>();
+  for (const { timer } of sessions) {
+    if (!timer || timer.finishedAt === undefined || (player !== undefined && timer.player !== player)) {
+      continue;
+    }
+    const list = results.get(timer.player) ?? [];
+    list.push({ finishedAt: timer.finishedAt, time: timer.dnf ? Infinity : timer.timeMs! });
+    results.set(timer.player, list);
+  }
+
+  return [...results.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, list]) => {
+      const times = list.sort((a, b) => a.finishedAt - b.finishedAt).map(result => result.time);
+      const finished = times.filter(Number.isFinite);
+      return {
+        player: name,
+        solves: finished.length,
+        dnfs: times.length - finished.length,
+        best: finished.length > 0 ? Math.min(...finished) : null,
+        mean: finished.length > 0 ? Math.round(finished.reduce((a, b) => a + b, 0) / finished.length) : null,
+        ao5: averageOf(times, 5),
+        ao12: averageOf(times, 12),
+        latest: times.length > 0 ? orDnf(times[times.length - 1]) : null
+      };
+    });
+}
+
+function averageOf(times: number[], count: number): number | 'DNF' | null {
+  if (times.length < count) {
+    return null;
+  }
+  const counted = times.slice(-count).sort((a, b) => a - b).slice(1, -1);
+  return orDnf(Math.round(counted.reduce((a, b) => a + b, 0) / counted.length));
+}
+
+function orDnf(time: number): number | 'DNF' {
+  return Number.isFinite(time) ? time : 'DNF';
+}
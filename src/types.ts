@@ -1,7 +1,8 @@
 // Cube state representation
 export interface CubeState {
+  size: number;          // N (N x N x N 큐브, 2-7)
   faces: {
-    front: string[][];   // 3x3 grid: ["R", "G", "B", ...]
+    front: string[][];   // NxN grid: ["R", "G", "B", ...]
     back: string[][];
     left: string[][];
     right: string[][];
@@ -17,13 +18,188 @@ export interface CubeResponse {
   gameId: string;
   cube: CubeState;
   scrambleMoves?: number;
+  scramble?: ScrambleInfo;
+  hintsUsed?: number;
+  timer?: TimerStatus;
+  analysis?: CubeAnalysis;
+  access?: GameAccessLinks;
   nextAction: 'manipulateCube' | 'finish' | null;
 }
 
-// 큐브 조작 명령
-export type CubeMove = 'U' | 'D' | 'L' | 'R' | 'F' | 'B' | 
-                'U\'' | 'D\'' | 'L\'' | 'R\'' | 'F\'' | 'B\'' |
-                'U2' | 'D2' | 'L2' | 'R2' | 'F2' | 'B2';
+// 지원하는 큐브 크기
+export const MIN_CUBE_SIZE = 2;
+export const MAX_CUBE_SIZE = 7;
+
+// 큐브 조작 명령: 면 회전, 슬라이스(M E S), wide 회전(Rw = r), 큐브 회전(x y z)
+export const MOVE_BASES = [
+  'U', 'D', 'L', 'R', 'F', 'B',
+  'M', 'E', 'S',
+  'Uw', 'Dw', 'Lw', 'Rw', 'Fw', 'Bw',
+  'u', 'd', 'l', 'r', 'f', 'b',
+  'x', 'y', 'z'
+] as const;
+
+export type MoveBase = typeof MOVE_BASES[number];
+
+type FaceLetter = 'U' | 'D' | 'L' | 'R' | 'F' | 'B';
+type MoveSuffix = '' | '\'' | '2';
+
+// 4x4 이상에서는 층 번호를 붙인 회전도 사용: 2R (두 번째 층), 3Rw (바깥 3개 층)
+export type CubeMove = `${MoveBase}${MoveSuffix}` | `${number}${FaceLetter}${'' | 'w'}${MoveSuffix}`;
+
+// 알고리즘 실행 중간 상태
+export interface AlgorithmStep {
+  index: number;
+  move: CubeMove;
+  faces: CubeState['faces'];
+  solved: boolean;
+}
+
+// 솔버 결과
+export interface CubeSolution {
+  solution: CubeMove[];
+  length: number;
+  searchTimeMs: number;
+}
+
+// 힌트 결과
+export interface CubeHint {
+  moves: CubeMove[];
+  reason: string;
+  remainingMoves: number;
+  hintsUsed: number;
+  hintsRemaining: number;
+}
+
+// 힌트 사용 기록 (점수 계산용)
+export interface HintRecord {
+  requestedAt: number;
+  moveNumber: number;
+  moves: CubeMove[];
+}
+
+// 회전을 실행한 쪽: MCP 도구 또는 웹(REST API, 게임 페이지)
+export type MoveActor = 'mcp' | 'web';
+
+// 되돌린 뒤 새 회전을 하면서 버려진 갈래
+export interface HistoryBranch {
+  fromIndex: number;
+  moves: CubeMove[];
+  timestamps?: number[];
+  actors?: MoveActor[];
+  abandonedAt: number;
+}
+
+// 되돌리기/다시하기를 위한 회전 히스토리 (cursor = 현재 적용된 회전 수)
+export interface MoveHistory {
+  initialState: CubeState;
+  moves: CubeMove[];
+  timestamps?: number[];   // moves와 같은 길이, 각 회전을 실행한 시각 (이전 버전 세션에는 없음)
+  actors?: MoveActor[];    // moves와 같은 길이, 각 회전을 실행한 쪽 (이전 버전 세션에는 없음)
+  cursor: number;
+  branches: HistoryBranch[];
+}
+
+// 회전 하나의 기록 (WebSocket move 이벤트, 히스토리 API) - 이전 버전 세션은 시각/실행한 쪽이 null
+export interface MoveRecord {
+  index: number;                 // 히스토리에서의 위치 (0부터)
+  move: CubeMove;
+  timestamp: number | null;
+  actor: MoveActor | null;
+}
+
+// 히스토리 위치 요약
+export interface HistoryPosition {
+  cursor: number;
+  totalMoves: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  branches: number;
+}
+
+// 섞기 방식: 무작위 회전 나열 또는 무작위 상태(WCA 방식)
+export type ScrambleMode = 'moves' | 'random-state';
+
+// 섞기 기록 - 같은 seed와 방식이면 같은 섞기를 재현
+export interface ScrambleInfo {
+  seed: number;
+  mode: ScrambleMode;
+  moves: CubeMove[];
+}
+
+// 세션 풀이 기록 (섞기 + 타임스탬프가 붙은 해법)
+export interface Reconstruction {
+  gameId: string;
+  size: number;
+  scramble: string | null;       // 시작 상태를 만드는 섞기 (알 수 없으면 null)
+  scrambleSeed?: number;
+  initialFacelets: string;
+  solution: { move: CubeMove; timeMs: number }[];   // timeMs = 첫 회전 기준 경과 시간
+  moveCount: number;
+  startedAt: number | null;      // 첫 회전 시각
+  durationMs: number;
+  solved: boolean;
+  url: string;                   // alg.cubing.net 재생 링크
+}
+
+// CFOP 단계 (3x3): 크로스, 첫 두 층, 윗면 방향, 윗면 순열(= 완성)
+export type SolveStage = 'cross' | 'f2l' | 'oll' | 'pll';
+
+// 큐브 진행도 분석 (CFOP 관련 값은 3x3만, 나머지 크기는 null)
+export interface CubeAnalysis {
+  stages: SolveStage[];            // 완료된 CFOP 단계
+  crossFace: keyof CubeState['faces'] | null;   // 가장 많이 진행된 크로스 면
+  crossColor: string | null;
+  crossEdges: number | null;       // 크로스 면의 맞은 엣지 수 (0-4)
+  f2lPairs: number | null;         // 맞은 F2L 페어 수 (0-4)
+  ollCase: string | null;          // F2L 완료 후 OLL 케이스, 예: "OLL 27 (Sune)"
+  pllCase: string | null;          // OLL 완료 후 PLL 케이스, 예: "T-perm" (U 회전만 남으면 "AUF")
+  solvedCubies: number;            // 제자리에 바른 방향으로 있는 조각 수 (고정 센터 제외)
+  totalCubies: number;
+  misorientedEdges: number | null; // 방향이 틀린 엣지 수 (F/B 축 기준, 0-12)
+}
+
+// 단계 구간 기록 - timeMs = 타이머 시작 기준 경과 시간
+export interface SolveSplit {
+  stage: SolveStage;
+  timeMs: number;
+  moveCount: number;
+}
+
+// 타이머 모드 기록: 관찰 시간 -> 첫 회전(또는 관찰 시간 종료)에 시작 -> 완성 시 정지
+export interface SolveTimer {
+  player: string;
+  inspectionMs: number;
+  inspectionStartedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  timeMs?: number;               // 완성 기록 (DNF면 없음)
+  dnf?: boolean;                 // 풀지 못하고 finish
+  splits: SolveSplit[];
+}
+
+// 응답용 타이머 상태
+export interface TimerStatus {
+  player: string;
+  phase: 'inspection' | 'running' | 'finished';
+  inspectionRemainingMs: number;
+  elapsedMs: number;
+  timeMs?: number;
+  dnf?: boolean;
+  splits: SolveSplit[];
+}
+
+// 플레이어별 기록 통계 (ms, DNF 포함 평균은 'DNF', 기록이 모자라면 null)
+export interface PlayerStats {
+  player: string;
+  solves: number;
+  dnfs: number;
+  best: number | null;
+  mean: number | null;
+  ao5: number | 'DNF' | null;
+  ao12: number | 'DNF' | null;
+  latest: number | 'DNF' | null;
+}
 
 // 게임 세션 관리
 export interface GameSession {
@@ -33,6 +209,163 @@ export interface GameSession {
   lastActivity: number;
   status: 'active' | 'completed';
   scrambleMoves?: number;
+  scramble?: ScrambleInfo;
+  hints?: HintRecord[];
+  history?: MoveHistory;
+  timer?: SolveTimer;
+  completedAt?: number;                  // 완성된 시각
+  gaveUpAt?: number;                     // 풀지 않은 채 finish한 시각
+  toolCalls?: Record<string, number>;    // 이 게임에 대한 MCP 도구 호출 수 (도구 이름별)
+  benchmark?: BenchmarkLink;
+  match?: MatchLink;
+  access?: GameAccess;                   // 없으면 (이전 버전 세션) 토큰 없이 누구나 조작 가능
+}
+
+// 게임별 접근 토큰 - owner는 조작, spectator는 보기만
+export interface GameAccess {
+  ownerToken: string;
+  spectatorToken: string;
+}
+
+// 게임을 만든 쪽에 돌려주는 토큰과 링크
+export interface GameAccessLinks extends GameAccess {
+  playUrl: string;     // 소유자 토큰이 붙은 게임 페이지
+  shareUrl: string;    // 보기 전용 공유 링크
+}
+
+// 벤치마크 스크램블 하나 - seed로 재현되며, 솔버 해법 길이를 효율 기준으로 사용
+export interface BenchmarkScramble {
+  index: number;
+  seed: number;
+  scramble: CubeMove[];
+  solverLength: number | null;   // 2단계 솔버 해법 길이 (3x3만, 스위트의 solverNodes로 다듬음)
+}
+
+// 벤치마크 스위트: 모든 실행이 같은 스크램블 목록을 풂
+export interface BenchmarkSuite {
+  id: string;
+  name: string;
+  size: number;
+  scrambleMode: ScrambleMode;
+  difficulty: number;
+  seed: number;                  // 스크램블 seed 목록을 만든 seed
+  solverNodes: number | null;    // 기준 해법(solverLength)을 다듬은 솔버 노드 예산 (3x3만)
+  scrambles: BenchmarkScramble[];
+  createdAt: number;
+}
+
+// 에이전트 실행 등록 - games는 스크램블 번호 -> 게임 ID
+export interface BenchmarkRun {
+  id: string;
+  suiteId: string;
+  agent: string;
+  model?: string;
+  config?: Record<string, unknown>;
+  createdAt: number;
+  games: Record<number, string>;
+}
+
+// 벤치마크 게임 세션에 남기는 연결 정보
+export interface BenchmarkLink {
+  suiteId: string;
+  runId: string;
+  scrambleIndex: number;
+}
+
+// 스크램블 하나에 대한 실행 기록
+export interface BenchmarkAttempt {
+  runId: string;
+  agent: string;
+  model: string | null;
+  scrambleIndex: number;
+  seed: number;
+  gameId: string | null;
+  status: 'pending' | 'active' | 'solved' | 'unsolved' | 'deleted';   // deleted = 게임이 삭제되거나 만료됨
+  moves: number;                 // 현재 적용된 회전 수 (큐브 회전 x y z 제외)
+  timeMs: number | null;         // 게임 생성부터 완성/finish까지
+  toolCalls: number;
+  solverCalls: number;
+  hintsUsed: number;
+  solverLength: number | null;
+  efficiency: number | null;     // solverLength / moves (푼 경우만)
+}
+
+// 리더보드 한 줄 - 평균은 푼 스크램블만
+export interface BenchmarkRunSummary {
+  rank: number;
+  runId: string;
+  agent: string;
+  model: string | null;
+  attempted: number;
+  solved: number;
+  solveRate: number;
+  meanMoves: number | null;
+  meanTimeMs: number | null;
+  meanEfficiency: number | null;
+  toolCalls: number;
+  hintsUsed: number;
+}
+
+export interface BenchmarkResults {
+  suite: Omit<BenchmarkSuite, 'scrambles'> & { scrambleCount: number };
+  leaderboard: BenchmarkRunSummary[];
+  attempts: BenchmarkAttempt[];
+}
+
+// 대결: 같은 seed로 섞은 게임을 참가자마다 하나씩 만들어 동시에 풂
+export interface Match {
+  id: string;
+  name: string;
+  size: number;
+  scrambleMode: ScrambleMode;
+  difficulty: number;
+  seed: number;
+  scramble: CubeMove[];
+  slots: MatchSlot[];            // 참가자 자리 하나 = 게임 하나
+  createdAt: number;
+}
+
+// 참가자 자리 - player가 null이면 아직 빈 자리
+export interface MatchSlot {
+  gameId: string;
+  player: string | null;
+  joinedAt: number | null;       // 기록은 자리를 잡은 시각부터 잼
+}
+
+// 대결 게임 세션에 남기는 연결 정보
+export interface MatchLink {
+  matchId: string;
+  slot: number;
+}
+
+// 점수판 한 줄 (참가한 자리만)
+export interface MatchStanding {
+  rank: number;
+  slot: number;
+  player: string;
+  gameId: string;
+  status: 'racing' | 'solved' | 'gave-up' | 'deleted';   // gave-up = 풀지 못한 채 finish
+  moves: number;                 // 현재 적용된 회전 수 (큐브 회전 x y z 제외)
+  stages: SolveStage[];
+  solvedCubies: number;
+  totalCubies: number;
+  joinedAt: number;
+  finishTimeMs: number | null;   // 자리를 잡은 시각부터 완성까지 (푼 경우만)
+}
+
+// 대결 점수판 - 푼 참가자는 기록 순, 나머지는 진행도 순
+export interface MatchScoreboard {
+  matchId: string;
+  name: string;
+  size: number;
+  seed: number;
+  scramble: CubeMove[];
+  status: 'waiting' | 'racing' | 'finished';   // waiting = 빈 자리가 남음
+  players: number;
+  openSlots: number;
+  winner: string | null;
+  standings: MatchStanding[];
+  createdAt: number;
 }
 
 // Colors for cube faces
@@ -0,0 +1,324 @@
+import { CubeMove, CubeState, COLORS, MIN_CUBE_SIZE, MAX_CUBE_SIZE } from './types.js';
+import { RubiksCube } from './cubeLogic.js';
+import { parseAlgorithm } from './notation.js';
+import { faceletsToState } from './facelets.js';
+import { CubieCube, FACE_ORDER, FACE_KEYS } from './solver/CubieCube.js';
+import { getMoveTable, stickerGeometry } from './model/StickerModel.js';
+
+type FaceKey = keyof CubeState['faces'];
+type Faces = CubeState['faces'];
+
+const FACES: FaceKey[] = FACE_ORDER.map(face => FACE_KEYS[face]);
+const KNOWN_COLORS: string[] = Object.values(COLORS);
+
+const OPPOSITE_FACES: Record<FaceKey, FaceKey> = {
+  top: 'bottom', bottom: 'top', front: 'back', back: 'front', left: 'right', right: 'left'
+};
+
+const OPPOSITE_COLORS: Record<string, string> = {
+  [COLORS.WHITE]: COLORS.YELLOW, [COLORS.YELLOW]: COLORS.WHITE,
+  [COLORS.RED]: COLORS.ORANGE, [COLORS.ORANGE]: COLORS.RED,
+  [COLORS.GREEN]: COLORS.BLUE, [COLORS.BLUE]: COLORS.GREEN
+};
+
+// 도달할 수 없는 큐브 상태 또는 잘못된 입력
+export class CubeValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CubeValidationError';
+  }
+}
+
+/**
+ * 시작 상태 입력을 해석하고 검증한다. 지원 형식:
+ *   - CubeState 객체 또는 그 JSON 문자열
+ *   - URFDLB facelet 문자열 (공백 없이 6 x N x N자, 3x3이면 54자)
+ *   - 섞기 문자열 (예: "R U R' U' F2"), 풀린 size x size 큐브에 적용
+ */
+export function parseInitialState(input: string | Partial<CubeState>, size: number = 3): CubeState {
+  if (typeof input !== 'string') {
+    return validateCubeState(input);
+  }
+
+  const text = input.trim();
+  if (text.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new CubeValidationError(`Invalid CubeState JSON: ${(error as Error).message}`);
+    }
+    return validateCubeState(parsed);
+  }
+
+  if (/^[URFDLB]+$/.test(text) && isFaceletLength(text.length)) {
+    let state: CubeState;
+    try {
+      state = faceletsToState(text);
+    } catch (error) {
+      throw new CubeValidationError((error as Error).message);
+    }
+    return validateCubeState(state);
+  }
+
+  const moves = parseAlgorithm(text, size);
+  const cube = new RubiksCube(size);
+  cube.executeMoves(moves);
+  return cube.getState();
+}
+
+/**
+ * CubeState가 실제 큐브에서 나올 수 있는 상태인지 검사하고 정규화된 복사본을 반환한다.
+ * 스티커 색과 개수, 센터 배치를 확인한 뒤 홀수 크기는 코너/가운데 엣지/센터를 3x3으로,
+ * 짝수 크기는 코너를 2x2로 보고 방향 합과 순열 패리티를 검사한다.
+ * 4x4 이상은 윙 엣지와 센터 조각도 궤도별로 검사한다 (validateOrbits).
+ */
+export function validateCubeState(input: unknown): CubeState {
+  if (!input || typeof input !== 'object' || !('faces' in input) || !input.faces || typeof input.faces !== 'object') {
+    throw new CubeValidationError('Cube state must be an object with a faces property');
+  }
+
+  const { faces, size: declaredSize, moveHistory } = input as Partial<CubeState> & { faces: Faces };
+  const size = Array.isArray(faces.front) ? faces.front.length : 0;
+  if (size < MIN_CUBE_SIZE || size > MAX_CUBE_SIZE) {
+    throw new CubeValidationError(`Cube faces must be N x N grids with N between ${MIN_CUBE_SIZE} and ${MAX_CUBE_SIZE}`);
+  }
+  if (declaredSize !== undefined && declaredSize !== size) {
+    throw new CubeValidationError(`size is ${declaredSize} but the faces are ${size}x${size}`);
+  }
+  if (moveHistory !== undefined && (!Array.isArray(moveHistory) || moveHistory.some(move => typeof move !== 'string'))) {
+    throw new CubeValidationError('moveHistory must be an array of move strings');
+  }
+
+  const counts = new Map<string, number>();
+  for (const key of FACES) {
+    const grid = faces[key];
+    if (!Array.isArray(grid) || grid.length !== size || grid.some(row => !Array.isArray(row) || row.length !== size)) {
+      throw new CubeValidationError(`Face ${key} must be a ${size}x${size} grid`);
+    }
+    grid.forEach((row, r) => row.forEach((color, c) => {
+      if (!KNOWN_COLORS.includes(color)) {
+        throw new CubeValidationError(
+          `Unknown sticker color ${JSON.stringify(color)} on ${key} face at row ${r}, column ${c} (expected one of ${KNOWN_COLORS.join(' ')})`
+        );
+      }
+      counts.set(color, (counts.get(color) ?? 0) + 1);
+    }));
+  }
+
+  for (const color of KNOWN_COLORS) {
+    const count = counts.get(color) ?? 0;
+    if (count !== size * size) {
+      throw new CubeValidationError(`Color ${color} appears ${count} times, expected ${size * size}`);
+    }
+  }
+
+  if (size % 2 === 1) {
+    const mid = (size - 1) / 2;
+    validateCenters(faces, mid);
+    validatePieces(reduceFaces(faces, [0, mid, size - 1]));
+  } else {
+    validateCorners(reduceFaces(faces, [0, size - 1]));
+  }
+  if (size > 3) {
+    validateOrbits(faces, size);
+  }
+
+  const cube = new RubiksCube(size);
+  cube.setState({ size, faces, solved: false, moveHistory: [...(moveHistory ?? [])] });
+  const state = cube.getState();
+  state.solved = cube.isSolved();
+  return state;
+}
+
+// 홀수 크기 큐브의 센터: 모두 다른 색, 마주보는 면은 반대 색, 거울상이 아닌 배치
+function validateCenters(faces: Faces, mid: number): void {
+  const center = (key: FaceKey) => faces[key][mid][mid];
+
+  if (new Set(FACES.map(center)).size !== FACES.length) {
+    throw new CubeValidationError(`Center colors must all be different (got ${FACES.map(key => `${key} ${center(key)}`).join(', ')})`);
+  }
+  for (const key of ['top', 'front', 'left'] as FaceKey[]) {
+    const opposite = OPPOSITE_FACES[key];
+    if (OPPOSITE_COLORS[center(key)] !== center(opposite)) {
+      throw new CubeValidationError(
+        `Centers ${key} (${center(key)}) and ${opposite} (${center(opposite)}) must be opposite colors (W/Y, R/O, G/B)`
+      );
+    }
+  }
+  if (!getValidLayouts().has(layoutKey(center('top'), center('front'), center('right')))) {
+    throw new CubeValidationError('Center layout is a mirror image of the standard color scheme and cannot be reached by rotating the cube');
+  }
+}
+
+// 코너, 엣지, 센터를 3x3 상태로 보고 검사
+function validatePieces(faces: Faces): void {
+  let cube: CubieCube;
+  try {
+    cube = CubieCube.fromState({ size: 3, faces, solved: false, moveHistory: [] });
+  } catch (error) {
+    throw new CubeValidationError((error as Error).message);
+  }
+
+  const error = cube.verify();
+  if (error) {
+    throw new CubeValidationError(`Unreachable cube state: ${error}`);
+  }
+}
+
+// 센터가 없는 짝수 크기: DBL 코너로 큐브 방향을 정한 뒤 코너만 검사
+function validateCorners(corners: Faces): void {
+  const down = corners.bottom[1][0];
+  const back = corners.back[1][1];
+  const left = corners.left[1][0];
+  const up = OPPOSITE_COLORS[down];
+  const front = OPPOSITE_COLORS[back];
+  const right = OPPOSITE_COLORS[left];
+
+  if (!getValidLayouts().has(layoutKey(up, front, right))) {
+    throw new CubeValidationError('Invalid cube state: corner at DBL has an impossible color combination');
+  }
+
+  // 엣지와 센터는 풀린 상태로 채워 3x3 코너 검사를 재사용
+  const centers: Record<FaceKey, string> = { top: up, front, right, bottom: down, back, left };
+  const faces = {} as Faces;
+  for (const key of FACES) {
+    faces[key] = [0, 1, 2].map(r => [0, 1, 2].map(c =>
+      r !== 1 && c !== 1 ? corners[key][r / 2][c / 2] : centers[key]));
+  }
+
+  let cube: CubieCube;
+  try {
+    cube = CubieCube.fromState({ size: 3, faces, solved: false, moveHistory: [] });
+  } catch (error) {
+    throw new CubeValidationError((error as Error).message);
+  }
+  if (cube.co.reduce((a, b) => a + b, 0) % 3 !== 0) {
+    throw new CubeValidationError('Unreachable cube state: corner orientation parity is invalid (a corner is twisted)');
+  }
+}
+
+/**
+ * 4x4 이상의 윙 엣지와 센터 검사. 회전으로 서로 옮겨 갈 수 있는 스티커끼리 궤도를 나누면
+ * 조각마다 (궤도, 색) 목록이 회전해도 변하지 않으므로, 조각 종류별로 그 목록의 모음이 풀린
+ * 큐브와 같아야 한다. 윙은 두 스티커가 서로 다른 궤도라 제자리에서 뒤집힌 윙이 걸리고,
+ * 센터는 궤도마다 색별 개수가 맞아야 한다. 같은 색 센터끼리는 구별되지 않아 윙과 센터의
+ * 순열 패리티는 어느 쪽이든 만들 수 있으므로 따로 검사하지 않는다.
+ */
+function validateOrbits(faces: Faces, size: number): void {
+  const { pieces, expected } = getOrbitTables(size);
+  const found = new Map<string, Map<string, number>>();
+  const area = size * size;
+  const colorAt = (index: number) => faces[FACES[Math.floor(index / area)]][Math.floor(index % area / size)][index % size];
+
+  for (const piece of pieces) {
+    const signature = pieceSignature(piece, colorAt);
+    const counts = found.get(piece.kind) ?? new Map<string, number>();
+    counts.set(signature, (counts.get(signature) ?? 0) + 1);
+    found.set(piece.kind, counts);
+    if (counts.get(signature)! > (expected.get(piece.kind)!.get(signature) ?? 0)) {
+      const [first] = piece.stickers;
+      const face = FACES[Math.floor(first / area)];
+      const colors = piece.stickers.map(colorAt).join('');
+      throw new CubeValidationError(piece.stickers.length === 1
+        ? `Unreachable cube state: too many ${colors} stickers among the centers like the one on ${face} face at row ${Math.floor(first % area / size)}, column ${first % size}`
+        : `Unreachable cube state: the ${colors} edge piece at ${face} face row ${Math.floor(first % area / size)}, column ${first % size} is flipped or belongs to another edge orbit`);
+    }
+  }
+}
+
+interface OrbitPiece {
+  kind: string;          // 조각 종류 - 스티커들이 속한 궤도 번호 목록
+  stickers: number[];    // 스티커 칸 번호 (URFDLB 면 순서, 면마다 행 단위)
+  orbits: number[];
+}
+
+// 조각의 (궤도, 색) 목록 - 같은 궤도의 스티커(코너, 가운데 엣지)는 색 순서를 무시
+function pieceSignature(piece: OrbitPiece, colorAt: (index: number) => string): string {
+  return piece.stickers.map((sticker, i) => `${piece.orbits[i]}:${colorAt(sticker)}`).sort().join(' ');
+}
+
+// 크기별 스티커 궤도와 풀린 상태의 조각 목록 (센터가 여러 종류라 조각 종류마다 따로)
+const orbitTables = new Map<number, { pieces: OrbitPiece[]; expected: Map<string, Map<string, number>> }>();
+
+function getOrbitTables(size: number) {
+  const cached = orbitTables.get(size);
+  if (cached) return cached;
+
+  // 모든 층의 90도 회전으로 연결되는 스티커끼리 합침 (union-find)
+  const parent = Array.from({ length: 6 * size * size }, (_, i) => i);
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+  for (const axis of ['x', 'y', 'z'] as const) {
+    for (let layer = 0; layer < size; layer++) {
+      getMoveTable(size, { axis, layers: [layer], direction: 1 }).forEach((source, target) => {
+        parent[root(source)] = root(target);
+      });
+    }
+  }
+
+  // 같은 3D 위치의 스티커가 한 조각
+  const byPosition = new Map<string, number[]>();
+  FACES.forEach((face, f) => {
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const key = String(stickerGeometry(face, row, col, size).pos);
+        byPosition.set(key, [...(byPosition.get(key) ?? []), (f * size + row) * size + col]);
+      }
+    }
+  });
+  const pieces = [...byPosition.values()].map((stickers): OrbitPiece => {
+    const orbits = stickers.map(root);
+    return { kind: [...orbits].sort((a, b) => a - b).join(','), stickers, orbits };
+  });
+
+  const solved = new RubiksCube(size).getState().faces;
+  const area = size * size;
+  const solvedColor = (index: number) => solved[FACES[Math.floor(index / area)]][Math.floor(index % area / size)][index % size];
+  const expected = new Map<string, Map<string, number>>();
+  for (const piece of pieces) {
+    const counts = expected.get(piece.kind) ?? new Map<string, number>();
+    const signature = pieceSignature(piece, solvedColor);
+    counts.set(signature, (counts.get(signature) ?? 0) + 1);
+    expected.set(piece.kind, counts);
+  }
+
+  const tables = { pieces, expected };
+  orbitTables.set(size, tables);
+  return tables;
+}
+
+// 지정한 행/열만 골라 작은 큐브의 면으로 만듦 (예: 5x5의 0, 2, 4행/열 -> 3x3)
+function reduceFaces(faces: Faces, indices: number[]): Faces {
+  const reduced = {} as Faces;
+  for (const key of FACES) {
+    reduced[key] = indices.map(r => indices.map(c => faces[key][r][c]));
+  }
+  return reduced;
+}
+
+function isFaceletLength(length: number): boolean {
+  const size = Math.round(Math.sqrt(length / 6));
+  return 6 * size * size === length && size >= MIN_CUBE_SIZE && size <= MAX_CUBE_SIZE;
+}
+
+function layoutKey(top: string, front: string, right: string): string {
+  return `${top}${front}${right}`;
+}
+
+// 큐브 전체 회전으로 만들 수 있는 센터 배치 24가지 (top, front, right 색)
+let validLayouts: Set<string> | null = null;
+
+function getValidLayouts(): Set<string> {
+  if (!validLayouts) {
+    validLayouts = new Set();
+    for (const tilt of ['', 'x', 'x2', 'x\'', 'z', 'z\'']) {
+      for (const turn of ['', 'y', 'y2', 'y\'']) {
+        const cube = new RubiksCube(3);
+        cube.executeMoves([tilt, turn].filter(Boolean) as CubeMove[]);
+        const { faces } = cube.getState();
+        validLayouts.add(layoutKey(faces.top[1][1], faces.front[1][1], faces.right[1][1]));
+      }
+    }
+  }
+  return validLayouts;
+}
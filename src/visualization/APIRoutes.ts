@@ -1,69 +1,121 @@
 import express from 'express';
 import { GameSession, CubeMove } from '../types.js';
-import { RubiksCube } from '../cubeLogic.js';
-
-import { VisualizationServer } from './VisualizationServer.js';
+import { isValidMove } from '../cubeLogic.js';
+import { MAX_SOLUTION_LENGTH, MAX_SOLVER_TIMEOUT_MS } from '../solver/TwoPhaseSolver.js';
+import { solveCubeInWorker } from '../solver/SolverWorker.js';
+import { HintLimitError, MAX_HINT_MOVES } from '../hints.js';
+import { parseAlgorithm, AlgorithmParseError } from '../notation.js';
+import { createHistory, describeHistory, moveRecords, stateAt } from '../history.js';
+import { describeTimer } from '../timer.js';
+import { analyzeCube } from '../cfop.js';
+import { exportSession, isExportFormat, EXPORT_FORMATS } from '../export.js';
+import { GameCompletedError, GameManager, SessionLimitError } from '../game/GameManager.js';
+import { AccessLevel, accessLevel, accessLinks, canAccess, tokenFromRequest } from '../access.js';
+import { CubeRenderer, CubeView } from '../rendering/CubeRenderer.js';
 
 export class APIRoutes {
   private router: express.Router;
-  private sessions: Map<string, GameSession>;
-  private webSocketHandler: any;
-  private visualizationServer: VisualizationServer;
+  private gameManager: GameManager;
+  private getBaseUrl: () => string;
 
-  constructor(visualizationServer: VisualizationServer, webSocketHandler?: any) {
+  constructor(gameManager: GameManager, getBaseUrl: () => string = () => '') {
     this.router = express.Router();
-    this.visualizationServer = visualizationServer;
-    this.sessions = this.visualizationServer.getSessions();
-    this.webSocketHandler = webSocketHandler;
+    this.gameManager = gameManager;
+    this.getBaseUrl = getBaseUrl;
     this.setupRoutes();
   }
 
   private setupRoutes(): void {
+    // 게임별 라우트 접근 제어 - 조회(GET)는 관전 토큰 이상, 조작은 소유자 토큰
+    this.router.use(['/cube/:gameId', '/games/:gameId'], (req, res, next) => {
+      this.authorize(req, res, next, req.method === 'GET' ? 'spectator' : 'owner');
+    });
+
     // 게임 목록 조회
     this.router.get('/games', (req, res) => {
-      const sessions = Array.from(this.sessions.values()).map(s => ({
+      const sessions = this.gameManager.listGames().map(s => ({
         id: s.id,
+        size: s.cubeState.size,
         status: s.status,
         createdAt: s.createdAt,
         lastActivity: s.lastActivity,
         scrambleMoves: s.scrambleMoves,
+        scrambleSeed: s.scramble?.seed,
         moveHistory: s.cubeState.moveHistory.length,
+        hintsUsed: s.hints?.length ?? 0,
+        expiresAt: this.gameManager.getExpiry(s),
       }));
       res.json(sessions);
     });
 
     // 새 게임 생성
     this.router.post('/games', (req, res) => {
-      const { scramble = true, difficulty = 20 } = req.body;
-      const gameId = `cube_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const cube = new RubiksCube();
+      const { scramble = true, difficulty = 20, size = 3, seed, scrambleMode, initialState, timed = false, player } = req.body;
+      if (player !== undefined && (typeof player !== 'string' || player.trim() === '')) {
+        return res.status(400).json({ error: 'player must be a non-empty string' });
+      }
 
-      if (scramble) {
-        cube.scramble(difficulty);
+      let session: GameSession;
+      try {
+        session = this.gameManager.createGame({ scramble, difficulty, size, seed, scrambleMode, initialState, timed: timed === true, player });
+      } catch (error) {
+        return res.status(error instanceof SessionLimitError ? 503 : 400).json({ error: (error as Error).message });
       }
 
-      const session: GameSession = {
-        id: gameId,
-        cubeState: cube.getState(),
-        createdAt: Date.now(),
-        lastActivity: Date.now(),
-        status: 'active',
-        scrambleMoves: difficulty,
-      };
+      res.status(201).json({
+        success: true,
+        gameId: session.id,
+        scramble: session.scramble,
+        timer: describeTimer(session),
+        access: accessLinks(this.getBaseUrl(), session),
+        message: `Game ${session.id} created.`,
+      });
+    });
 
-      this.visualizationServer.registerSession(session);
+    // 게임 삭제 - 보고 있던 뷰어에는 sessionExpired 이벤트
+    this.router.delete('/games/:gameId', (req, res) => {
+      const { gameId } = req.params;
+      if (!this.gameManager.getGame(gameId)) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
 
-      res.status(201).json({
+      this.gameManager.deleteGame(gameId);
+      res.json({ success: true, gameId, message: `Game ${gameId} deleted.` });
+    });
+
+    // 섞인 시작 상태로 되돌리기
+    this.router.post('/games/:gameId/reset', (req, res) => {
+      const { gameId } = req.params;
+      if (!this.gameManager.getGame(gameId)) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
+
+      let session: GameSession;
+      try {
+        session = this.gameManager.resetGame(gameId);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+
+      res.json({
         success: true,
         gameId,
-        message: `Game ${gameId} created.`,
+        state: session.cubeState,
+        status: session.status,
+        timer: describeTimer(session)
       });
     });
 
+    // 타이머 모드 플레이어별 통계 (?player= 로 한 명만)
+    this.router.get('/stats', (req, res) => {
+      const player = typeof req.query.player === 'string' ? req.query.player : undefined;
+      res.json(this.gameManager.getStats(player));
+    });
+
     // 큐브 상태 조회
     this.router.get('/cube/:gameId', (req, res) => {
       const { gameId } = req.params;
-      const session = this.sessions.get(gameId);
+      const session = this.gameManager.getGame(gameId);
       
       if (!session) {
         return res.status(404).json({ error: 'Game session not found' });
@@ -73,62 +125,309 @@ export class APIRoutes {
       res.json({
         gameId,
         state: session.cubeState,
-        status: session.status
+        status: session.status,
+        timer: describeTimer(session)
       });
     });
 
+    // 시각이 붙은 회전 히스토리 (리플레이, 늦게 들어온 관전자용) - moves는 되돌린 회전까지 전부, cursor까지가 현재 상태
+    this.router.get('/cube/:gameId/history', (req, res) => {
+      const { gameId } = req.params;
+      const session = this.gameManager.getGame(gameId);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
+
+      const history = session.history ?? createHistory(session.cubeState);
+      res.json({
+        gameId,
+        size: session.cubeState.size,
+        status: session.status,
+        createdAt: session.createdAt,
+        completedAt: session.completedAt ?? null,
+        gaveUpAt: session.gaveUpAt ?? null,
+        scramble: session.scramble ?? null,
+        initialState: history.initialState,
+        cursor: history.cursor,
+        totalMoves: history.moves.length,
+        moves: moveRecords(history),
+        branches: history.branches.map(branch => ({
+          fromIndex: branch.fromIndex,
+          abandonedAt: branch.abandonedAt,
+          moves: moveRecords(branch, branch.fromIndex)
+        }))
+      });
+    });
+
+    // 상태/풀이 기록 내보내기
+    this.router.get('/cube/:gameId/export', (req, res) => {
+      const { gameId } = req.params;
+      const format = String(req.query.format ?? 'reconstruction');
+      const session = this.gameManager.getGame(gameId);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ error: `Unknown export format "${format}" (expected one of ${EXPORT_FORMATS.join(', ')})` });
+      }
+
+      const { contentType, body } = exportSession(session, format);
+      res.type(contentType).send(body);
+    });
+
+    // 큐브 이미지 (?view=net|isometric, ?move=R 이면 회전 방향 화살표, ?at=N 이면 히스토리 N번째 회전 직후 상태)
+    this.router.get('/cube/:gameId/image.:format(svg|png)', (req, res) => {
+      const { gameId, format } = req.params;
+      const session = this.gameManager.getGame(gameId);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
+
+      let renderer: CubeRenderer;
+      try {
+        const state = req.query.at === undefined
+          ? session.cubeState
+          : stateAt(session.history ?? createHistory(session.cubeState), Number(req.query.at));
+        renderer = new CubeRenderer(state, {
+          view: req.query.view === undefined ? undefined : String(req.query.view) as CubeView,
+          move: req.query.move === undefined ? undefined : String(req.query.move)
+        });
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+
+      if (format === 'png') {
+        res.type('image/png').send(renderer.toPng());
+      } else {
+        res.type('image/svg+xml').send(renderer.toSvg());
+      }
+    });
+
+    // 큐브 해법 조회 - 탐색은 솔버 워커에서 (이벤트 루프를 막지 않도록)
+    this.router.get('/cube/:gameId/solution', async (req, res) => {
+      const { gameId } = req.params;
+      const session = this.gameManager.getGame(gameId);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
+
+      // solveCube 도구와 같은 범위 (maxLength 1-30, timeoutMs 0-30000)
+      const maxLength = integerQuery(req.query.maxLength, 1, MAX_SOLUTION_LENGTH);
+      const timeoutMs = integerQuery(req.query.timeoutMs, 0, MAX_SOLVER_TIMEOUT_MS);
+      if (maxLength === null || timeoutMs === null) {
+        return res.status(400).json({
+          error: `maxLength must be an integer between 1 and ${MAX_SOLUTION_LENGTH} and timeoutMs between 0 and ${MAX_SOLVER_TIMEOUT_MS}`
+        });
+      }
+
+      try {
+        const state = session.cubeState;
+        const result = await solveCubeInWorker(state, { maxLength, timeoutMs });
+        res.json({
+          gameId,
+          ...result,
+          movesSoFar: state.moveHistory.length
+        });
+      } catch (error) {
+        res.status(422).json({ error: (error as Error).message });
+      }
+    });
+
+    // 진행도 분석 (CFOP 단계, OLL/PLL 케이스 등)
+    this.router.get('/cube/:gameId/analysis', (req, res) => {
+      const { gameId } = req.params;
+      const session = this.gameManager.getGame(gameId);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
+
+      res.json({ gameId, ...analyzeCube(session.cubeState) });
+    });
+
+    // 다음 수 힌트
+    this.router.post('/cube/:gameId/hint', (req, res) => {
+      const { gameId } = req.params;
+      const session = this.gameManager.getGame(gameId);
+      if (!session) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
+
+      // getHint 도구와 같은 범위 (범위를 벗어나면 줄이지 않고 거부)
+      const count = integerQuery(req.body?.count, 1, MAX_HINT_MOVES);
+      if (count === null) {
+        return res.status(400).json({ error: `count must be an integer between 1 and ${MAX_HINT_MOVES}` });
+      }
+
+      try {
+        const hint = this.gameManager.requestHint(gameId, count);
+        res.json({ gameId, ...hint });
+      } catch (error) {
+        if (error instanceof HintLimitError) {
+          if (error.retryAfterMs) {
+            res.set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+          }
+          return res.status(429).json({ error: error.message });
+        }
+        res.status(422).json({ error: (error as Error).message });
+      }
+    });
+
     // 큐브 상태 업데이트
     this.router.post('/cube/:gameId/move', (req, res) => {
       const { gameId } = req.params;
       const { move } = req.body;
       
-      const session = this.sessions.get(gameId);
+      const session = this.gameManager.getGame(gameId);
       if (!session) {
         return res.status(404).json({ error: 'Game session not found' });
       }
 
       try {
         // 유효한 move인지 확인
-        const validMoves = ['U', 'D', 'L', 'R', 'F', 'B', 'U\'', 'D\'', 'L\'', 'R\'', 'F\'', 'B\'', 'U2', 'D2', 'L2', 'R2', 'F2', 'B2'];
-        if (!validMoves.includes(move)) {
+        if (typeof move !== 'string' || !isValidMove(move, session.cubeState.size)) {
           return res.status(400).json({ error: 'Invalid move' });
         }
 
-        // 큐브 인스턴스 생성 및 현재 상태로 설정
-        const cube = new RubiksCube();
-        cube.setState(session.cubeState);
-        
-        // move 실행
-        cube.executeMove(move as CubeMove);
-        
-        // 세션 상태 업데이트
-        session.cubeState = cube.getState();
-        session.lastActivity = Date.now();
-        
-        // 큐브가 해결되었는지 확인
-        if (cube.isSolved()) {
-          session.status = 'completed';
-        }
-
-        // WebSocket으로 상태 브로드캐스트
-        if (this.webSocketHandler) {
-          this.webSocketHandler.broadcastGameState(gameId, session.cubeState, session.status);
-        }
+        // move 실행 - 상태 저장과 WebSocket 브로드캐스트는 GameManager가 처리
+        this.gameManager.applyMoves(gameId, [move], false, 'web');
 
         res.json({
           success: true,
           message: `Move ${move} executed`,
           state: session.cubeState,
-          status: session.status
+          status: session.status,
+          timer: describeTimer(session)
         });
       } catch (error) {
+        if (error instanceof GameCompletedError) {
+          return res.status(409).json({ error: 'Game is already completed', state: session.cubeState });
+        }
         console.error('Error executing move:', error);
         res.status(500).json({ error: 'Failed to execute move' });
       }
     });
+
+    // 되돌리기 / 다시하기 / 특정 시점으로 이동
+    this.router.post('/cube/:gameId/undo', (req, res) => {
+      this.travelHistory(req, res, gameId => this.gameManager.undo(gameId));
+    });
+
+    this.router.post('/cube/:gameId/redo', (req, res) => {
+      this.travelHistory(req, res, gameId => this.gameManager.redo(gameId));
+    });
+
+    this.router.post('/cube/:gameId/jump', (req, res) => {
+      this.travelHistory(req, res, gameId => this.gameManager.jumpTo(gameId, Number(req.body?.index)));
+    });
+
+    // 알고리즘(회전 시퀀스) 일괄 실행
+    this.router.post('/cube/:gameId/moves', (req, res) => {
+      const { gameId } = req.params;
+      const { algorithm, includeSteps = false } = req.body;
+
+      const session = this.gameManager.getGame(gameId);
+      if (!session) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
+
+      if (typeof algorithm !== 'string' || algorithm.trim() === '') {
+        return res.status(400).json({ error: 'algorithm must be a non-empty string' });
+      }
+
+      let moves: CubeMove[];
+      try {
+        moves = parseAlgorithm(algorithm, session.cubeState.size);
+      } catch (error) {
+        if (error instanceof AlgorithmParseError) {
+          return res.status(400).json({ error: error.message, position: error.position });
+        }
+        throw error;
+      }
+
+      if (session.status === 'completed') {
+        return res.status(409).json({ error: 'Game is already completed', state: session.cubeState });
+      }
+
+      try {
+        const { steps } = this.gameManager.applyMoves(gameId, moves, includeSteps, 'web');
+
+        res.json({
+          success: true,
+          message: `Applied ${moves.length} moves`,
+          moves,
+          state: session.cubeState,
+          status: session.status,
+          ...(includeSteps ? { steps } : {})
+        });
+      } catch (error) {
+        console.error('Error executing algorithm:', error);
+        res.status(500).json({ error: 'Failed to execute algorithm' });
+      }
+    });
+  }
+
+  // 토큰이 없거나 틀리면 401, 관전 토큰으로 조작하면 403 (없는 게임은 각 라우트에서 404)
+  private authorize(req: express.Request, res: express.Response, next: express.NextFunction, required: AccessLevel): void {
+    const { gameId } = req.params;
+    const session = this.gameManager.getGame(gameId);
+    if (!session) {
+      return next();
+    }
+
+    const token = tokenFromRequest(gameId, req.headers, req.query as Record<string, unknown>);
+    if (canAccess(session, token, required)) {
+      return next();
+    }
+    if (accessLevel(session, token) === 'spectator') {
+      res.status(403).json({ error: 'This is a read-only spectator token; moves need the owner token' });
+    } else {
+      res.status(401).json({ error: 'Missing or invalid game access token (send Authorization: Bearer <token>)' });
+    }
+  }
+
+  // 히스토리 이동 라우트 공통 처리
+  private travelHistory(req: express.Request, res: express.Response, travel: (gameId: string) => GameSession): void {
+    const { gameId } = req.params;
+    const session = this.gameManager.getGame(gameId);
+    if (!session) {
+      res.status(404).json({ error: 'Game session not found' });
+      return;
+    }
+
+    try {
+      travel(gameId);
+    } catch (error) {
+      if (error instanceof GameCompletedError) {
+        res.status(409).json({ error: error.message, state: session.cubeState });
+        return;
+      }
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+
+    res.json({
+      success: true,
+      state: session.cubeState,
+      status: session.status,
+      history: describeHistory(session)
+    });
   }
 
   getRouter(): express.Router {
     return this.router;
   }
 }
+
+// 정수 쿼리 값 (없으면 undefined, 정수가 아니거나 범위 밖이면 null)
+function integerQuery(value: unknown, min: number, max: number): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : null;
+}
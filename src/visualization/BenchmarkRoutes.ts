@@ -0,0 +1,104 @@
+import express from 'express';
+import { BenchmarkManager, BenchmarkNotFoundError, resultsToCsv } from '../benchmark/BenchmarkManager.js';
+import { SessionLimitError } from '../game/GameManager.js';
+import { accessLinks } from '../access.js';
+
+// 에이전트 벤치마크 API (/api/benchmarks)
+export class BenchmarkRoutes {
+  private router: express.Router;
+  private benchmarkManager: BenchmarkManager;
+  private getBaseUrl: () => string;
+
+  constructor(benchmarkManager: BenchmarkManager, getBaseUrl: () => string = () => '') {
+    this.router = express.Router();
+    this.benchmarkManager = benchmarkManager;
+    this.getBaseUrl = getBaseUrl;
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // 스위트 목록
+    this.router.get('/', (req, res) => {
+      res.json(this.benchmarkManager.listSuites().map(({ scrambles, ...suite }) => ({
+        ...suite,
+        scrambleCount: scrambles.length,
+        runs: this.benchmarkManager.listRuns(suite.id).length
+      })));
+    });
+
+    // 스위트 생성 (seed 하나 + count 또는 seeds 목록)
+    this.router.post('/', async (req, res) => {
+      const { name, count, seed, seeds, size, scrambleMode, difficulty } = req.body ?? {};
+      try {
+        const suite = await this.benchmarkManager.createSuite({ name, count, seed, seeds, size, scrambleMode, difficulty });
+        res.status(201).json(suite);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+      }
+    });
+
+    // 스위트 조회 (스크램블과 실행 목록)
+    this.router.get('/:suiteId', (req, res) => {
+      this.handle(res, () => ({
+        ...this.benchmarkManager.requireSuite(req.params.suiteId),
+        runs: this.benchmarkManager.listRuns(req.params.suiteId)
+      }));
+    });
+
+    // 실행 등록 (에이전트 이름, 모델, 설정)
+    this.router.post('/:suiteId/runs', (req, res) => {
+      const { agent, model, config } = req.body ?? {};
+      this.handle(res, () => this.benchmarkManager.registerRun(req.params.suiteId, { agent, model, config }), 201);
+    });
+
+    // 스크램블 게임 시작 - 에이전트에게 gameId를 넘겨 joinGame으로 풀게 함
+    this.router.post('/:suiteId/runs/:runId/scrambles/:index/start', (req, res) => {
+      const { suiteId, runId, index } = req.params;
+      this.handle(res, () => {
+        const session = this.benchmarkManager.startScramble(suiteId, runId, Number(index));
+        return {
+          gameId: session.id,
+          scrambleIndex: Number(index),
+          scramble: session.scramble,
+          status: session.status,
+          access: accessLinks(this.getBaseUrl(), session)
+        };
+      }, 201);
+    });
+
+    // 스크램블별 기록과 리더보드 (?format=csv 면 스크램블별 기록 CSV)
+    this.router.get('/:suiteId/results', (req, res) => {
+      const format = req.query.format ?? 'json';
+      if (format !== 'json' && format !== 'csv') {
+        return res.status(400).json({ error: `Unknown results format "${format}" (expected json or csv)` });
+      }
+
+      this.handle(res, () => {
+        const results = this.benchmarkManager.getResults(req.params.suiteId);
+        if (format === 'json') {
+          return results;
+        }
+        res.type('text/csv').attachment(`${req.params.suiteId}.csv`).send(resultsToCsv(results));
+      });
+    });
+  }
+
+  // 없는 스위트/실행은 404, 게임 수 상한은 503, 잘못된 입력은 400 - handler가 값을 반환하면 JSON으로 응답
+  private handle(res: express.Response, handler: () => unknown, status: number = 200): void {
+    let body: unknown;
+    try {
+      body = handler();
+    } catch (error) {
+      const code = error instanceof BenchmarkNotFoundError ? 404 : error instanceof SessionLimitError ? 503 : 400;
+      res.status(code).json({ error: (error as Error).message });
+      return;
+    }
+    if (body !== undefined) {
+      res.status(status).json(body);
+    }
+  }
+
+  getRouter(): express.Router {
+    return this.router;
+  }
+}
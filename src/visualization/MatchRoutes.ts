@@ -0,0 +1,81 @@
+import express from 'express';
+import { MatchFullError, MatchManager, MatchNotFoundError, MatchSlotTakenError } from '../match/MatchManager.js';
+import { SessionLimitError } from '../game/GameManager.js';
+import { accessLinks } from '../access.js';
+
+// 대결 API (/api/matches)
+export class MatchRoutes {
+  private router: express.Router;
+  private matchManager: MatchManager;
+  private getBaseUrl: () => string;
+
+  constructor(matchManager: MatchManager, getBaseUrl: () => string = () => '') {
+    this.router = express.Router();
+    this.matchManager = matchManager;
+    this.getBaseUrl = getBaseUrl;
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // 대결 목록 (점수판 요약)
+    this.router.get('/', (req, res) => {
+      res.json(this.matchManager.listMatches().map(match => {
+        const { standings, scramble, ...summary } = this.matchManager.getScoreboard(match.id);
+        return summary;
+      }));
+    });
+
+    // 대결 생성 - 참가자 수만큼 같은 스크램블의 게임을 만듦
+    this.router.post('/', (req, res) => {
+      const { name, players, size, seed, scrambleMode, difficulty } = req.body ?? {};
+      this.handle(res, () => {
+        const match = this.matchManager.createMatch({ name, players, size, seed, scrambleMode, difficulty });
+        return { ...this.matchManager.getScoreboard(match.id), viewUrl: `${this.getBaseUrl()}/match/${match.id}` };
+      }, 201);
+    });
+
+    // 점수판
+    this.router.get('/:matchId', (req, res) => {
+      this.handle(res, () => this.matchManager.getScoreboard(req.params.matchId));
+    });
+
+    // 빈 자리에 참가 - 그 자리 게임의 소유자 토큰을 돌려줌
+    // 같은 이름으로 다시 참가하려면 body의 token에 그 소유자 토큰이 필요하고, 토큰은 다시 주지 않음
+    this.router.post('/:matchId/join', (req, res) => {
+      const { matchId } = req.params;
+      const token = typeof req.body?.token === 'string' ? req.body.token : undefined;
+      this.handle(res, () => {
+        const { slot, session, rejoined } = this.matchManager.joinMatch(matchId, req.body?.player, token);
+        return {
+          matchId,
+          slot,
+          gameId: session.id,
+          scramble: session.scramble,
+          rejoined,
+          access: rejoined ? undefined : accessLinks(this.getBaseUrl(), session),
+          viewUrl: `${this.getBaseUrl()}/match/${matchId}`
+        };
+      });
+    });
+  }
+
+  // 없는 대결은 404, 토큰 없는 재참가는 403, 빈 자리 없음은 409, 게임 수 상한은 503, 잘못된 입력은 400
+  private handle(res: express.Response, handler: () => unknown, status: number = 200): void {
+    let body: unknown;
+    try {
+      body = handler();
+    } catch (error) {
+      const code = error instanceof MatchNotFoundError ? 404
+        : error instanceof MatchSlotTakenError ? 403
+        : error instanceof MatchFullError ? 409
+        : error instanceof SessionLimitError ? 503 : 400;
+      res.status(code).json({ error: (error as Error).message });
+      return;
+    }
+    res.status(status).json(body);
+  }
+
+  getRouter(): express.Router {
+    return this.router;
+  }
+}
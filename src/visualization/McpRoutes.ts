@@ -0,0 +1,169 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface McpRouteOptions {
+  idleTimeoutMs?: number;   // 요청도 열린 스트림도 없이 이 시간이 지난 Streamable HTTP 세션은 닫음
+}
+
+// DELETE 없이 사라진 클라이언트의 세션을 닫기까지 기본 대기 시간
+export const DEFAULT_MCP_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+// 세션별 처리 중인 요청 수 (GET 알림 스트림 포함)와 유휴 타이머
+interface SessionActivity {
+  open: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * HTTP MCP 엔드포인트. 연결(MCP 세션)마다 McpServer를 새로 만들어 프로토콜 상태를 분리하고,
+ * 게임 세션은 팩토리가 공유하는 GameManager를 통해 모든 연결에서 함께 보인다.
+ *
+ *   POST/GET/DELETE /mcp      Streamable HTTP (Mcp-Session-Id 헤더로 세션 구분)
+ *   GET /sse, POST /messages  이전 프로토콜(2024-11-05)용 SSE
+ *
+ * Streamable HTTP 세션은 DELETE 없이 끊긴 클라이언트도 유휴 시간이 지나면 닫아서
+ * 트랜스포트, McpServer와 리소스 구독이 쌓이지 않게 한다. SSE는 연결이 끊기면 바로 정리된다.
+ */
+export class McpRoutes {
+  private router: express.Router;
+  private createServer: () => McpServer;
+  private streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  private sseTransports = new Map<string, SSEServerTransport>();
+  private activity = new Map<StreamableHTTPServerTransport, SessionActivity>();
+  private idleTimeoutMs: number;
+
+  constructor(createServer: () => McpServer, { idleTimeoutMs = DEFAULT_MCP_IDLE_TIMEOUT_MS }: McpRouteOptions = {}) {
+    this.router = express.Router();
+    this.createServer = createServer;
+    this.idleTimeoutMs = idleTimeoutMs;
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // Streamable HTTP - 세션 ID 없는 initialize 요청이면 새 세션 생성
+    this.router.post('/mcp', this.handle(async (req, res) => {
+      const sessionId = req.header('mcp-session-id');
+      let transport = sessionId ? this.streamableTransports.get(sessionId) : undefined;
+
+      if (!transport) {
+        if (sessionId || !isInitializeRequest(req.body)) {
+          return this.rejectSession(res, sessionId);
+        }
+
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: id => {
+            this.streamableTransports.set(id, newTransport);
+          }
+        });
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            this.streamableTransports.delete(newTransport.sessionId);
+          }
+          clearTimeout(this.activity.get(newTransport)?.timer);
+          this.activity.delete(newTransport);
+        };
+        await this.createServer().connect(newTransport);
+        transport = newTransport;
+      }
+
+      this.track(transport, res);
+      await transport.handleRequest(req, res, req.body);
+    }));
+
+    // 서버 -> 클라이언트 알림 스트림(GET)과 세션 종료(DELETE)
+    const handleSessionRequest = this.handle(async (req, res) => {
+      const sessionId = req.header('mcp-session-id');
+      const transport = sessionId ? this.streamableTransports.get(sessionId) : undefined;
+      if (!transport) {
+        return this.rejectSession(res, sessionId);
+      }
+      this.track(transport, res);
+      await transport.handleRequest(req, res);
+    });
+    this.router.get('/mcp', handleSessionRequest);
+    this.router.delete('/mcp', handleSessionRequest);
+
+    // SSE - 연결마다 sessionId가 발급되고 클라이언트는 /messages?sessionId=... 로 요청을 보냄
+    this.router.get('/sse', this.handle(async (req, res) => {
+      const transport = new SSEServerTransport('/messages', res);
+      this.sseTransports.set(transport.sessionId, transport);
+      res.on('close', () => {
+        this.sseTransports.delete(transport.sessionId);
+      });
+      await this.createServer().connect(transport);
+    }));
+
+    this.router.post('/messages', this.handle(async (req, res) => {
+      const sessionId = String(req.query.sessionId ?? '');
+      const transport = this.sseTransports.get(sessionId);
+      if (!transport) {
+        return this.rejectSession(res, sessionId);
+      }
+      await transport.handlePostMessage(req, res, req.body);
+    }));
+  }
+
+  // Express 4는 async 핸들러의 예외를 받지 않으므로 직접 잡아 JSON-RPC 오류로 응답
+  private handle(handler: (req: express.Request, res: express.Response) => Promise<void>): express.RequestHandler {
+    return async (req, res) => {
+      try {
+        await handler(req, res);
+      } catch (error) {
+        console.error('❌ MCP request failed:', error);
+        if (!res.headersSent) {
+          res.status(500).json({ jsonrpc: '2.0', error: { code: -32603, message: 'Internal server error' }, id: null });
+        }
+      }
+    };
+  }
+
+  // 요청이 열려 있는 동안은 유휴 타이머를 멈추고, 마지막 요청이 끝나면 다시 잼
+  private track(transport: StreamableHTTPServerTransport, res: express.Response): void {
+    let activity = this.activity.get(transport);
+    if (!activity) {
+      activity = { open: 0 };
+      this.activity.set(transport, activity);
+    }
+    clearTimeout(activity.timer);
+    activity.open++;
+
+    res.on('close', () => {
+      activity.open--;
+      if (activity.open === 0 && this.activity.get(transport) === activity) {
+        activity.timer = setTimeout(() => {
+          transport.close().catch(error => console.error('❌ Failed to close idle MCP session:', error));
+        }, this.idleTimeoutMs);
+        activity.timer.unref();
+      }
+    });
+  }
+
+  private rejectSession(res: express.Response, sessionId: string | undefined): void {
+    res.status(sessionId ? 404 : 400).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: sessionId ? `MCP session ${sessionId} not found` : 'Bad Request: No valid session ID provided' },
+      id: null
+    });
+  }
+
+  getRouter(): express.Router {
+    return this.router;
+  }
+
+  // 모든 연결 종료
+  async close(): Promise<void> {
+    const transports = [...this.streamableTransports.values(), ...this.sseTransports.values()];
+    for (const activity of this.activity.values()) {
+      clearTimeout(activity.timer);
+    }
+    this.activity.clear();
+    this.streamableTransports.clear();
+    this.sseTransports.clear();
+    await Promise.all(transports.map(transport => transport.close()));
+  }
+}
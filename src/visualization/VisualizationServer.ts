@@ -2,26 +2,62 @@ import express from 'express';
 import { createServer } from 'http';
 import path from 'path';
 import fs from 'fs';
-import { CubeState, GameSession } from '../types.js';
-import { RubiksCube } from '../cubeLogic.js';
+import { getMoveDefinitions } from '../cubeLogic.js';
+import { GameManager } from '../game/GameManager.js';
 import { WebSocketHandler } from './WebSocketHandler.js';
 import { APIRoutes } from './APIRoutes.js';
+import { McpRouteOptions, McpRoutes } from './McpRoutes.js';
+import { BenchmarkRoutes } from './BenchmarkRoutes.js';
+import { BenchmarkManager } from '../benchmark/BenchmarkManager.js';
+import { MatchRoutes } from './MatchRoutes.js';
+import { MatchManager } from '../match/MatchManager.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { isAllowedOrigin, resolveBaseUrl } from '../config.js';
+import { AccessLevel, accessLevel, accessLinks, gamePageUrl, tokenCookieName, tokenFromRequest } from '../access.js';
+import { createHistory, moveRecords } from '../history.js';
+import { GameSession } from '../types.js';
+import { describeTimer } from '../timer.js';
+
+export interface ListenOptions {
+  host?: string;
+  autoPort?: boolean;
+  publicUrl?: string;
+  corsOrigins?: string[];
+}
+
+// autoPort일 때 시도할 포트 수 (port, port + 1, ...)
+const MAX_PORT_ATTEMPTS = 20;
 
 export class VisualizationServer {
   private app: express.Application;
   private server: any;
   private webSocketHandler: WebSocketHandler;
   private apiRoutes: APIRoutes;
-  private sessions: Map<string, GameSession>;
+  private benchmarkRoutes: BenchmarkRoutes;
+  private matchRoutes: MatchRoutes;
+  private mcpRoutes?: McpRoutes;
+  private baseUrl = resolveBaseUrl({}, 3000);
+  private corsOrigins: string[] = ['*'];
+  private gameManager: GameManager;
+  private benchmarkManager: BenchmarkManager;
+  private matchManager: MatchManager;
 
-  constructor() {
+  constructor(
+    gameManager: GameManager = new GameManager(),
+    benchmarkManager: BenchmarkManager = new BenchmarkManager(gameManager),
+    matchManager: MatchManager = new MatchManager(gameManager)
+  ) {
     this.app = express();
     this.server = createServer(this.app);
-    this.sessions = new Map();
+    this.gameManager = gameManager;
+    this.benchmarkManager = benchmarkManager;
+    this.matchManager = matchManager;
     
     this.setupTemplateEngine();
-    this.webSocketHandler = new WebSocketHandler(this.server, this.sessions);
-    this.apiRoutes = new APIRoutes(this, this.webSocketHandler);
+    this.webSocketHandler = new WebSocketHandler(this.server, this.gameManager, origin => isAllowedOrigin(this.corsOrigins, origin), this.matchManager);
+    this.apiRoutes = new APIRoutes(this.gameManager, () => this.baseUrl);
+    this.benchmarkRoutes = new BenchmarkRoutes(this.benchmarkManager, () => this.baseUrl);
+    this.matchRoutes = new MatchRoutes(this.matchManager, () => this.baseUrl);
     this.setupRoutes();
   }
 
@@ -63,43 +99,50 @@ export class VisualizationServer {
 
   private setupRoutes(): void {
     // API 라우트
+    // REST API CORS - 허용한 출처에만 응답 헤더를 붙임 (토큰은 쿠키가 아닌 Authorization 헤더로)
+    this.app.use('/api', (req, res, next) => {
+      const origin = req.headers.origin;
+      if (origin && isAllowedOrigin(this.corsOrigins, origin)) {
+        res.setHeader('Access-Control-Allow-Origin', this.corsOrigins.includes('*') ? '*' : origin);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+        res.vary('Origin');
+      }
+      if (req.method === 'OPTIONS') {
+        return res.sendStatus(204);
+      }
+      next();
+    });
+
+    this.app.use('/api/benchmarks', this.benchmarkRoutes.getRouter());
+    this.app.use('/api/matches', this.matchRoutes.getRouter());
     this.app.use('/api', this.apiRoutes.getRouter());
     
     // 테스트용 게임 생성 API
     this.app.post('/api/test/create-game', (req: any, res: any) => {
-      const gameId = `test_${Date.now()}`;
-      const cube = new RubiksCube();
-      
-      // 스크램블 적용
-      const scrambleMoves = ['U', 'R', 'F', 'L', 'D', 'B'];
-      for (let i = 0; i < 10; i++) {
-        const randomMove = scrambleMoves[Math.floor(Math.random() * scrambleMoves.length)];
-        cube.executeMove(randomMove as any);
+      let session;
+      try {
+        session = this.gameManager.createGame({ difficulty: 10, idPrefix: 'test' });
+      } catch (error) {
+        return res.status(503).json({ success: false, error: (error as Error).message });
       }
       
-      const session: GameSession = {
-        id: gameId,
-        cubeState: cube.getState(),
-        status: 'active',
-        createdAt: Date.now(),
-        lastActivity: Date.now()
-      };
-      
-      this.sessions.set(gameId, session);
-      
+      const access = accessLinks(this.baseUrl, session);
       res.json({
         success: true,
-        gameId,
-        gameUrl: `/game/${gameId}`
+        gameId: session.id,
+        gameUrl: access?.playUrl ?? `${this.baseUrl}/game/${session.id}`,
+        access
       });
     });
     
     // 메인 페이지
     this.app.get('/', (req, res) => {
-      const games = Array.from(this.sessions.entries()).map(([id, session]) => ({
-        id,
-        title: `Game ${id.split('_')[1]}`,
+      const games = this.gameManager.listGames().map(session => ({
+        id: session.id,
+        title: `Game ${session.id.split('_')[1]}`,
         status: session.status,
+        size: session.cubeState.size,
         moveCount: session.cubeState.moveHistory.length,
         createdAt: new Date(session.createdAt).toLocaleString(),
         statusIcon: session.status === 'completed' ? '🎉' : '🎲',
@@ -112,7 +155,7 @@ export class VisualizationServer {
     // 게임 페이지
     this.app.get('/game/:gameId', (req, res) => {
       const { gameId } = req.params;
-      const session = this.sessions.get(gameId);
+      const session = this.gameManager.getGame(gameId);
       
       if (!session) {
         return res.status(404).send(`
@@ -126,54 +169,184 @@ export class VisualizationServer {
         `);
       }
       
+      const level = this.pageAccess(req, res, session);
+      if (!level) {
+        return;
+      }
+
       res.render('gameView', { 
         gameId,
         session,
-        cubeState: session.cubeState 
+        readOnly: level === 'spectator',
+        shareUrl: level === 'owner' ? accessLinks(this.baseUrl, session)?.shareUrl ?? null : null,
+        cubeState: session.cubeState,
+        size: session.cubeState.size,
+        moveDefinitions: getMoveDefinitions(session.cubeState.size),
+        timer: describeTimer(session) ?? null
       });
     });
-  }
 
-  // 세션 등록
-  registerSession(session: GameSession): void {
-    this.sessions.set(session.id, session);
-  }
+    // 리플레이 페이지 - 기록된 회전을 시각 간격대로 다시 재생 (보기만 하므로 관전 토큰으로 충분)
+    this.app.get('/game/:gameId/replay', (req, res) => {
+      const session = this.gameManager.getGame(req.params.gameId);
+      if (!session) {
+        return res.status(404).send(`
+          <html>
+            <body style="font-family: Arial; text-align: center; padding: 50px;">
+              <h1>Game Not Found</h1>
+              <p>Game session "${req.params.gameId.replace(/[&<>"']/g, '')}" not found.</p>
+              <a href="/">← Back to Games</a>
+            </body>
+          </html>
+        `);
+      }
+      if (!this.pageAccess(req, res, session)) {
+        return;
+      }
 
-  // 세션 업데이트
-  updateSession(gameId: string, cubeState: CubeState): void {
-    const session = this.sessions.get(gameId);
-    if (session) {
-      session.cubeState = cubeState;
-      session.lastActivity = Date.now();
-      if (cubeState.solved) {
-        session.status = 'completed';
+      const history = session.history ?? createHistory(session.cubeState);
+      res.render('replayView', {
+        gameId: session.id,
+        size: session.cubeState.size,
+        status: session.status,
+        scramble: session.scramble?.moves ?? [],
+        moves: moveRecords(history).slice(0, history.cursor),
+        createdAt: session.createdAt
+      });
+    });
+
+    // 벤치마크 리더보드 페이지
+    this.app.get('/benchmarks/:suiteId', (req, res) => {
+      if (!this.benchmarkManager.getSuite(req.params.suiteId)) {
+        return res.status(404).send(`
+          <html>
+            <body style="font-family: Arial; text-align: center; padding: 50px;">
+              <h1>Benchmark Not Found</h1>
+              <p>Benchmark suite "${req.params.suiteId.replace(/[&<>"']/g, '')}" not found.</p>
+              <a href="/">← Back to Games</a>
+            </body>
+          </html>
+        `);
       }
-      
-      this.webSocketHandler.broadcastGameState(gameId, cubeState, session.status);
+      // 리더보드에서는 게임을 보기만 하므로 보기 전용 링크
+      const results = this.benchmarkManager.getResults(req.params.suiteId);
+      const gameLinks = Object.fromEntries(results.attempts.flatMap(({ gameId }) => {
+        const session = gameId ? this.gameManager.getGame(gameId) : undefined;
+        return session ? [[session.id, gamePageUrl('', session, 'spectator')]] : [];
+      }));
+      res.render('benchmarkView', { ...results, gameLinks });
+    });
+
+    // 대결 화면 - 참가자 큐브를 나란히 보여 주는 점수판 (모두 보기 전용)
+    this.app.get('/match/:matchId', (req, res) => {
+      const match = this.matchManager.getMatch(req.params.matchId);
+      if (!match) {
+        return res.status(404).send(`
+          <html>
+            <body style="font-family: Arial; text-align: center; padding: 50px;">
+              <h1>Match Not Found</h1>
+              <p>Match "${req.params.matchId.replace(/[&<>"']/g, '')}" not found.</p>
+              <a href="/">← Back to Games</a>
+            </body>
+          </html>
+        `);
+      }
+      const panels = match.slots.map(({ gameId }) => {
+        const session = this.gameManager.getGame(gameId);
+        const token = session?.access ? `&token=${encodeURIComponent(session.access.spectatorToken)}` : '';
+        return {
+          gameId,
+          gameUrl: session ? gamePageUrl('', session, 'spectator') : null,
+          imageUrl: session ? `/api/cube/${encodeURIComponent(gameId)}/image.svg?view=isometric${token}` : null
+        };
+      });
+      res.render('matchView', { scoreboard: this.matchManager.getScoreboard(match.id), panels });
+    });
+  }
+
+  /**
+   * 게임 페이지 접근 권한 - 링크의 ?token= 또는 이전에 받은 쿠키. 토큰을 쿠키에 기억해 페이지의
+   * REST/WebSocket 요청도 인증되게 하고, 권한이 없으면 401 페이지를 보내고 null을 반환한다.
+   */
+  private pageAccess(req: express.Request, res: express.Response, session: GameSession): AccessLevel | null {
+    const token = tokenFromRequest(session.id, req.headers, req.query as Record<string, unknown>);
+    const level = accessLevel(session, token);
+    if (!level) {
+      res.status(401).send(`
+          <html>
+            <body style="font-family: Arial; text-align: center; padding: 50px;">
+              <h1>Access Link Required</h1>
+              <p>Open this game with the play or share link you were given.</p>
+              <a href="/">← Back to Games</a>
+            </body>
+          </html>
+        `);
+      return null;
+    }
+    if (token && session.access) {
+      res.cookie(tokenCookieName(session.id), token, { httpOnly: true, sameSite: 'lax', path: '/' });
     }
+    return level;
   }
 
-  // 세션 목록 조회
-  getSessions(): Map<string, GameSession> {
-    return this.sessions;
+  // HTTP MCP 엔드포인트(/mcp, /sse) 추가 - createServer는 연결마다 호출됨
+  enableMcp(createServer: () => McpServer, options: McpRouteOptions = {}): void {
+    this.mcpRoutes = new McpRoutes(createServer, options);
+    this.app.use(this.mcpRoutes.getRouter());
   }
 
-  // 서버 시작
-  start(port: number = 3000): void {
-    this.server.listen(port, () => {
-      console.error(`🎲 3D Cube visualization server running on http://localhost:${port}`);
-      console.error(`🌐 WebSocket enabled for real-time updates`);
+  // 서버 시작 - 실제로 열린 포트를 반환 (port 0이면 임의의 빈 포트, autoPort면 사용 중일 때 다음 포트 시도)
+  start(port: number = 3000, { host, autoPort = false, publicUrl, corsOrigins = ['*'] }: ListenOptions = {}): Promise<number> {
+    this.corsOrigins = corsOrigins;
+    return new Promise((resolve, reject) => {
+      let candidate = port;
+      let retries = autoPort ? MAX_PORT_ATTEMPTS - 1 : 0;
+
+      const onError = (error: NodeJS.ErrnoException) => {
+        if (error.code === 'EADDRINUSE' && retries > 0) {
+          console.error(`⚠️ Port ${candidate} is in use, trying ${candidate + 1}`);
+          candidate++;
+          retries--;
+          this.server.listen(candidate, host);
+        } else {
+          this.server.off('error', onError);
+          this.server.off('listening', onListening);
+          reject(error);
+        }
+      };
+      const onListening = () => {
+        this.server.off('error', onError);
+        const actualPort = this.server.address().port;
+        this.baseUrl = resolveBaseUrl({ host, publicUrl }, actualPort);
+        console.error(`🎲 3D Cube visualization server running on ${this.baseUrl}`);
+        console.error(`🌐 WebSocket enabled for real-time updates`);
+        resolve(actualPort);
+      };
+
+      // 핸들러는 재시도와 상관없이 한 번만 등록 (listen 콜백은 시도마다 쌓여서 성공할 때 모두 실행됨)
+      this.server.on('error', onError);
+      this.server.once('listening', onListening);
+      this.server.listen(candidate, host);
     });
   }
 
+  // 게임 링크 등 외부에 보여줄 주소 (끝에 / 없음)
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
   // 서버 종료
-  stop(): void {
-    if (this.server) {
+  async stop(): Promise<void> {
+    await this.mcpRoutes?.close();
+    return new Promise(resolve => {
       this.server.close(() => {
         console.error("✅ Visualization server closed");
+        resolve();
       });
-      
+      // keep-alive 연결이 남아 있어도 바로 종료
+      this.server.closeAllConnections();
+
       this.webSocketHandler.close();
-    }
+    });
   }
 }
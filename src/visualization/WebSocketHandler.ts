@@ -1,50 +1,107 @@
-import { CubeState, GameSession } from '../types.js';
+import { IncomingMessage } from 'http';
+import { GameSession, Match, MoveRecord } from '../types.js';
+import { GameManager, SessionRemovalReason } from '../game/GameManager.js';
+import { MatchManager } from '../match/MatchManager.js';
+import { describeTimer } from '../timer.js';
+import { accessLevel, tokenFromRequest } from '../access.js';
 
 export class WebSocketHandler {
   private io: any;
-  private sessions: Map<string, GameSession>;
+  private gameManager: GameManager;
+  private matchManager?: MatchManager;
 
-  constructor(server: any, sessions: Map<string, GameSession>) {
+  constructor(
+    server: any,
+    gameManager: GameManager,
+    isAllowedOrigin: (origin: string | undefined) => boolean = () => true,
+    matchManager?: MatchManager
+  ) {
     this.io = new (require('socket.io').Server)(server, {
       cors: {
-        origin: "*",
+        origin: (origin: string | undefined, callback: (error: Error | null, allow: boolean) => void) => callback(null, isAllowedOrigin(origin)),
         methods: ["GET", "POST"]
-      }
+      },
+      // WebSocket 연결에는 브라우저 CORS 검사가 없으므로 핸드셰이크에서 직접 Origin 확인
+      allowRequest: (req: IncomingMessage, callback: (error: string | null | undefined, allow: boolean) => void) => callback(null, isAllowedOrigin(req.headers.origin))
     });
-    this.sessions = sessions;
+    this.gameManager = gameManager;
+    this.matchManager = matchManager;
     this.setupWebSocket();
+
+    // 어느 쪽(MCP, REST)에서 바뀌었든 게임 상태 변경을 뷰어에 전달
+    this.gameManager.on('sessionUpdated', (session: GameSession) => {
+      this.broadcastGameState(session);
+    });
+
+    // 회전마다 move 이벤트 (뷰어가 애니메이션할 수 있도록 gameState 스냅샷보다 먼저 보냄)
+    this.gameManager.on('moves', (session: GameSession, records: MoveRecord[]) => {
+      for (const record of records) {
+        this.io.to(session.id).emit('move', { gameId: session.id, ...record });
+      }
+    });
+
+    // 만료/삭제된 게임을 보고 있던 뷰어에 알리고 방에서 내보냄
+    this.gameManager.on('sessionDeleted', (session: GameSession, reason: SessionRemovalReason) => {
+      this.io.to(session.id).emit('sessionExpired', { gameId: session.id, reason });
+      this.io.in(session.id).socketsLeave(session.id);
+    });
+
+    // 대결 점수판 방 (match:<matchId>) - 참가자 게임이 바뀔 때마다 점수판 전체를 보냄
+    this.matchManager?.on('matchUpdated', (match: Match) => {
+      this.io.to(matchRoom(match.id)).emit('matchState', this.matchManager!.getScoreboard(match.id));
+    });
   }
 
   private setupWebSocket(): void {
     this.io.on('connection', (socket: any) => {
       console.error('Client connected:', socket.id);
       
-      socket.on('joinGame', (gameId: string) => {
-        socket.join(gameId);
-        console.error(`Client ${socket.id} joined game ${gameId}`);
-        
-        const session = this.sessions.get(gameId);
-        if (session) {
-          socket.emit('gameState', {
-            gameId,
-            state: session.cubeState,
-            status: session.status
-          });
+      // 토큰은 인자로 받거나, 같은 서버의 게임 페이지라면 핸드셰이크 쿠키에서 찾음
+      socket.on('joinGame', (gameId: string, token?: string) => {
+        const session = this.gameManager.getGame(gameId);
+        if (!session) {
+          socket.emit('sessionExpired', { gameId, reason: 'not-found' });
+          return;
         }
+
+        const level = accessLevel(session, token || tokenFromRequest(gameId, socket.handshake.headers));
+        if (!level) {
+          socket.emit('accessDenied', { gameId, error: 'Missing or invalid game access token' });
+          return;
+        }
+
+        socket.join(gameId);
+        console.error(`Client ${socket.id} joined game ${gameId} (${level})`);
+        socket.emit('gameState', this.gameStatePayload(session));
       });
       
+      // 점수판은 토큰 없이 누구나 볼 수 있음 (게임 토큰은 포함하지 않음)
+      socket.on('joinMatch', (matchId: string) => {
+        if (!this.matchManager?.getMatch(matchId)) {
+          socket.emit('matchNotFound', { matchId });
+          return;
+        }
+        socket.join(matchRoom(matchId));
+        socket.emit('matchState', this.matchManager.getScoreboard(matchId));
+      });
+
       socket.on('disconnect', () => {
         console.error('Client disconnected:', socket.id);
       });
     });
   }
 
-  broadcastGameState(gameId: string, cubeState: CubeState, status: string): void {
-    this.io.to(gameId).emit('gameState', {
-      gameId,
-      state: cubeState,
-      status
-    });
+  broadcastGameState(session: GameSession): void {
+    this.io.to(session.id).emit('gameState', this.gameStatePayload(session));
+  }
+
+  private gameStatePayload(session: GameSession) {
+    return {
+      gameId: session.id,
+      state: session.cubeState,
+      status: session.status,
+      timer: describeTimer(session)
+    };
   }
 
   close(): void {
@@ -53,3 +110,7 @@ export class WebSocketHandler {
     }
   }
 }
+
+function matchRoom(matchId: string): string {
+  return `match:${matchId}`;
+}
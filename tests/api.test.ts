@@ -0,0 +1,418 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { VisualizationServer } from '../src/visualization/VisualizationServer.js';
+import { GameManager } from '../src/game/GameManager.js';
+import { invertMoves } from '../src/notation.js';
+import {
+  BenchmarkResults, BenchmarkRun, BenchmarkSuite, CubeAnalysis, CubeSolution, CubeState, GameAccessLinks, GameSession,
+  HistoryPosition, MatchScoreboard, MoveRecord, PlayerStats, ScrambleInfo, TimerStatus
+} from '../src/types.js';
+
+let server: VisualizationServer;
+let gameManager: GameManager;
+let baseUrl: string;
+
+// 만든 게임의 소유자 토큰 - 게임별 요청에 자동으로 붙임 (token을 주면 그 토큰 사용, null이면 없이)
+const ownerTokens = new Map<string, string>();
+
+// 게임 라우트 응답 (생성, 조회, 회전, 히스토리 이동, 초기화) - 실패하면 error만 옴
+interface GameBody {
+  success: boolean;
+  gameId: string;
+  state: CubeState;
+  status: GameSession['status'];
+  scramble: ScrambleInfo;
+  timer: TimerStatus;
+  access: GameAccessLinks;
+  history: HistoryPosition;
+  error: string;
+  position: number;
+}
+
+// 히스토리 조회 응답
+interface HistoryBody {
+  gameId: string;
+  size: number;
+  cursor: number;
+  totalMoves: number;
+  completedAt: number | null;
+  initialState: CubeState;
+  moves: MoveRecord[];
+  branches: { fromIndex: number; abandonedAt: number; moves: MoveRecord[] }[];
+}
+
+// 대결 참가 응답 - 다시 참가하면 access 없음
+type MatchJoinBody = Omit<GameBody, 'access'> & { matchId: string; slot: number; rejoined: boolean; access?: GameAccessLinks };
+
+async function request<T = GameBody>(method: string, path: string, body?: unknown, token?: string | null): Promise<{ status: number; body: T }> {
+  const gameId = path.match(/^\/api\/(?:cube|games)\/([^/?]+)/)?.[1];
+  const bearer = token === undefined && gameId ? ownerTokens.get(gameId) : token;
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      ...(bearer ? { Authorization: `Bearer ${bearer}` } : {})
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const type = response.headers.get('content-type') ?? '';
+  const data: unknown = type.includes('json') ? await response.json() : await response.text();
+  const created = data as Partial<GameBody> | null;
+  if (created?.gameId && created.access) {
+    ownerTokens.set(created.gameId, created.access.ownerToken);
+  }
+  return { status: response.status, body: data as T };
+}
+
+async function createGame(options: Record<string, unknown> = { scramble: false }): Promise<string> {
+  const { status, body } = await request('POST', '/api/games', options);
+  expect(status).toBe(201);
+  return body.gameId;
+}
+
+beforeAll(async () => {
+  gameManager = new GameManager();
+  server = new VisualizationServer(gameManager);
+  const port = await server.start(0);
+  baseUrl = `http://localhost:${port}`;
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+describe('REST API', () => {
+  it('creates a game and reports its state', async () => {
+    const gameId = await createGame({ scramble: false, size: 4 });
+    const { status, body } = await request('GET', `/api/cube/${gameId}`);
+
+    expect(status).toBe(200);
+    expect(body.state.size).toBe(4);
+    expect(body.state.solved).toBe(true);
+    expect(body.status).toBe('active');
+  });
+
+  it('creates reproducible scrambles from a seed', async () => {
+    const first = await request('POST', '/api/games', { seed: 42, difficulty: 15 });
+    const second = await request('POST', '/api/games', { seed: 42, difficulty: 15 });
+    expect(first.body.scramble.moves).toHaveLength(15);
+    expect(second.body.scramble.moves).toEqual(first.body.scramble.moves);
+  });
+
+  it('rejects invalid game options', async () => {
+    const { status, body } = await request('POST', '/api/games', { size: 9 });
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/size/);
+  });
+
+  it('executes moves and completes the game when solved', async () => {
+    const gameId = await createGame();
+
+    let response = await request('POST', `/api/cube/${gameId}/move`, { move: 'R' });
+    expect(response.status).toBe(200);
+    expect(response.body.state.solved).toBe(false);
+    expect(response.body.state.moveHistory).toEqual(['R']);
+
+    response = await request('POST', `/api/cube/${gameId}/moves`, { algorithm: "U R U'" });
+    expect(response.status).toBe(200);
+    expect(response.body.state.solved).toBe(false);
+
+    response = await request('POST', `/api/cube/${gameId}/moves`, { algorithm: "U R' U' R'" });
+    expect(response.body.state.solved).toBe(true);
+    expect(response.body.status).toBe('completed');
+
+    // 끝난 게임은 어느 라우트로도 더 돌릴 수 없음
+    expect((await request('POST', `/api/cube/${gameId}/move`, { move: 'R' })).status).toBe(409);
+    expect((await request('POST', `/api/cube/${gameId}/moves`, { algorithm: 'R' })).status).toBe(409);
+  });
+
+  it('rejects invalid moves and unknown games', async () => {
+    const gameId = await createGame();
+
+    expect((await request('POST', `/api/cube/${gameId}/move`, { move: 'Q' })).status).toBe(400);
+    const parse = await request('POST', `/api/cube/${gameId}/moves`, { algorithm: 'R U X' });
+    expect(parse.status).toBe(400);
+    expect(parse.body.position).toBe(4);
+    expect((await request('GET', '/api/cube/missing')).status).toBe(404);
+    expect((await request('POST', '/api/cube/missing/move', { move: 'R' })).status).toBe(404);
+  });
+
+  it('undoes and redoes moves', async () => {
+    const gameId = await createGame();
+    await request('POST', `/api/cube/${gameId}/moves`, { algorithm: 'R U' });
+
+    let response = await request('POST', `/api/cube/${gameId}/undo`);
+    expect(response.body.state.moveHistory).toEqual(['R']);
+    expect(response.body.history.canRedo).toBe(true);
+
+    response = await request('POST', `/api/cube/${gameId}/redo`);
+    expect(response.body.state.moveHistory).toEqual(['R', 'U']);
+
+    response = await request('POST', `/api/cube/${gameId}/jump`, { index: 0 });
+    expect(response.body.state.solved).toBe(true);
+    expect(response.body.status).toBe('completed');
+    expect((await request('POST', `/api/cube/${gameId}/undo`)).status).toBe(409);
+  });
+
+  it('records who made each move and when, for move events, history and replay', async () => {
+    const gameId = await createGame();
+    const events: MoveRecord[] = [];
+    const listener = (session: GameSession, records: MoveRecord[]) => events.push(...records);
+    gameManager.on('moves', listener);
+
+    await request('POST', `/api/cube/${gameId}/moves`, { algorithm: 'R U' });
+    gameManager.applyMoves(gameId, ['F']);
+    await request('POST', `/api/cube/${gameId}/undo`);
+    await request('POST', `/api/cube/${gameId}/move`, { move: 'L' });
+    gameManager.off('moves', listener);
+
+    expect(events.map(({ index, move, actor }) => [index, move, actor])).toEqual([
+      [0, 'R', 'web'], [1, 'U', 'web'], [2, 'F', 'mcp'], [2, 'L', 'web']
+    ]);
+
+    const history = await request<HistoryBody>('GET', `/api/cube/${gameId}/history`);
+    expect(history.body).toMatchObject({ gameId, size: 3, cursor: 3, totalMoves: 3, completedAt: null });
+    expect(history.body.moves.map(({ index, move, actor }) => [index, move, actor])).toEqual([[0, 'R', 'web'], [1, 'U', 'web'], [2, 'L', 'web']]);
+    expect(history.body.moves[2].timestamp).toBeGreaterThanOrEqual(history.body.moves[0].timestamp!);
+    expect(history.body.branches).toEqual([
+      expect.objectContaining({ fromIndex: 2, moves: [expect.objectContaining({ index: 2, move: 'F', actor: 'mcp' })] })
+    ]);
+    expect(history.body.initialState.solved).toBe(true);
+    expect((await request('GET', `/api/cube/${gameId}/history`, undefined, null)).status).toBe(401);
+
+    const token = ownerTokens.get(gameId);
+    const start = await fetch(`${baseUrl}/api/cube/${gameId}/image.svg?at=0&token=${token}`);
+    const now = await fetch(`${baseUrl}/api/cube/${gameId}/image.svg?token=${token}`);
+    expect(await start.text()).not.toBe(await now.text());
+    expect((await fetch(`${baseUrl}/api/cube/${gameId}/image.svg?at=9&token=${token}`)).status).toBe(400);
+
+    expect((await fetch(`${baseUrl}/game/${gameId}/replay`)).status).toBe(401);
+    const replay = await fetch(`${baseUrl}/game/${gameId}/replay?token=${token}`);
+    const html = await replay.text();
+    expect(replay.status).toBe(200);
+    expect(html).toContain('3 moves');
+    expect(html).toContain('data-index="2" title="web">L</span>');
+  });
+
+  it('solves within the time budget and validates solver options', async () => {
+    const created = await request('POST', '/api/games', { seed: 7, difficulty: 18 });
+    const gameId = created.body.gameId;
+
+    expect((await request('GET', `/api/cube/${gameId}/solution?timeoutMs=abc`)).status).toBe(400);
+    expect((await request('GET', `/api/cube/${gameId}/solution?timeoutMs=99999999`)).status).toBe(400);
+    expect((await request('GET', `/api/cube/${gameId}/solution?maxLength=0`)).status).toBe(400);
+
+    const solved = await request<CubeSolution>('GET', `/api/cube/${gameId}/solution?timeoutMs=0`);
+    expect(solved.status).toBe(200);
+    expect(solved.body.length).toBeLessThanOrEqual(30);
+
+    // 해가 없을 수 있는 짧은 길이도 시간 한도 안에 끝남
+    const startedAt = Date.now();
+    const short = await request('GET', `/api/cube/${gameId}/solution?maxLength=14&timeoutMs=100`);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(short.status).toBe(422);
+    expect(short.body.error).toMatch(/time budget/);
+  });
+
+  it('exports facelets and renders images', async () => {
+    const gameId = await createGame();
+
+    const facelets = await request<string>('GET', `/api/cube/${gameId}/export?format=facelets`);
+    expect(facelets.body).toBe('UUUUUUUUURRRRRRRRRFFFFFFFFFDDDDDDDDDLLLLLLLLLBBBBBBBBB');
+
+    const image = await fetch(`${baseUrl}/api/cube/${gameId}/image.svg?view=isometric&move=R&token=${ownerTokens.get(gameId)}`);
+    expect(image.headers.get('content-type')).toMatch(/image\/svg\+xml/);
+    expect(await image.text()).toMatch(/^<svg/);
+  });
+
+  it('analyzes CFOP progress', async () => {
+    const created = await request('POST', '/api/games', { initialState: "R U R' U'" });
+    const analysis = await request<CubeAnalysis>('GET', `/api/cube/${created.body.gameId}/analysis`);
+    expect(analysis.body).toMatchObject({ stages: ['cross'], crossFace: 'bottom', crossEdges: 4, f2lPairs: 3 });
+    expect((await request('GET', '/api/cube/missing/analysis')).status).toBe(404);
+  });
+
+  it('suggests hints and rejects counts outside 1-5 like the getHint tool', async () => {
+    const created = await request('POST', '/api/games', { initialState: "R U" });
+    const gameId = created.body.gameId;
+
+    for (const count of [0, 6, 2.5, 'two']) {
+      const rejected = await request('POST', `/api/cube/${gameId}/hint`, { count });
+      expect(rejected.status, String(count)).toBe(400);
+      expect(rejected.body.error).toMatch(/count must be an integer between 1 and 5/);
+    }
+
+    const hint = await request<{ moves: string[]; hintsUsed: number }>('POST', `/api/cube/${gameId}/hint`, { count: 2 });
+    expect(hint.body).toEqual(expect.objectContaining({ moves: ["U'", "R'"], hintsUsed: 1 }));
+    expect((await request('POST', '/api/cube/missing/hint', { count: 9 })).status).toBe(404);
+  });
+
+  it('deletes and resets games', async () => {
+    const created = await request('POST', '/api/games', { initialState: 'R' });
+    const gameId = created.body.gameId;
+    await request('POST', `/api/cube/${gameId}/move`, { move: 'U' });
+
+    const reset = await request('POST', `/api/games/${gameId}/reset`);
+    expect(reset.body).toMatchObject({ success: true, status: 'active' });
+    expect(reset.body.state.moveHistory).toEqual(['R']);
+
+    expect((await request('DELETE', `/api/games/${gameId}`)).body).toMatchObject({ success: true, gameId });
+    expect((await request('GET', `/api/cube/${gameId}`)).status).toBe(404);
+    expect((await request('DELETE', `/api/games/${gameId}`)).status).toBe(404);
+    expect((await request('POST', `/api/games/${gameId}/reset`)).status).toBe(404);
+  });
+
+  it('times solves and reports player statistics', async () => {
+    expect((await request('POST', '/api/games', { timed: true, player: '' })).status).toBe(400);
+
+    const created = await request('POST', '/api/games', { initialState: 'R', timed: true, player: 'web-player' });
+    expect(created.body.timer).toMatchObject({ player: 'web-player', phase: 'inspection' });
+
+    const moved = await request('POST', `/api/cube/${created.body.gameId}/move`, { move: "R'" });
+    expect(moved.body.timer).toMatchObject({ phase: 'finished', splits: [{ stage: 'cross' }, { stage: 'f2l' }, { stage: 'oll' }, { stage: 'pll' }] });
+
+    const stats = await request<PlayerStats[]>('GET', '/api/stats?player=web-player');
+    expect(stats.body).toEqual([expect.objectContaining({ player: 'web-player', solves: 1, dnfs: 0, best: moved.body.timer.timeMs })]);
+  });
+});
+
+describe('benchmark API', () => {
+  it('runs a suite and exports the leaderboard as JSON and CSV', async () => {
+    expect((await request('POST', '/api/benchmarks', { name: 'bad', count: 0 })).status).toBe(400);
+
+    const suite = await request<BenchmarkSuite>('POST', '/api/benchmarks', { name: '2x2 daily', size: 2, seed: 5, count: 2 });
+    expect(suite.status).toBe(201);
+    expect(suite.body.scrambles).toHaveLength(2);
+    const suiteId = suite.body.id;
+
+    expect((await request('POST', `/api/benchmarks/${suiteId}/runs`, {})).status).toBe(400);
+    const run = await request<BenchmarkRun>('POST', `/api/benchmarks/${suiteId}/runs`, { agent: 'web-agent', model: 'test-model', config: { tools: 'all' } });
+    expect(run.status).toBe(201);
+
+    const started = await request('POST', `/api/benchmarks/${suiteId}/runs/${run.body.id}/scrambles/0/start`);
+    expect(started.body.scramble.seed).toBe(suite.body.scrambles[0].seed);
+    const solution = invertMoves(suite.body.scrambles[0].scramble);
+    await request('POST', `/api/cube/${started.body.gameId}/moves`, { algorithm: solution.join(' ') });
+
+    const results = await request<BenchmarkResults>('GET', `/api/benchmarks/${suiteId}/results`);
+    expect(results.body.leaderboard).toEqual([expect.objectContaining({ rank: 1, agent: 'web-agent', model: 'test-model', solved: 1, attempted: 1 })]);
+    expect(results.body.attempts.map(attempt => attempt.status)).toEqual(['solved', 'pending']);
+
+    const csv = await request<string>('GET', `/api/benchmarks/${suiteId}/results?format=csv`);
+    expect(csv.body.split('\n')).toHaveLength(4);
+    expect(csv.body).toContain(`,web-agent,test-model,0,${suite.body.scrambles[0].seed},${started.body.gameId},solved,${solution.length},`);
+
+    const page = await fetch(`${baseUrl}/benchmarks/${suiteId}`);
+    expect(await page.text()).toContain('web-agent');
+
+    expect((await request('GET', '/api/benchmarks/missing/results')).status).toBe(404);
+    expect((await request('GET', `/api/benchmarks/${suiteId}/results?format=xml`)).status).toBe(400);
+    expect((await request('POST', `/api/benchmarks/${suiteId}/runs/missing/scrambles/0/start`)).status).toBe(404);
+  });
+});
+
+describe('match API', () => {
+  it('races players on the same scramble and shows the scoreboard', async () => {
+    expect((await request('POST', '/api/matches', { players: 9 })).status).toBe(400);
+
+    const created = await request<MatchScoreboard & { viewUrl: string }>('POST', '/api/matches', { name: 'Duel', players: 2, seed: 3, difficulty: 8 });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ name: 'Duel', status: 'waiting', openSlots: 2, standings: [] });
+    const { matchId, scramble } = created.body;
+    expect(created.body.viewUrl).toBe(`${baseUrl}/match/${matchId}`);
+
+    const alice = await request<MatchJoinBody>('POST', `/api/matches/${matchId}/join`, { player: 'alice' });
+    expect(alice.body).toMatchObject({ slot: 0, scramble: { seed: 3, moves: scramble } });
+    expect(alice.body.access!.ownerToken).toBeDefined();
+    const rejoin = await request('POST', `/api/matches/${matchId}/join`, { player: 'alice' });
+    expect(rejoin.status).toBe(403);
+    expect(JSON.stringify(rejoin.body)).not.toContain(alice.body.access!.ownerToken);
+    const rejoined = await request<MatchJoinBody>('POST', `/api/matches/${matchId}/join`, { player: 'alice', token: alice.body.access!.ownerToken });
+    expect(rejoined.body).toMatchObject({ slot: 0, gameId: alice.body.gameId, rejoined: true });
+    expect(rejoined.body.access).toBeUndefined();
+    await request('POST', `/api/matches/${matchId}/join`, { player: 'bob' });
+    expect((await request('POST', `/api/matches/${matchId}/join`, { player: 'carol' })).status).toBe(409);
+    expect((await request('POST', '/api/matches/missing/join', { player: 'carol' })).status).toBe(404);
+
+    await request('POST', `/api/cube/${alice.body.gameId}/moves`, { algorithm: invertMoves(scramble).join(' ') });
+    const scoreboard = await request<MatchScoreboard>('GET', `/api/matches/${matchId}`);
+    expect(scoreboard.body).toMatchObject({ status: 'racing', winner: 'alice' });
+    expect(scoreboard.body.standings.map(standing => [standing.player, standing.status])).toEqual([['alice', 'solved'], ['bob', 'racing']]);
+    expect(JSON.stringify(scoreboard.body)).not.toContain(alice.body.access!.ownerToken);
+
+    const listed = await request<Omit<MatchScoreboard, 'standings' | 'scramble'>[]>('GET', '/api/matches');
+    expect(listed.body).toEqual(expect.arrayContaining([expect.objectContaining({ matchId, winner: 'alice' })]));
+
+    const page = await fetch(`${baseUrl}/match/${matchId}`);
+    const html = await page.text();
+    expect(html).toContain('Duel');
+    expect(html).toContain(`/api/cube/${alice.body.gameId}/image.svg?view=isometric&amp;token=`);
+    expect((await fetch(`${baseUrl}/match/missing`)).status).toBe(404);
+  });
+});
+
+describe('game access tokens', () => {
+  it('needs the owner token to move and any token to watch', async () => {
+    const created = await request('POST', '/api/games', { initialState: 'R' });
+    const { gameId, access } = created.body;
+    expect(access.playUrl).toBe(`${server.getBaseUrl()}/game/${gameId}?token=${access.ownerToken}`);
+
+    expect((await request('GET', `/api/cube/${gameId}`, undefined, null)).status).toBe(401);
+    expect((await request('POST', `/api/cube/${gameId}/move`, { move: "R'" }, 'wrong')).status).toBe(401);
+    expect((await request('GET', `/api/cube/${gameId}`, undefined, access.spectatorToken)).status).toBe(200);
+    expect((await request('GET', `/api/cube/${gameId}/analysis?token=${access.spectatorToken}`, undefined, null)).status).toBe(200);
+
+    const spectatorMove = await request('POST', `/api/cube/${gameId}/move`, { move: "R'" }, access.spectatorToken);
+    expect(spectatorMove.status).toBe(403);
+    expect(spectatorMove.body.error).toMatch(/read-only/);
+    expect((await request('DELETE', `/api/games/${gameId}`, undefined, access.spectatorToken)).status).toBe(403);
+
+    expect((await request('POST', `/api/cube/${gameId}/move`, { move: "R'" }, access.ownerToken)).body.status).toBe('completed');
+  });
+
+  it('opens the game page from play and share links and remembers the token in a cookie', async () => {
+    const { gameId, access } = (await request('POST', '/api/games', { scramble: false })).body;
+
+    expect((await fetch(`${baseUrl}/game/${gameId}`)).status).toBe(401);
+
+    const shared = await fetch(`${baseUrl}/game/${gameId}?token=${access.spectatorToken}`);
+    expect(await shared.text()).toContain('read-only share link');
+    const cookie = shared.headers.get('set-cookie')!.split(';')[0];
+    const withCookie = await fetch(`${baseUrl}/api/cube/${gameId}`, { headers: { Cookie: cookie } });
+    expect(withCookie.status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/cube/${gameId}/move`, { method: 'POST', headers: { Cookie: cookie } })).status).toBe(403);
+
+    const played = await (await fetch(access.playUrl.replace(server.getBaseUrl(), baseUrl))).text();
+    expect(played).toContain('move-btn');
+    expect(played).toContain(access.shareUrl);
+  });
+
+  it('keeps games saved before tokens existed open', async () => {
+    const session = gameManager.createGame({ scramble: false });
+    delete session.access;
+    expect((await request('POST', `/api/cube/${session.id}/move`, { move: 'R' }, null)).status).toBe(200);
+  });
+});
+
+describe('CORS origins', () => {
+  it('answers only configured origins for the REST API and WebSocket', async () => {
+    const restricted = new VisualizationServer(new GameManager());
+    const port = await restricted.start(0, { corsOrigins: ['https://app.example'] });
+    const url = `http://localhost:${port}`;
+    try {
+      const allowed = await fetch(`${url}/api/games`, { method: 'OPTIONS', headers: { Origin: 'https://app.example' } });
+      expect(allowed.status).toBe(204);
+      expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example');
+      expect(allowed.headers.get('access-control-allow-headers')).toContain('Authorization');
+
+      const other = await fetch(`${url}/api/games`, { headers: { Origin: 'https://evil.example' } });
+      expect(other.headers.get('access-control-allow-origin')).toBeNull();
+
+      const handshake = (origin: string) => fetch(`${url}/socket.io/?EIO=4&transport=polling`, { headers: { Origin: origin } });
+      expect((await handshake('https://app.example')).status).toBe(200);
+      expect((await handshake('https://evil.example')).status).toBe(403);
+    } finally {
+      await restricted.stop();
+    }
+  });
+});
+
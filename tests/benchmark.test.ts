@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { invertMoves } from '../src/notation.js';
+import { GameManager } from '../src/game/GameManager.js';
+import { BenchmarkManager, BenchmarkNotFoundError, REFERENCE_SOLVER_NODES, resultsToCsv } from '../src/benchmark/BenchmarkManager.js';
+import { RubiksCube } from '../src/cubeLogic.js';
+import { solveCube } from '../src/solver/TwoPhaseSolver.js';
+
+function setup() {
+  const gameManager = new GameManager();
+  return { gameManager, benchmarks: new BenchmarkManager(gameManager) };
+}
+
+describe('benchmark suites', () => {
+  it('builds the same scrambles from the same seed', async () => {
+    const { benchmarks } = setup();
+    const a = await benchmarks.createSuite({ name: 'daily', seed: 42, count: 3 });
+    const b = await benchmarks.createSuite({ name: 'daily again', seed: 42, count: 3 });
+
+    expect(a.scrambles.map(scramble => scramble.scramble)).toEqual(b.scrambles.map(scramble => scramble.scramble));
+    expect(a.scrambles.map(scramble => scramble.solverLength)).toEqual(b.scrambles.map(scramble => scramble.solverLength));
+    expect(a).toMatchObject({ size: 3, scrambleMode: 'random-state', seed: 42, solverNodes: REFERENCE_SOLVER_NODES });
+    for (const { scramble, solverLength } of a.scrambles) {
+      expect(solverLength).toBeGreaterThan(0);
+      expect(solverLength).toBeLessThanOrEqual(scramble.length);
+    }
+
+    // 기준 해법은 솔버의 첫 해법보다 다듬어진 해법 (노드 예산이라 실행마다 같음)
+    const firstLengths = a.scrambles.map(({ scramble }) => {
+      const cube = new RubiksCube(3);
+      cube.executeMoves(scramble);
+      return solveCube(cube.getState(), { timeoutMs: 0 }).length;
+    });
+    const references = a.scrambles.map(scramble => scramble.solverLength!);
+    references.forEach((length, i) => expect(length).toBeLessThanOrEqual(firstLengths[i]));
+    expect(references.reduce((x, y) => x + y)).toBeLessThan(firstLengths.reduce((x, y) => x + y));
+
+    const fixed = await benchmarks.createSuite({ name: 'fixed', seeds: [7, 8], size: 4, difficulty: 10 });
+    expect(fixed.scrambles.map(scramble => scramble.seed)).toEqual([7, 8]);
+    expect(fixed).toMatchObject({ scrambleMode: 'moves', solverNodes: null });
+    expect(fixed.scrambles[0]).toMatchObject({ solverLength: null });
+    expect(fixed.scrambles[0].scramble).toHaveLength(10);
+  });
+
+  it('rejects invalid suites and runs', async () => {
+    const { benchmarks } = setup();
+    await expect(benchmarks.createSuite({ name: '' })).rejects.toThrow(/name/);
+    await expect(benchmarks.createSuite({ name: 'x', count: 0 })).rejects.toThrow(/count/);
+    await expect(benchmarks.createSuite({ name: 'x', size: 5, scrambleMode: 'random-state' })).rejects.toThrow(/2x2 and 3x3/);
+
+    const suite = await benchmarks.createSuite({ name: 'x', size: 2, count: 1 });
+    expect(() => benchmarks.registerRun(suite.id, { agent: ' ' })).toThrow(/agent/);
+    expect(() => benchmarks.registerRun('missing', { agent: 'bot' })).toThrow(BenchmarkNotFoundError);
+    const run = benchmarks.registerRun(suite.id, { agent: 'bot' });
+    expect(() => benchmarks.startScramble(suite.id, run.id, 1)).toThrow(/between 0 and 0/);
+  });
+});
+
+describe('benchmark results', () => {
+  it('scores runs per scramble and ranks them', async () => {
+    const { gameManager, benchmarks } = setup();
+    const suite = await benchmarks.createSuite({ name: 'ranked', seed: 1, count: 2 });
+    const careful = benchmarks.registerRun(suite.id, { agent: 'careful', model: 'model-a', config: { temperature: 0 } });
+    const sloppy = benchmarks.registerRun(suite.id, { agent: 'sloppy' });
+
+    // careful: 섞기 역순으로 풂, sloppy: 불필요한 회전을 더 하고 한 문제는 풀지 않음
+    for (const index of [0, 1]) {
+      const game = benchmarks.startScramble(suite.id, careful.id, index);
+      expect(benchmarks.startScramble(suite.id, careful.id, index).id).toBe(game.id);
+      expect(game.scramble!.seed).toBe(suite.scrambles[index].seed);
+      gameManager.applyMoves(game.id, invertMoves(suite.scrambles[index].scramble));
+    }
+    const slow = benchmarks.startScramble(suite.id, sloppy.id, 0);
+    gameManager.recordToolCall(slow.id, 'manipulateCube');
+    gameManager.recordToolCall(slow.id, 'solveCube');
+    gameManager.applyMoves(slow.id, ['y', "y'", 'R', "R'", ...invertMoves(suite.scrambles[0].scramble)]);
+    benchmarks.startScramble(suite.id, sloppy.id, 1);
+
+    const results = benchmarks.getResults(suite.id);
+    expect(results.suite).toMatchObject({ id: suite.id, name: 'ranked', scrambleCount: 2 });
+    expect(results.leaderboard.map(run => [run.rank, run.agent, run.solved, run.attempted])).toEqual([
+      [1, 'careful', 2, 2],
+      [2, 'sloppy', 1, 2]
+    ]);
+
+    const [first] = results.attempts.filter(attempt => attempt.runId === sloppy.id);
+    const scramble = suite.scrambles[0];
+    expect(first).toMatchObject({
+      agent: 'sloppy',
+      status: 'solved',
+      moves: scramble.scramble.length + 2,
+      toolCalls: 2,
+      solverCalls: 1,
+      hintsUsed: 0,
+      solverLength: scramble.solverLength,
+      efficiency: Math.round(scramble.solverLength! / (scramble.scramble.length + 2) * 1000) / 1000
+    });
+    expect(first.timeMs).toBeGreaterThanOrEqual(0);
+    expect(results.attempts.find(attempt => attempt.runId === sloppy.id && attempt.scrambleIndex === 1)).toMatchObject({
+      status: 'active', timeMs: null, efficiency: null
+    });
+
+    gameManager.finish(results.attempts[3].gameId!);
+    expect(benchmarks.getResults(suite.id).attempts[3].status).toBe('unsolved');
+  });
+
+  it('exports per-scramble results as CSV', async () => {
+    const { benchmarks } = setup();
+    const suite = await benchmarks.createSuite({ name: 'csv', size: 2, seeds: [3] });
+    benchmarks.registerRun(suite.id, { agent: 'agent, "quoted"' });
+
+    const [header, row, end] = resultsToCsv(benchmarks.getResults(suite.id)).split('\n');
+    expect(header).toBe('runId,agent,model,scrambleIndex,seed,gameId,status,moves,solverLength,efficiency,timeMs,toolCalls,solverCalls,hintsUsed');
+    expect(row).toMatch(/^run_\w+,"agent, ""quoted""",,0,3,,pending,0,,,,0,0,0$/);
+    expect(end).toBe('');
+  });
+});
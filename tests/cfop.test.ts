@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { RubiksCube } from '../src/cubeLogic.js';
+import { parseAlgorithm, invertMoves } from '../src/notation.js';
+import { analyzeCube, detectStages } from '../src/cfop.js';
+import { CubieCube } from '../src/solver/CubieCube.js';
+import { faceletsToState } from '../src/facelets.js';
+
+function stateAfter(algorithm: string, size: number = 3) {
+  const cube = new RubiksCube(size);
+  cube.executeMoves(parseAlgorithm(algorithm, size));
+  return cube.getState();
+}
+
+// 알고리즘으로 풀리는 케이스 상태
+function caseOf(algorithm: string) {
+  return stateAfter(invertMoves(parseAlgorithm(algorithm)).join(' '));
+}
+
+// CubieCube -> CubeState (Kociemba facelet 배치)
+const CORNER_FACELETS = [[8, 9, 20], [6, 18, 38], [0, 36, 47], [2, 45, 11], [29, 26, 15], [27, 44, 24], [33, 53, 42], [35, 17, 51]];
+const EDGE_FACELETS = [[5, 10], [7, 19], [3, 37], [1, 46], [32, 16], [28, 25], [30, 43], [34, 52], [23, 12], [21, 41], [50, 39], [48, 14]];
+const CORNER_COLORS = ['URF', 'UFL', 'ULB', 'UBR', 'DFR', 'DLF', 'DBL', 'DRB'];
+const EDGE_COLORS = ['UR', 'UF', 'UL', 'UB', 'DR', 'DF', 'DL', 'DB', 'FR', 'FL', 'BL', 'BR'];
+
+function cubieState(cube: CubieCube) {
+  const facelets = Array.from({ length: 54 }, (_, i) => 'URFDLB'[Math.floor(i / 9)]);
+  cube.cp.forEach((corner, i) => [0, 1, 2].forEach(n => { facelets[CORNER_FACELETS[i][(n + cube.co[i]) % 3]] = CORNER_COLORS[corner][n]; }));
+  cube.ep.forEach((edge, i) => [0, 1].forEach(n => { facelets[EDGE_FACELETS[i][(n + cube.eo[i]) % 2]] = EDGE_COLORS[edge][n]; }));
+  const state = new RubiksCube(3);
+  state.setState(faceletsToState(facelets.join('')));
+  return state.getState();
+}
+
+function permutations(items: number[]): number[][] {
+  return items.length <= 1 ? [items] : items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+}
+
+function parity(perm: number[]): number {
+  let inversions = 0;
+  perm.forEach((a, i) => perm.slice(i + 1).forEach(b => { if (a > b) inversions++; }));
+  return inversions % 2;
+}
+
+describe('CFOP stage detection', () => {
+  it('reports the stages completed on the best cross face', () => {
+    expect(detectStages(stateAfter('')).stages).toEqual(['cross', 'f2l', 'oll', 'pll']);
+    expect(detectStages(stateAfter("R U R' U'")).stages).toEqual(['cross']);
+    expect(detectStages(stateAfter("R U R' U R U2 R'")).stages).toEqual(['cross', 'f2l']);
+    expect(detectStages(stateAfter("R U R' U' R' F R2 U' R' U' R U R' F'")).stages).toEqual(['cross', 'f2l', 'oll']);
+    expect(detectStages(stateAfter('F R')).stages).toEqual([]);
+  });
+
+  it('is color neutral and follows the centers after rotations', () => {
+    expect(detectStages(stateAfter("D R D'"))).toMatchObject({ stages: ['cross'], crossFace: 'left' });
+    expect(detectStages(stateAfter("x2 R U R' U R U2 R'"))).toMatchObject({ stages: ['cross', 'f2l'], crossColor: 'W' });
+  });
+});
+
+describe('cube analysis', () => {
+  it('counts cross edges, F2L pairs, solved cubies and misoriented edges', () => {
+    expect(analyzeCube(stateAfter(''))).toEqual({
+      stages: ['cross', 'f2l', 'oll', 'pll'],
+      crossFace: 'bottom',
+      crossColor: 'Y',
+      crossEdges: 4,
+      f2lPairs: 4,
+      ollCase: null,
+      pllCase: null,
+      solvedCubies: 20,
+      totalCubies: 20,
+      misorientedEdges: 0
+    });
+
+    expect(analyzeCube(stateAfter("R U R' U'"))).toMatchObject({ stages: ['cross'], crossEdges: 4, f2lPairs: 3, ollCase: null });
+    expect(analyzeCube(stateAfter('F'))).toMatchObject({ crossFace: 'back', misorientedEdges: 4, pllCase: 'AUF' });
+
+    const superflip = analyzeCube(stateAfter("U R2 F B R B2 R U2 L B2 R U' D' R2 F R' L B2 U2 F2"));
+    expect(superflip).toMatchObject({ stages: [], crossEdges: 0, solvedCubies: 8, misorientedEdges: 12 });
+  });
+
+  it('names OLL and PLL cases regardless of AUF and rotation', () => {
+    expect(analyzeCube(caseOf("R U R' U R U2 R'")).ollCase).toBe('OLL 27 (Sune)');
+    expect(analyzeCube(caseOf("U F R U R' U' F' U2")).ollCase).toBe('OLL 45');
+    expect(analyzeCube(caseOf("x2 y R U2 R' U' R U' R'")).ollCase).toBe('OLL 26 (Antisune)');
+    expect(analyzeCube(caseOf("R U R' U' R' F R2 U' R' U' R U R' F'")).pllCase).toBe('T-perm');
+    expect(analyzeCube(caseOf("U' M2 U M2 U2 M2 U M2 U2")).pllCase).toBe('H-perm');
+    expect(analyzeCube(caseOf('U')).pllCase).toBe('AUF');
+  });
+
+  it('recognizes every last layer state as exactly one of the 57 OLL and 21 PLL cases', () => {
+    const ollCases = new Set<string | null>();
+    for (let twist = 0; twist < 27; twist++) {
+      for (let flip = 0; flip < 8; flip++) {
+        const co = [twist % 3, Math.floor(twist / 3) % 3, Math.floor(twist / 9)];
+        const eo = [flip & 1, (flip >> 1) & 1, (flip >> 2) & 1];
+        co.push((6 - co[0] - co[1] - co[2]) % 3);
+        eo.push((eo[0] + eo[1] + eo[2]) % 2);
+        if (twist === 0 && flip === 0) continue;
+        ollCases.add(analyzeCube(cubieState(new CubieCube(undefined, [...co, 0, 0, 0, 0], undefined, [...eo, ...Array(8).fill(0)]))).ollCase);
+      }
+    }
+    expect(ollCases.has(null)).toBe(false);
+    expect(ollCases.size).toBe(57);
+
+    const pllCases = new Map<string | null, number>();
+    for (const cp of permutations([0, 1, 2, 3])) {
+      for (const ep of permutations([0, 1, 2, 3])) {
+        if (parity(cp) !== parity(ep)) continue;
+        const cube = new CubieCube([...cp, 4, 5, 6, 7], undefined, [...ep, 4, 5, 6, 7, 8, 9, 10, 11]);
+        if (cube.isSolved()) continue;
+        const { pllCase } = analyzeCube(cubieState(cube));
+        pllCases.set(pllCase, (pllCases.get(pllCase) ?? 0) + 1);
+      }
+    }
+    expect(pllCases.has(null)).toBe(false);
+    expect(pllCases.size).toBe(22);   // 21 PLL + AUF
+    expect(pllCases.get('H-perm')).toBe(4);
+    expect(pllCases.get('T-perm')).toBe(16);
+  });
+
+  it('reports solved pieces on other sizes', () => {
+    expect(analyzeCube(stateAfter('', 4))).toMatchObject({ stages: ['cross', 'f2l', 'oll', 'pll'], solvedCubies: 56, totalCubies: 56, crossEdges: null });
+    expect(analyzeCube(stateAfter('R', 5))).toMatchObject({ stages: [], solvedCubies: 76, totalCubies: 92, ollCase: null });
+  });
+});
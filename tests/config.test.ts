@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { loadConfig, resolveBaseUrl } from '../src/config.js';
+import { VisualizationServer } from '../src/visualization/VisualizationServer.js';
+import { GameManager } from '../src/game/GameManager.js';
+
+const tempDirs: string[] = [];
+
+function writeConfigFile(content: unknown): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cube-config-'));
+  tempDirs.push(dir);
+  const file = path.join(dir, 'config.json');
+  fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+  return file;
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe('loadConfig', () => {
+  it('uses defaults when nothing is configured', () => {
+    expect(loadConfig([], {})).toEqual({
+      host: undefined, port: 3000, autoPort: true, publicUrl: undefined, transport: 'stdio', sessionTtlMinutes: 0, maxSessions: 0, corsOrigins: ['*']
+    });
+  });
+
+  it('prefers CLI options over environment variables over the config file', () => {
+    const file = writeConfigFile({ port: 4000, host: '127.0.0.1', publicUrl: 'https://file.example', transport: 'both' });
+    const config = loadConfig(['--config', file, '--port=5000', '--no-auto-port', '--max-sessions', '50'], {
+      PORT: '4500', PUBLIC_URL: 'https://cube.example/', SESSION_TTL_MINUTES: '30', CORS_ORIGINS: 'https://app.example/, null'
+    });
+
+    expect(config).toEqual({
+      host: '127.0.0.1',
+      port: 5000,
+      autoPort: false,
+      publicUrl: 'https://cube.example',
+      transport: 'both',
+      sessionTtlMinutes: 30,
+      maxSessions: 50,
+      corsOrigins: ['https://app.example', 'null']
+    });
+  });
+
+  it('reads the config file named by RUBIKS_CUBE_CONFIG', () => {
+    const file = writeConfigFile({ autoPort: false });
+    expect(loadConfig([], { RUBIKS_CUBE_CONFIG: file }).autoPort).toBe(false);
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() => loadConfig(['--port', 'abc'], {})).toThrow('Invalid port "abc"');
+    expect(() => loadConfig(['--transport=pigeon'], {})).toThrow('Unknown MCP transport "pigeon"');
+    expect(() => loadConfig(['--public-url', 'not a url'], {})).toThrow('Invalid public URL');
+    expect(() => loadConfig(['--verbose'], {})).toThrow('Unknown option --verbose');
+    expect(() => loadConfig(['--port'], {})).toThrow('requires a value');
+    expect(() => loadConfig([], { AUTO_PORT: 'maybe' })).toThrow('Invalid autoPort');
+    expect(() => loadConfig(['--session-ttl-minutes', '-5'], {})).toThrow('Invalid sessionTtlMinutes');
+    expect(() => loadConfig([], { MAX_SESSIONS: '2.5' })).toThrow('Invalid maxSessions');
+    expect(() => loadConfig(['--cors-origins', 'app.example'], {})).toThrow('Invalid CORS origin "app.example"');
+    expect(() => loadConfig(['--config', writeConfigFile({ colour: 'red' })], {})).toThrow('Unknown setting colour');
+    expect(() => loadConfig(['--config', writeConfigFile('{ nope')], {})).toThrow('Cannot read config file');
+  });
+});
+
+describe('hint settings', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the defaults when HINT_LIMIT or HINT_COOLDOWN_MS is not a non-negative integer', async () => {
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('HINT_LIMIT', 'lots');
+    vi.stubEnv('HINT_COOLDOWN_MS', '-1');
+    vi.resetModules();
+
+    const { HINT_LIMIT, HINT_COOLDOWN_MS } = await import('../src/hints.js');
+    expect(HINT_LIMIT).toBe(10);
+    expect(HINT_COOLDOWN_MS).toBe(5000);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid HINT_LIMIT "lots"'));
+  });
+
+  it('accepts zero and other integers', async () => {
+    vi.stubEnv('HINT_LIMIT', '0');
+    vi.stubEnv('HINT_COOLDOWN_MS', '250');
+    vi.resetModules();
+
+    const { HINT_LIMIT, HINT_COOLDOWN_MS } = await import('../src/hints.js');
+    expect(HINT_LIMIT).toBe(0);
+    expect(HINT_COOLDOWN_MS).toBe(250);
+  });
+});
+
+describe('resolveBaseUrl', () => {
+  it('uses the public URL when set, otherwise the bound host and port', () => {
+    expect(resolveBaseUrl({ publicUrl: 'https://cube.example' }, 3001)).toBe('https://cube.example');
+    expect(resolveBaseUrl({}, 3001)).toBe('http://localhost:3001');
+    expect(resolveBaseUrl({ host: '0.0.0.0' }, 3001)).toBe('http://localhost:3001');
+    expect(resolveBaseUrl({ host: '192.168.0.5' }, 80)).toBe('http://192.168.0.5:80');
+    expect(resolveBaseUrl({ host: '::1' }, 80)).toBe('http://[::1]:80');
+  });
+});
+
+describe('port selection', () => {
+  it('moves to the next free port when the configured one is busy', async () => {
+    const blocker = net.createServer();
+    await new Promise<void>(resolve => blocker.listen(0, '127.0.0.1', resolve));
+    const busyPort = (blocker.address() as net.AddressInfo).port;
+
+    const server = new VisualizationServer(new GameManager());
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const port = await server.start(busyPort, { host: '127.0.0.1', autoPort: true });
+      expect(port).toBeGreaterThan(busyPort);
+      expect(server.getBaseUrl()).toBe(`http://127.0.0.1:${port}`);
+      expect(log.mock.calls.filter(([message]) => String(message).includes('server running on'))).toHaveLength(1);
+    } finally {
+      log.mockRestore();
+      await server.stop();
+      blocker.close();
+    }
+  });
+
+  it('fails when the port is busy and autoPort is off', async () => {
+    const blocker = net.createServer();
+    await new Promise<void>(resolve => blocker.listen(0, '127.0.0.1', resolve));
+    const busyPort = (blocker.address() as net.AddressInfo).port;
+
+    const server = new VisualizationServer(new GameManager());
+    await expect(server.start(busyPort, { host: '127.0.0.1' })).rejects.toThrow('EADDRINUSE');
+    blocker.close();
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { RubiksCube, getMoveBases, parseMove } from '../src/cubeLogic.js';
+import { StickerModel, getMoveTable } from '../src/model/StickerModel.js';
+import { CubieModel } from '../src/model/CubieModel.js';
+import { parseAlgorithm } from '../src/notation.js';
+import { createRandom } from '../src/scramble.js';
+import { validateCubeState } from '../src/validation.js';
+import { CubieCube } from '../src/solver/CubieCube.js';
+import { CubeMove, CubeState, COLORS, MIN_CUBE_SIZE, MAX_CUBE_SIZE } from '../src/types.js';
+
+const SIZES = Array.from({ length: MAX_CUBE_SIZE - MIN_CUBE_SIZE + 1 }, (_, i) => MIN_CUBE_SIZE + i);
+
+const SEXY_MOVE = "R U R' U'";
+const T_PERM = "R U R' U' R' F R2 U' R' U' R U R' F'";
+const SUPERFLIP = "U R2 F B R B2 R U2 L B2 R U' D' R2 F R' L B2 U2 F2";
+
+// 면 배열만 비교 (moveHistory 제외)
+function faces(cube: RubiksCube): string {
+  return JSON.stringify(cube.getState().faces);
+}
+
+function apply(cube: RubiksCube, algorithm: string, times: number = 1): RubiksCube {
+  const moves = parseAlgorithm(algorithm, cube.getSize());
+  for (let i = 0; i < times; i++) {
+    cube.executeMoves(moves);
+  }
+  return cube;
+}
+
+// 재현 가능한 섞인 큐브
+function scrambled(size: number, seed: number): RubiksCube {
+  const cube = new RubiksCube(size);
+  cube.scramble(30, createRandom(seed));
+  return cube;
+}
+
+function colorCounts(state: CubeState): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const face of Object.values(state.faces)) {
+    for (const color of face.flat()) {
+      counts[color] = (counts[color] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+describe('move engine', () => {
+  describe.each(SIZES)('%dx%d cube', size => {
+    const bases = getMoveBases(size);
+
+    it('every move has order 4', () => {
+      const start = scrambled(size, size);
+      for (const base of bases) {
+        const cube = scrambled(size, size);
+        for (let turn = 1; turn <= 4; turn++) {
+          cube.executeMove(base as CubeMove);
+          if (turn < 4) {
+            expect(faces(cube), `${base} x${turn}`).not.toBe(faces(start));
+          }
+        }
+        expect(faces(cube), `${base} x4`).toBe(faces(start));
+      }
+    });
+
+    it("X X' and X2 X2 are the identity", () => {
+      const start = scrambled(size, 100 + size);
+      for (const base of bases) {
+        const cube = scrambled(size, 100 + size);
+        cube.executeMoves([base, `${base}'`] as CubeMove[]);
+        expect(faces(cube), `${base} ${base}'`).toBe(faces(start));
+        cube.executeMoves([`${base}2`, `${base}2`] as CubeMove[]);
+        expect(faces(cube), `${base}2 ${base}2`).toBe(faces(start));
+      }
+    });
+
+    it('keeps every color on exactly N x N stickers', () => {
+      const random = createRandom(200 + size);
+      const cube = new RubiksCube(size);
+      for (let i = 0; i < 200; i++) {
+        const base = bases[Math.floor(random() * bases.length)];
+        cube.executeMove(`${base}${['', '\'', '2'][Math.floor(random() * 3)]}` as CubeMove);
+      }
+
+      const expected = Object.fromEntries(Object.values(COLORS).map(color => [color, size * size]));
+      expect(colorCounts(cube.getState())).toEqual(expected);
+    });
+  });
+
+  it('returns to solved after the sexy move six times', () => {
+    const cube = apply(new RubiksCube(3), SEXY_MOVE, 5);
+    expect(cube.isSolved()).toBe(false);
+    expect(apply(cube, SEXY_MOVE).isSolved()).toBe(true);
+  });
+
+  it('returns to solved after the T-perm twice', () => {
+    const cube = apply(new RubiksCube(3), T_PERM);
+    expect(cube.isSolved()).toBe(false);
+    expect(apply(cube, T_PERM).isSolved()).toBe(true);
+  });
+
+  it('superflip flips every edge in place and has order 2', () => {
+    const cube = apply(new RubiksCube(3), SUPERFLIP);
+    const cubie = CubieCube.fromState(cube.getState());
+
+    expect(cubie.cp).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+    expect(cubie.co).toEqual(Array(8).fill(0));
+    expect(cubie.ep).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+    expect(cubie.eo).toEqual(Array(12).fill(1));
+    expect(apply(cube, SUPERFLIP).isSolved()).toBe(true);
+  });
+
+  it('keeps the 3x3 cubie model in step with the sticker model, including slices and rotations', () => {
+    const random = createRandom(42);
+    const bases = getMoveBases(3);
+    const stickers = new StickerModel(3);
+    const cubies = new CubieModel();
+    for (let i = 0; i < 500; i++) {
+      const { turn, times } = parseMove(`${bases[Math.floor(random() * bases.length)]}${['', '\'', '2'][Math.floor(random() * 3)]}`, 3)!;
+      const table = getMoveTable(3, turn, times);
+      stickers.apply(table);
+      cubies.apply(table);
+      expect(cubies.toFacelets()).toBe(stickers.toFacelets());
+    }
+
+    expect(CubieModel.fromFaces(stickers.toFaces()).toFaces()).toEqual(stickers.toFaces());
+    expect(apply(new RubiksCube(3), "x y' z2").isSolved()).toBe(true);
+    expect(apply(new RubiksCube(3), "x M").isSolved()).toBe(false);
+  });
+
+  it('applies a same-layer wide turn on big cubes like the outer turn plus inner layer', () => {
+    const wide = new RubiksCube(5);
+    wide.executeMove('Rw');
+    const layers = new RubiksCube(5);
+    layers.executeMoves(['R', '2R'] as CubeMove[]);
+    expect(faces(wide)).toBe(faces(layers));
+  });
+
+  it('rejects unknown moves without changing the cube', () => {
+    const cube = scrambled(3, 7);
+    const before = cube.getState();
+    expect(() => cube.executeMoves(['R', 'U', 'Q' as CubeMove])).toThrow('Unknown move');
+    expect(cube.getState()).toEqual(before);
+  });
+
+  it('caps group repeat counts without expanding them', () => {
+    expect(parseAlgorithm('(R4)99999999999')).toEqual([]);
+    expect(parseAlgorithm('()999999999')).toEqual([]);
+    expect(parseAlgorithm("(R U)2'")).toEqual(["U'", "R'", "U'", "R'"]);
+    expect(() => parseAlgorithm('(R)2000')).toThrow(/more than 1000 moves/);
+    expect(() => parseAlgorithm('(R U)99999999999')).toThrow(/more than 1000 moves/);
+  });
+
+  it('accepts scrambled big cubes and rejects flipped wings and swapped centers', () => {
+    for (const size of SIZES.filter(size => size > 3)) {
+      const cube = scrambled(size, 500 + size);
+      cube.executeMoves(['x', "y'"] as CubeMove[]);
+      expect(validateCubeState(cube.getState()).faces).toEqual(cube.getState().faces);
+
+      // UF 엣지의 윙 하나를 제자리에서 뒤집기
+      const flipped = new RubiksCube(size).getState();
+      [flipped.faces.top[size - 1][1], flipped.faces.front[0][1]] = [flipped.faces.front[0][1], flipped.faces.top[size - 1][1]];
+      expect(() => validateCubeState(flipped)).toThrow(/flipped/);
+
+      // 센터와 윙의 스티커 맞바꾸기 (색 개수는 그대로)
+      const swapped = new RubiksCube(size).getState();
+      [swapped.faces.top[1][1], swapped.faces.front[0][1]] = [swapped.faces.front[0][1], swapped.faces.top[1][1]];
+      expect(() => validateCubeState(swapped)).toThrow(/Unreachable/);
+    }
+
+    // 5x5의 X 센터와 다른 면의 T 센터 맞바꾸기
+    const centers = new RubiksCube(5).getState();
+    [centers.faces.top[1][1], centers.faces.front[1][2]] = [centers.faces.front[1][2], centers.faces.top[1][1]];
+    expect(() => validateCubeState(centers)).toThrow(/centers/);
+  });
+
+  it('round-trips through facelet strings', () => {
+    for (const size of SIZES) {
+      const cube = scrambled(size, 300 + size);
+      const copy = RubiksCube.fromFacelets(cube.toFacelets());
+      expect(faces(copy)).toBe(faces(cube));
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { RubiksCubeMCPServer } from '../src/app.js';
+import { GameManager } from '../src/game/GameManager.js';
+import { VisualizationServer } from '../src/visualization/VisualizationServer.js';
+import { CubeResponse, GameAccessLinks } from '../src/types.js';
+
+let server: VisualizationServer;
+let gameManager: GameManager;
+let baseUrl: string;
+
+async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+// 도구 응답에서 JSON 텍스트 블록 추출
+function json(result: Awaited<ReturnType<Client['callTool']>>): CubeResponse & { access: GameAccessLinks } {
+  const content = result.content as { type: string; text?: string }[];
+  const block = content.find(item => item.type === 'text' && item.text?.startsWith('{'));
+  return JSON.parse(block!.text!);
+}
+
+beforeAll(async () => {
+  gameManager = new GameManager();
+  const mcp = new RubiksCubeMCPServer(gameManager);
+  server = new VisualizationServer(gameManager);
+  server.enableMcp(() => mcp.createMcpServer({ requireTokens: true }));
+  baseUrl = `http://localhost:${await server.start(0)}`;
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+describe('HTTP MCP transports', () => {
+  it('gives each streamable HTTP connection its own session while sharing games', async () => {
+    const firstTransport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const secondTransport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const first = await connect(firstTransport);
+    const second = await connect(secondTransport);
+
+    expect(firstTransport.sessionId).toBeTruthy();
+    expect(secondTransport.sessionId).not.toBe(firstTransport.sessionId);
+
+    const { gameId, access } = json(await first.callTool({ name: 'startCube', arguments: { scramble: false } }));
+    await second.callTool({ name: 'manipulateCube', arguments: { gameId, move: 'R', token: access.ownerToken } });
+    const joined = json(await first.callTool({ name: 'joinGame', arguments: { gameId } }));
+    expect(joined.cube.moveHistory).toEqual(['R']);
+
+    await first.close();
+    await second.close();
+  });
+
+  it('needs the owner token to change a game over HTTP', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const client = await connect(transport);
+    const { gameId, access } = json(await client.callTool({ name: 'startCube', arguments: { scramble: false } }));
+
+    for (const [name, args] of [['manipulateCube', { move: 'R' }], ['resetGame', {}], ['deleteGame', {}], ['undoMove', {}]] as const) {
+      expect((await client.callTool({ name, arguments: { gameId, ...args } })).isError).toBe(true);
+      expect((await client.callTool({ name, arguments: { gameId, ...args, token: access.spectatorToken } })).isError).toBe(true);
+    }
+    expect(json(await client.callTool({ name: 'joinGame', arguments: { gameId } })).cube.moveHistory).toEqual([]);
+
+    // 읽기 도구는 토큰 없이도 되지만 소유자 호출만 게임의 도구 호출로 집계
+    const { lastActivity } = gameManager.getGame(gameId)!;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await client.callTool({ name: 'analyzeCube', arguments: { gameId, token: access.spectatorToken } });
+    expect(gameManager.getGame(gameId)!.toolCalls).toBeUndefined();
+    expect(gameManager.getGame(gameId)!.lastActivity).toBe(lastActivity);
+    await client.callTool({ name: 'analyzeCube', arguments: { gameId, token: access.ownerToken } });
+    expect(gameManager.getGame(gameId)!.toolCalls).toEqual({ analyzeCube: 1 });
+    expect((await client.callTool({ name: 'manipulateCube', arguments: { gameId, move: 'R', token: access.ownerToken } })).isError).toBeFalsy();
+    expect((await client.callTool({ name: 'deleteGame', arguments: { gameId, token: access.ownerToken } })).isError).toBeFalsy();
+
+    await client.close();
+  });
+
+  it('serves legacy SSE clients', async () => {
+    const client = await connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toContain('manipulateCube');
+    await client.close();
+  });
+
+  it('rejects requests without a valid session', async () => {
+    const request = (headers: Record<string, string>) => fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect((await request({})).status).toBe(400);
+    expect((await request({ 'Mcp-Session-Id': 'unknown' })).status).toBe(404);
+  });
+
+  it('closes streamable HTTP sessions that go idle without a DELETE', async () => {
+    const gameManager = new GameManager();
+    const mcp = new RubiksCubeMCPServer(gameManager);
+    const idle = new VisualizationServer(gameManager);
+    idle.enableMcp(() => mcp.createMcpServer({ requireTokens: true }), { idleTimeoutMs: 50 });
+    const url = `http://localhost:${await idle.start(0)}/mcp`;
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+    const post = async (body: unknown, sessionId?: string) => {
+      const response = await fetch(url, { method: 'POST', headers: { ...headers, ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}) }, body: JSON.stringify(body) });
+      await response.text();
+      return response;
+    };
+
+    // 초기화만 하고 사라진 클라이언트
+    const initialized = await post({
+      jsonrpc: '2.0', id: 1, method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'gone', version: '1.0.0' } }
+    });
+    const sessionId = initialized.headers.get('mcp-session-id')!;
+    expect((await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, sessionId)).status).toBe(200);
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect((await post({ jsonrpc: '2.0', id: 3, method: 'ping' }, sessionId)).status).toBe(404);
+    await idle.stop();
+  });
+});
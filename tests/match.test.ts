@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { invertMoves } from '../src/notation.js';
+import { GameCompletedError, GameManager, SessionLimitError } from '../src/game/GameManager.js';
+import { MatchFullError, MatchManager, MatchNotFoundError, MatchSlotTakenError } from '../src/match/MatchManager.js';
+import { Match } from '../src/types.js';
+
+function setup(gameManager = new GameManager()) {
+  return { gameManager, matches: new MatchManager(gameManager) };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('matches', () => {
+  it('gives every player the same scramble and one game each', () => {
+    const { gameManager, matches } = setup();
+    const match = matches.createMatch({ players: 3, seed: 42, difficulty: 12 });
+
+    expect(match).toMatchObject({ name: '3x3 race', size: 3, seed: 42 });
+    expect(match.scramble).toHaveLength(12);
+    const games = match.slots.map(slot => gameManager.getGame(slot.gameId)!);
+    expect(new Set(games.map(game => game.id)).size).toBe(3);
+    for (const game of games) {
+      expect(game.scramble!.moves).toEqual(match.scramble);
+      expect(game.cubeState).toEqual(games[0].cubeState);
+      expect(game.match).toEqual({ matchId: match.id, slot: games.indexOf(game) });
+    }
+
+    // 이름은 공개되므로 같은 이름의 재참가는 그 게임의 소유자 토큰이 있어야 함
+    const alice = matches.joinMatch(match.id, 'alice');
+    expect(alice.rejoined).toBe(false);
+    expect(() => matches.joinMatch(match.id, ' alice ')).toThrow(MatchSlotTakenError);
+    expect(() => matches.joinMatch(match.id, 'alice', alice.session.access!.spectatorToken)).toThrow(MatchSlotTakenError);
+    expect(matches.joinMatch(match.id, ' alice ', alice.session.access!.ownerToken)).toEqual({ ...alice, rejoined: true });
+    expect(matches.joinMatch(match.id, 'bob').slot).toBe(1);
+    matches.joinMatch(match.id, 'carol');
+    expect(() => matches.joinMatch(match.id, 'dave')).toThrow(MatchFullError);
+    expect(() => matches.joinMatch('missing', 'dave')).toThrow(MatchNotFoundError);
+    expect(() => matches.joinMatch(match.id, '')).toThrow(/player/);
+    expect(() => matches.createMatch({ players: 1 })).toThrow(/between 2 and 8/);
+  });
+
+  it('ranks solved players by time and the rest by progress', () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const { gameManager, matches } = setup();
+    const updates: Match[] = [];
+    matches.on('matchUpdated', (match: Match) => updates.push(match));
+
+    const match = matches.createMatch({ players: 3, seed: 7, difficulty: 10 });
+    const solution = invertMoves(match.scramble);
+    const alice = matches.joinMatch(match.id, 'alice').session;
+    vi.advanceTimersByTime(5_000);
+    const bob = matches.joinMatch(match.id, 'bob').session;
+    expect(matches.getScoreboard(match.id)).toMatchObject({ status: 'waiting', openSlots: 1, winner: null });
+    const carol = matches.joinMatch(match.id, 'carol').session;
+
+    // bob은 늦게 들어왔지만 더 빨리 풂, carol은 절반만
+    vi.advanceTimersByTime(10_000);
+    gameManager.applyMoves(bob.id, solution);
+    gameManager.applyMoves(carol.id, solution.slice(0, 5));
+    vi.advanceTimersByTime(2_000);
+    gameManager.applyMoves(alice.id, ['R', "R'", ...solution]);
+    expect(updates.length).toBeGreaterThanOrEqual(6);
+
+    const scoreboard = matches.getScoreboard(match.id);
+    expect(scoreboard).toMatchObject({ status: 'racing', openSlots: 0, winner: 'bob' });
+    expect(scoreboard.standings.map(standing => [standing.rank, standing.player, standing.status, standing.finishTimeMs])).toEqual([
+      [1, 'bob', 'solved', 10_000],
+      [2, 'alice', 'solved', 17_000],
+      [3, 'carol', 'racing', null]
+    ]);
+    expect(scoreboard.standings[1].moves).toBe(solution.length + 2);
+
+    gameManager.deleteGame(carol.id);
+    expect(matches.getScoreboard(match.id)).toMatchObject({ status: 'finished' });
+    expect(matches.getScoreboard(match.id).standings[2]).toMatchObject({ player: 'carol', status: 'deleted' });
+    expect(() => matches.joinMatch(match.id, 'carol', carol.access!.ownerToken)).toThrow(/deleted/);
+  });
+
+  it('does not let a player who gave up win by solving afterwards', () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const { gameManager, matches } = setup();
+    const match = matches.createMatch({ players: 2, seed: 5, difficulty: 10 });
+    const solution = invertMoves(match.scramble);
+    const alice = matches.joinMatch(match.id, 'alice').session;
+    const bob = matches.joinMatch(match.id, 'bob').session;
+
+    gameManager.finish(alice.id);
+    vi.advanceTimersByTime(3_000);
+    expect(() => gameManager.applyMoves(alice.id, solution)).toThrow(GameCompletedError);
+    gameManager.applyMoves(bob.id, solution);
+
+    expect(alice).toMatchObject({ status: 'completed', gaveUpAt: 1_000_000 });
+    expect(alice.completedAt).toBeUndefined();
+    const scoreboard = matches.getScoreboard(match.id);
+    expect(scoreboard.winner).toBe('bob');
+    expect(scoreboard.standings.map(standing => [standing.player, standing.status, standing.finishTimeMs])).toEqual([
+      ['bob', 'solved', 3_000],
+      ['alice', 'gave-up', null]
+    ]);
+  });
+
+  it('removes the games it created when the session limit is reached', () => {
+    const { gameManager, matches } = setup(new GameManager(undefined, { maxSessions: 3 }));
+    gameManager.createGame({ scramble: false });
+    expect(() => matches.createMatch({ players: 3 })).toThrow(SessionLimitError);
+    expect(gameManager.listGames()).toHaveLength(1);
+    expect(matches.listMatches()).toEqual([]);
+    gameManager.close();
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { PromptMessage, ResourceListChangedNotificationSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { RubiksCubeMCPServer } from '../src/app.js';
+import { GameManager } from '../src/game/GameManager.js';
+import { CubeResponse, GameAccessLinks, MatchScoreboard, ScrambleInfo } from '../src/types.js';
+
+let client: Client;
+let gameManager: GameManager;
+
+interface ToolResult {
+  isError?: boolean;
+  content: { type: string; text?: string; data?: string; mimeType?: string; resource?: { uri: string; mimeType: string; text: string } }[];
+}
+
+async function callTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+  return await client.callTool({ name, arguments: args }) as ToolResult;
+}
+
+// 게임 도구 응답 (startCube, joinGame 등) - 이 테스트의 게임은 모두 섞기 기록과 링크가 있음
+type GameResponse = CubeResponse & { scramble: ScrambleInfo; access: GameAccessLinks };
+
+// 대결 도구 응답 (createMatch, joinMatch)
+type MatchResponse = GameResponse & { matchId: string; slot: number; rejoined: boolean; scoreboard: MatchScoreboard };
+
+// 도구 응답에서 JSON 텍스트 블록 추출
+function json<T = GameResponse>(result: ToolResult): T {
+  const block = result.content.find(item => item.type === 'text' && item.text?.startsWith('{'));
+  return JSON.parse(block!.text!) as T;
+}
+
+// 프롬프트 메시지의 텍스트 (리소스 메시지면 리소스 본문)
+function messageText({ content }: PromptMessage): string {
+  if (content.type === 'text') {
+    return content.text;
+  }
+  if (content.type === 'resource' && typeof content.resource.text === 'string') {
+    return content.resource.text;
+  }
+  throw new Error(`No text in ${content.type} message`);
+}
+
+beforeEach(async () => {
+  gameManager = new GameManager();
+  const server = new RubiksCubeMCPServer(gameManager);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'test-client', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterEach(async () => {
+  await client.close();
+});
+
+describe('MCP tools', () => {
+  it('lists the cube tools', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(expect.arrayContaining([
+      'startCube', 'joinGame', 'manipulateCube', 'applyAlgorithm', 'undoMove', 'redoMove', 'jumpToMove', 'solveCube', 'getHint', 'finish', 'analyzeCube', 'getStats', 'listGames', 'deleteGame', 'resetGame',
+      'createMatch', 'joinMatch'
+    ]));
+  });
+
+  it('plays a game from start to finish', async () => {
+    const started = json(await callTool('startCube', { scramble: false }));
+    expect(started.cube.solved).toBe(true);
+    const { gameId } = started;
+
+    let result = json(await callTool('manipulateCube', { gameId, move: 'F' }));
+    expect(result.cube.solved).toBe(false);
+    expect(result.nextAction).toBe('manipulateCube');
+
+    result = json(await callTool('applyAlgorithm', { gameId, algorithm: "F'" }));
+    expect(result.cube.solved).toBe(true);
+    expect(result.nextAction).toBe('finish');
+    expect(gameManager.getGame(gameId)!.status).toBe('completed');
+    expect(gameManager.getGame(gameId)!.toolCalls).toEqual({ manipulateCube: 1, applyAlgorithm: 1 });
+  });
+
+  it('shares sessions with the GameManager', async () => {
+    const session = gameManager.createGame({ seed: 7, difficulty: 12 });
+    const joined = json(await callTool('joinGame', { gameId: session.id }));
+
+    expect(joined.cube).toEqual(session.cubeState);
+    expect(joined.scramble.seed).toBe(7);
+  });
+
+  it('returns a cube image on request', async () => {
+    const { gameId } = json(await callTool('startCube', { seed: 1 }));
+    const result = await callTool('joinGame', { gameId, image: 'net' });
+    const image = result.content.find(item => item.type === 'image');
+
+    expect(image?.mimeType).toBe('image/png');
+    expect(Buffer.from(image!.data!, 'base64').subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('returns an MCP UI resource with move buttons that call manipulateCube', async () => {
+    const started = await callTool('startCube', { scramble: false });
+    const { gameId, access } = json(started);
+    expect(access).toEqual({
+      ownerToken: gameManager.getGame(gameId)!.access!.ownerToken,
+      spectatorToken: gameManager.getGame(gameId)!.access!.spectatorToken,
+      playUrl: expect.stringMatching(/\?token=/),
+      shareUrl: expect.stringContaining(access.spectatorToken)
+    });
+    const ui = started.content.find(item => item.type === 'resource')!.resource!;
+
+    expect(ui.uri).toBe(`ui://game-cube/${gameId}`);
+    expect(ui.mimeType).toBe('text/html');
+    expect(ui.text).toContain('data:image/svg+xml;base64,');
+    const actions = [...ui.text.matchAll(/data-action="([^"]+)"/g)].map(match => JSON.parse(match[1].replace(/&#34;/g, '"').replace(/&#39;/g, "'")));
+    expect(actions).toContainEqual({ type: 'tool', payload: { toolName: 'manipulateCube', params: { gameId, token: access.ownerToken, move: "R'" } } });
+    expect(actions).toContainEqual({ type: 'tool', payload: { toolName: 'undoMove', params: { gameId, token: access.ownerToken } } });
+
+    // joinGame은 누구나 부를 수 있으므로 보기 전용 링크만
+    const joined = await callTool('joinGame', { gameId, ui: 'iframe' });
+    const frame = joined.content.find(item => item.type === 'resource')!.resource!;
+    expect(frame.mimeType).toBe('text/uri-list');
+    expect(frame.text).toBe(access.shareUrl);
+    expect(JSON.stringify(joined.content)).not.toContain(access.ownerToken);
+    const buttons = (await callTool('joinGame', { gameId, ui: 'interactive' })).content.find(item => item.type === 'resource')!.resource!;
+    expect(buttons.text).not.toContain(access.ownerToken);
+    expect((await callTool('joinGame', { gameId })).content.some(item => item.type === 'resource')).toBe(false);
+  });
+
+  it('lists, resets and deletes games', async () => {
+    const { gameId } = json(await callTool('startCube', { initialState: 'F' }));
+    await callTool('manipulateCube', { gameId, move: 'U' });
+
+    const listed = JSON.parse((await callTool('listGames', { status: 'active' })).content[0].text!);
+    expect(listed).toEqual([expect.objectContaining({ gameId, moves: 1, status: 'active', expiresAt: null })]);
+
+    const reset = json(await callTool('resetGame', { gameId }));
+    expect(reset.cube).toEqual(gameManager.getGame(gameId)!.history!.initialState);
+
+    await callTool('deleteGame', { gameId });
+    expect(gameManager.getGame(gameId)).toBeUndefined();
+    expect((await callTool('resetGame', { gameId })).isError).toBe(true);
+  });
+
+  it('creates and joins head-to-head matches', async () => {
+    const created = json<MatchResponse>(await callTool('createMatch', { players: 2, seed: 11, difficulty: 6, player: 'agent' }));
+    expect(created).toMatchObject({ name: '3x3 race', players: 2, scramble: { seed: 11 }, slot: 0, nextAction: 'manipulateCube' });
+    expect(created.scoreboard.standings).toEqual([expect.objectContaining({ player: 'agent', status: 'racing' })]);
+
+    const joined = await callTool('joinMatch', { matchId: created.matchId, player: 'human', ui: 'link' });
+    const human = json<MatchResponse>(joined);
+    expect(human).toMatchObject({ slot: 1, scramble: created.scramble });
+    expect(human.cube).toEqual(created.cube);
+    expect(joined.content[0].type).toBe('resource');
+    expect(gameManager.getGame(human.gameId)!.toolCalls).toEqual({ joinMatch: 1 });
+
+    expect((await callTool('joinMatch', { matchId: created.matchId, player: 'human' })).isError).toBe(true);
+    const rejoined = await callTool('joinMatch', { matchId: created.matchId, player: 'human', token: human.access.ownerToken });
+    expect(json(rejoined)).toMatchObject({ slot: 1, gameId: human.gameId, rejoined: true });
+    expect(json(rejoined).access).toBeUndefined();
+    // 소유자 토큰을 보여 주고 다시 들어왔으므로 조작 버튼에는 그 토큰이 들어감
+    expect(rejoined.content.find(item => item.type === 'resource')!.resource!.text).toContain(human.access.ownerToken);
+    expect((await callTool('joinMatch', { matchId: created.matchId, player: 'late' })).isError).toBe(true);
+    expect(json(await callTool('createMatch', {}))).toMatchObject({ players: 2, nextAction: 'joinMatch' });
+  });
+
+  it('exposes games as resources and pushes updates to subscribers', async () => {
+    const updated: string[] = [];
+    let listChanged = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => { updated.push(notification.params.uri); });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => { listChanged++; });
+
+    const { gameId } = json(await callTool('startCube', { initialState: 'R' }));
+    const uri = `cube://games/${gameId}`;
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual(expect.arrayContaining(['cube://games', uri]));
+
+    const [listing] = (await client.readResource({ uri: 'cube://games' })).contents;
+    expect(JSON.parse(listing.text as string)).toEqual([expect.objectContaining({ gameId, uri, status: 'active' })]);
+
+    await client.subscribeResource({ uri });
+    await callTool('manipulateCube', { gameId, move: "R'" });
+    const [game] = (await client.readResource({ uri })).contents;
+    expect(JSON.parse(game.text as string)).toMatchObject({
+      gameId,
+      status: 'completed',
+      facelets: 'UUUUUUUUURRRRRRRRRFFFFFFFFFDDDDDDDDDLLLLLLLLLBBBBBBBBB',
+      history: { cursor: 1, moves: [expect.objectContaining({ index: 0, move: "R'", actor: 'mcp' })] },
+      analysis: { stages: ['cross', 'f2l', 'oll', 'pll'] }
+    });
+
+    await client.unsubscribeResource({ uri });
+    await callTool('resetGame', { gameId });
+    await callTool('deleteGame', { gameId });
+    await expect(client.subscribeResource({ uri })).rejects.toThrow(/Unknown resource/);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(updated).toEqual([uri]);
+    expect(listChanged).toBe(2);
+  });
+
+  it('offers solving prompts that embed the game state', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['solve-beginner', 'solve-cfop', 'review-solve']);
+
+    const { gameId } = json(await callTool('startCube', { initialState: "R U R' U'" }));
+    const beginner = await client.getPrompt({ name: 'solve-beginner', arguments: { gameId } });
+    const [resource, text] = beginner.messages;
+    expect(resource.content).toMatchObject({ type: 'resource', resource: { uri: `cube://games/${gameId}`, mimeType: 'application/json' } });
+    expect(JSON.parse(messageText(resource)).gameId).toBe(gameId);
+    expect(messageText(text)).toContain('1. White cross');
+    expect(messageText(text)).toContain(`gameId "${gameId}"`);
+
+    const cfop = await client.getPrompt({ name: 'solve-cfop', arguments: { gameId } });
+    expect(messageText(cfop.messages[1])).toContain('3/4 F2L pairs solved');
+    await expect(client.getPrompt({ name: 'review-solve', arguments: { gameId: 'missing' } })).rejects.toThrow(/not found/);
+  });
+
+  it('reports errors for invalid moves and unknown games', async () => {
+    const { gameId } = json(await callTool('startCube', { scramble: false }));
+
+    const invalid = await callTool('manipulateCube', { gameId, move: 'Q' });
+    expect(invalid.isError).toBe(true);
+    expect(invalid.content[0].text).toMatch(/Invalid move Q/);
+
+    const missing = await callTool('joinGame', { gameId: 'missing' });
+    expect(missing.isError).toBe(true);
+    expect(missing.content[0].text).toMatch(/not found/);
+  });
+});
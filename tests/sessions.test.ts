@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GameCompletedError, GameManager, GameNotFoundError, SessionLimitError } from '../src/game/GameManager.js';
+import { describeTimer, INSPECTION_MS } from '../src/timer.js';
+import { GameSession } from '../src/types.js';
+import { SessionStore } from '../src/storage/SessionStore.js';
+
+// 저장/삭제 호출을 기록하는 저장소
+class RecordingStore implements SessionStore {
+  deleted: string[] = [];
+  load(): GameSession[] { return []; }
+  save(): void {}
+  delete(gameId: string): void { this.deleted.push(gameId); }
+  close(): void {}
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('session lifecycle', () => {
+  it('expires idle games in the background and reports them', () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const store = new RecordingStore();
+    const manager = new GameManager(store, { idleTtlMs: 60_000 });
+    const removed: [string, string][] = [];
+    manager.on('sessionDeleted', (session: GameSession, reason: string) => removed.push([session.id, reason]));
+
+    const idle = manager.createGame({ scramble: false });
+    const busy = manager.createGame({ scramble: false });
+    expect(manager.getExpiry(idle)).toBe(1_060_000);
+
+    vi.advanceTimersByTime(40_000);
+    manager.applyMoves(busy.id, ['R']);
+    vi.advanceTimersByTime(30_000);
+
+    expect(removed).toEqual([[idle.id, 'expired']]);
+    expect(store.deleted).toEqual([idle.id]);
+    expect(manager.getGame(idle.id)).toBeUndefined();
+    expect(manager.getGame(busy.id)).toBeDefined();
+
+    // MCP 도구 호출도 활동으로 봄
+    manager.recordToolCall(busy.id, 'joinGame');
+    vi.advanceTimersByTime(50_000);
+    expect(manager.getGame(busy.id)).toBeDefined();
+    manager.close();
+  });
+
+  it('caps the number of games, making room by expiring idle ones first', () => {
+    vi.useFakeTimers({ now: 2_000_000 });
+    const manager = new GameManager(undefined, { maxSessions: 2 });
+    const first = manager.createGame({ scramble: false });
+    manager.createGame({ scramble: false });
+    expect(() => manager.createGame({ scramble: false })).toThrow(SessionLimitError);
+    expect(() => manager.createGame({ scramble: false })).toThrow(/at most 2 games/);
+
+    manager.deleteGame(first.id);
+    expect(() => manager.createGame({ scramble: false })).not.toThrow();
+
+    manager.setLimits({ maxSessions: 2, idleTtlMs: 10 * 60_000 });
+    vi.setSystemTime(2_000_000 + 10 * 60_000);
+    expect(() => manager.createGame({ scramble: false })).not.toThrow();
+    expect(manager.listGames()).toHaveLength(1);
+    expect(() => manager.deleteGame(first.id)).toThrow(GameNotFoundError);
+    manager.close();
+  });
+
+  it('resets a game to its scrambled start', () => {
+    vi.useFakeTimers({ now: 3_000_000 });
+    const manager = new GameManager();
+    const session = manager.createGame({ initialState: "R U", timed: true, player: 'alice' });
+    const start = session.cubeState;
+    manager.requestHint(session.id);
+
+    vi.advanceTimersByTime(INSPECTION_MS + 1000);
+    manager.applyMoves(session.id, ["U'", "R'"]);
+    expect(session.status).toBe('completed');
+
+    const updates: GameSession[] = [];
+    manager.on('sessionUpdated', (updated: GameSession) => updates.push(updated));
+    manager.resetGame(session.id);
+
+    expect(updates).toEqual([session]);
+    expect(session).toMatchObject({ status: 'active', completedAt: undefined, cubeState: start });
+    expect(session.history).toMatchObject({ moves: [], cursor: 0 });
+    expect(session.hints).toHaveLength(1);
+    expect(describeTimer(session)).toMatchObject({ player: 'alice', phase: 'inspection', inspectionRemainingMs: INSPECTION_MS });
+  });
+
+  it('closes the history of finished games until they are reset', () => {
+    vi.useFakeTimers({ now: 4_000_000 });
+    const manager = new GameManager();
+
+    const gaveUp = manager.createGame({ initialState: 'R' });
+    manager.applyMoves(gaveUp.id, ['U']);
+    manager.finish(gaveUp.id);
+    expect(() => manager.undo(gaveUp.id)).toThrow(GameCompletedError);
+    expect(gaveUp).toMatchObject({ status: 'completed', gaveUpAt: 4_000_000 });
+
+    const solved = manager.createGame({ initialState: 'R' });
+    manager.applyMoves(solved.id, ["R'"]);
+    vi.advanceTimersByTime(1000);
+    expect(() => manager.undo(solved.id)).toThrow(GameCompletedError);
+    expect(() => manager.jumpTo(solved.id, 0)).toThrow(GameCompletedError);
+    expect(solved).toMatchObject({ status: 'completed', completedAt: 4_000_000 });
+    expect(solved.cubeState.solved).toBe(true);
+
+    // 되돌리거나 다시 해서 풀린 상태에 닿으면 그때 완성
+    const rewound = manager.createGame({ scramble: false });
+    manager.applyMoves(rewound.id, ['R']);
+    manager.undo(rewound.id);
+    expect(rewound).toMatchObject({ status: 'completed', completedAt: 4_001_000 });
+
+    manager.resetGame(gaveUp.id);
+    manager.applyMoves(gaveUp.id, ['U']);
+    expect(manager.undo(gaveUp.id)).toMatchObject({ status: 'active' });
+    expect(gaveUp.gaveUpAt).toBeUndefined();
+    manager.close();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RubiksCube } from '../src/cubeLogic.js';
+import { parseAlgorithm, invertMoves } from '../src/notation.js';
+import { computeStats, describeTimer, INSPECTION_MS } from '../src/timer.js';
+import { GameManager } from '../src/game/GameManager.js';
+import { GameSession } from '../src/types.js';
+
+// 끝난 타이머 기록만 가진 세션 (통계 계산용)
+function finishedSolve(player: string, finishedAt: number, timeMs: number | 'DNF'): GameSession {
+  return {
+    id: `solve_${finishedAt}`,
+    cubeState: new RubiksCube(3).getState(),
+    createdAt: 0,
+    lastActivity: 0,
+    status: 'completed',
+    timer: {
+      player,
+      inspectionMs: INSPECTION_MS,
+      inspectionStartedAt: 0,
+      startedAt: 0,
+      finishedAt,
+      ...(timeMs === 'DNF' ? { dnf: true } : { timeMs }),
+      splits: []
+    }
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('timer mode', () => {
+  it('waits for inspection, then records splits and stops on solve', () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const manager = new GameManager();
+    const [cross, f2l, oll, pll] = ['F R', "U R U' R'", "R U R' U R U2 R'", "R U R' U' R' F R2 U' R' U' R U R' F'"].map(alg => parseAlgorithm(alg));
+    const scramble = invertMoves([...cross, ...f2l, ...oll, ...pll]).join(' ');
+    const session = manager.createGame({ initialState: scramble, timed: true, player: 'alice' });
+    expect(describeTimer(session)).toMatchObject({ phase: 'inspection', inspectionRemainingMs: INSPECTION_MS });
+
+    // 큐브 회전은 타이머를 시작하지 않음
+    vi.advanceTimersByTime(3000);
+    manager.applyMoves(session.id, ['y', "y'"]);
+    expect(describeTimer(session)!.phase).toBe('inspection');
+
+    vi.advanceTimersByTime(2000);
+    manager.applyMoves(session.id, cross);
+    expect(session.timer!.startedAt).toBe(1_005_000);
+    expect(session.timer!.splits.map(split => split.stage)).toEqual(['cross']);
+
+    vi.advanceTimersByTime(4000);
+    manager.applyMoves(session.id, f2l);
+    vi.advanceTimersByTime(6000);
+    manager.applyMoves(session.id, [...oll, ...pll]);
+
+    expect(session.status).toBe('completed');
+    expect(describeTimer(session)).toMatchObject({ phase: 'finished', timeMs: 10000, elapsedMs: 10000 });
+    expect(session.timer!.splits).toEqual([
+      { stage: 'cross', timeMs: 0, moveCount: 4 },
+      { stage: 'f2l', timeMs: 4000, moveCount: 8 },
+      { stage: 'oll', timeMs: 10000, moveCount: 29 },
+      { stage: 'pll', timeMs: 10000, moveCount: 29 }
+    ]);
+  });
+
+  it('starts on its own when inspection runs out and records DNF on an unsolved finish', () => {
+    vi.useFakeTimers({ now: 2_000_000 });
+    const manager = new GameManager();
+    const session = manager.createGame({ initialState: 'R', timed: true });
+
+    vi.advanceTimersByTime(INSPECTION_MS + 5000);
+    expect(describeTimer(session)).toMatchObject({ player: 'anonymous', phase: 'running', elapsedMs: 5000 });
+
+    manager.finish(session.id);
+    expect(describeTimer(session)).toMatchObject({ phase: 'finished', dnf: true, elapsedMs: 5000 });
+    expect(manager.getStats()).toEqual([
+      { player: 'anonymous', solves: 0, dnfs: 1, best: null, mean: null, ao5: null, ao12: null, latest: 'DNF' }
+    ]);
+  });
+});
+
+describe('player statistics', () => {
+  it('computes best, mean and WCA averages per player', () => {
+    const times = [12000, 9000, 15000, 11000, 10000, 'DNF', 13000, 8000, 14000, 9500, 10500, 12500] as const;
+    const sessions = [
+      ...times.map((time, i) => finishedSolve('alice', i + 1, time)),
+      finishedSolve('bob', 100, 20000)
+    ];
+
+    const [alice, bob] = computeStats(sessions);
+    expect(alice).toEqual({
+      player: 'alice',
+      solves: 11,
+      dnfs: 1,
+      best: 8000,
+      mean: 11318,
+      ao5: 10833,     // 8000 14000 9500 10500 12500 -> 9500 10500 12500
+      ao12: 11650,    // 8000과 DNF 제외
+      latest: 12500
+    });
+    expect(bob).toMatchObject({ player: 'bob', solves: 1, ao5: null, latest: 20000 });
+
+    expect(computeStats(sessions.slice(0, 7), 'alice')[0].ao5).toBe(13000);   // DNF는 가장 느린 기록으로 제외
+    expect(computeStats([...sessions, finishedSolve('alice', 50, 'DNF'), finishedSolve('alice', 51, 'DNF')], 'alice')[0].ao5).toBe('DNF');
+    expect(computeStats(sessions, 'carol')).toEqual([]);
+  });
+});